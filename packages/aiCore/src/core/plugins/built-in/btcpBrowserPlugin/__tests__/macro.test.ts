@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  applyMacroParameters,
+  createLocator,
+  describeRefs,
+  formatMacroList,
+  parameterizeMacroSteps,
+  replayMacro,
+  resolveLocator
+} from '../macro'
+import type { BTCPMacro, BTCPMacroStep } from '../types'
+
+const PAGE = [
+  '- form "Login" [ref=1]',
+  '  - textbox "Email" [ref=2]',
+  '  - button "Next" [ref=3]',
+  '- button "Next" [ref=4]'
+].join('\n')
+
+const step = (overrides: Partial<BTCPMacroStep>): BTCPMacroStep => ({
+  toolName: 'browser_click',
+  args: {},
+  delay: 0,
+  duration: 10,
+  ...overrides
+})
+
+describe('describeRefs', () => {
+  it('reads role and name from the snapshot lines', () => {
+    expect(describeRefs({ snapshot: PAGE })).toEqual({
+      '@ref:1': { role: 'form', name: 'Login' },
+      '@ref:2': { role: 'textbox', name: 'Email' },
+      '@ref:3': { role: 'button', name: 'Next' },
+      '@ref:4': { role: 'button', name: 'Next' }
+    })
+  })
+})
+
+describe('locators', () => {
+  const refs = describeRefs({ snapshot: PAGE })
+
+  it('records the position among elements with the same role and name', () => {
+    expect(createLocator('@ref:4', refs)).toEqual({ role: 'button', name: 'Next', index: 1 })
+    expect(createLocator('#submit', refs)).toBeUndefined()
+    expect(createLocator('@ref:99', refs)).toBeUndefined()
+  })
+
+  it('finds the element again after refs are renumbered', () => {
+    const renumbered = describeRefs({ snapshot: PAGE.replace(/ref=(\d)/g, (_, n) => `ref=${Number(n) + 10}`) })
+    expect(resolveLocator({ role: 'button', name: 'Next', index: 1 }, renumbered)).toBe('@ref:14')
+    expect(resolveLocator({ role: 'link', name: 'Home', index: 0 }, renumbered)).toBeUndefined()
+  })
+})
+
+describe('parameters', () => {
+  it('turns typed values into parameters with the recorded value as default', () => {
+    const { steps, parameters } = parameterizeMacroSteps([
+      step({
+        toolName: 'browser_fill',
+        args: { selector: '@ref:2', value: 'me@example.com' },
+        locator: { role: 'textbox', name: 'Email', index: 0 }
+      }),
+      step({ toolName: 'browser_click', args: { selector: '@ref:3' } })
+    ])
+    expect(parameters).toEqual([{ name: 'email', description: 'Email', default: 'me@example.com' }])
+    expect(steps[0].args.value).toBe('{{email}}')
+    expect(steps[1].args).toEqual({ selector: '@ref:3' })
+  })
+
+  it('substitutes placeholders and leaves unknown ones', () => {
+    expect(applyMacroParameters({ url: 'https://x.test/?q={{ query }}&p={{page}}', n: 1 }, { query: 'cats' })).toEqual({
+      url: 'https://x.test/?q=cats&p={{page}}',
+      n: 1
+    })
+  })
+
+  it('lists macros with their parameters', () => {
+    const macro: BTCPMacro = {
+      id: 'm1',
+      name: 'login',
+      parameters: [{ name: 'email', default: 'me@example.com' }],
+      steps: [step({})]
+    }
+    expect(formatMacroList([macro])).toBe('- login: 1 steps. Parameters: email (default "me@example.com")')
+  })
+})
+
+describe('replayMacro', () => {
+  const macro: BTCPMacro = {
+    id: 'm1',
+    name: 'search',
+    parameters: [{ name: 'query' }],
+    steps: [
+      step({
+        toolName: 'browser_fill',
+        args: { selector: '@ref:2', value: '{{query}}' },
+        locator: { role: 'textbox', name: 'Email', index: 0 }
+      }),
+      step({ toolName: 'browser_get_text', args: { selector: '#result' } })
+    ]
+  }
+
+  const createRunner = () => ({
+    runTool: vi.fn(async (toolName: string) =>
+      toolName === 'browser_get_text' ? { text: 'done' } : { success: true }
+    ),
+    getRefs: vi.fn(async () => describeRefs({ snapshot: PAGE.replace('ref=2', 'ref=20') })),
+    maxStepDelay: 0
+  })
+
+  it('replays steps with parameters and re-resolved refs', async () => {
+    const runner = createRunner()
+    const result = await replayMacro(macro, { query: 'cats' }, runner)
+
+    expect(runner.runTool).toHaveBeenNthCalledWith(1, 'browser_fill', { selector: '@ref:20', value: 'cats' })
+    expect(result).toEqual({
+      macro: 'search',
+      success: true,
+      completedSteps: 2,
+      totalSteps: 2,
+      outputs: [{ step: 2, toolName: 'browser_get_text', result: { text: 'done' } }]
+    })
+  })
+
+  it('requires parameters without defaults', async () => {
+    const runner = createRunner()
+    const result = await replayMacro(macro, {}, runner)
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('"query"')
+    expect(runner.runTool).not.toHaveBeenCalled()
+  })
+
+  it('stops at the first failing step', async () => {
+    const runner = createRunner()
+    runner.runTool.mockRejectedValueOnce(new Error('element is detached'))
+    const result = await replayMacro(macro, { query: 'cats' }, runner)
+    expect(result).toMatchObject({ success: false, completedSteps: 0 })
+    expect(result.error).toBe('Step 1 (browser_fill) failed: element is detached')
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { filterRequests, matchesUrlPattern, normalizeRequest, parseResponseBody, waitForRequest } from '../network'
+import type { BTCPNetworkRequest } from '../types'
+
+const request = (overrides: Partial<BTCPNetworkRequest>): BTCPNetworkRequest => ({
+  id: '1',
+  url: 'https://api.example.com/items',
+  method: 'GET',
+  status: 200,
+  resourceType: 'fetch',
+  timestamp: 1000,
+  ...overrides
+})
+
+describe('matchesUrlPattern', () => {
+  it('matches substrings without wildcards', () => {
+    expect(matchesUrlPattern('https://api.example.com/items?page=2', '/items')).toBe(true)
+    expect(matchesUrlPattern('https://api.example.com/users', '/items')).toBe(false)
+  })
+
+  it('matches whole URLs with wildcards', () => {
+    expect(matchesUrlPattern('https://api.example.com/v1/items', '*/v1/*')).toBe(true)
+    expect(matchesUrlPattern('https://api.example.com/v1/items', 'https://*.example.com/v2/*')).toBe(false)
+    expect(matchesUrlPattern('https://api.example.com/a.json?x=1', '*.json?x=*')).toBe(true)
+  })
+})
+
+describe('filterRequests', () => {
+  const requests = [
+    request({ id: '1' }),
+    request({ id: '2', method: 'POST', status: 500 }),
+    request({ id: '3', url: 'https://cdn.example.com/app.js', resourceType: 'script' })
+  ]
+
+  it('combines all given criteria', () => {
+    expect(filterRequests(requests, { urlPattern: 'api.', method: 'post' }).map((r) => r.id)).toEqual(['2'])
+    expect(filterRequests(requests, { status: 200, resourceType: 'Script' }).map((r) => r.id)).toEqual(['3'])
+    expect(filterRequests(requests, {})).toHaveLength(3)
+  })
+})
+
+describe('normalizeRequest', () => {
+  it('accepts the common field spellings', () => {
+    expect(
+      normalizeRequest({ requestId: 'r1', url: 'https://x.test', statusCode: 404, type: 'xhr', timeStamp: 5 }, 0)
+    ).toEqual({
+      id: 'r1',
+      url: 'https://x.test',
+      method: 'GET',
+      status: 404,
+      resourceType: 'xhr',
+      mimeType: undefined,
+      timestamp: 5,
+      duration: undefined,
+      error: undefined
+    })
+    expect(normalizeRequest({ method: 'GET' }, 0)).toBeUndefined()
+  })
+})
+
+describe('parseResponseBody', () => {
+  it('parses JSON and truncates other text', () => {
+    expect(parseResponseBody('{"ok":true}', 5)).toEqual({ ok: true })
+    expect(parseResponseBody('<html></html>', 6)).toBe('<html>... [truncated 7 chars]')
+  })
+})
+
+describe('waitForRequest', () => {
+  it('waits until a matching request started after `since` completes', async () => {
+    const getRequests = vi
+      .fn<() => Promise<BTCPNetworkRequest[]>>()
+      .mockResolvedValueOnce([request({ id: 'old', timestamp: 10 })])
+      .mockResolvedValueOnce([request({ id: 'old', timestamp: 10 }), request({ id: 'new', status: undefined })])
+      .mockResolvedValue([request({ id: 'old', timestamp: 10 }), request({ id: 'new' })])
+
+    const result = await waitForRequest(
+      getRequests,
+      { urlPattern: '/items' },
+      { since: 500, timeout: 1000, interval: 1 }
+    )
+    expect(result.id).toBe('new')
+    expect(getRequests).toHaveBeenCalledTimes(3)
+  })
+
+  it('times out without a match', async () => {
+    await expect(
+      waitForRequest(async () => [], { urlPattern: '/items' }, { since: 0, timeout: 5, interval: 1 })
+    ).rejects.toThrow('No response matching')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+
+import { evaluateSitePolicy, getOrigin, isMutatingToolCall, matchesOriginPattern } from '../policy'
+
+describe('matchesOriginPattern', () => {
+  it('matches bare hosts exactly', () => {
+    expect(matchesOriginPattern('https://example.com', 'example.com')).toBe(true)
+    expect(matchesOriginPattern('https://www.example.com', 'example.com')).toBe(false)
+  })
+
+  it('matches wildcard hosts including the apex domain', () => {
+    expect(matchesOriginPattern('https://mail.google.com', '*.google.com')).toBe(true)
+    expect(matchesOriginPattern('https://google.com', '*.google.com')).toBe(true)
+    expect(matchesOriginPattern('https://notgoogle.com', '*.google.com')).toBe(false)
+  })
+
+  it('checks scheme and port for full origins', () => {
+    expect(matchesOriginPattern('https://example.com', 'https://example.com/')).toBe(true)
+    expect(matchesOriginPattern('http://example.com', 'https://example.com')).toBe(false)
+    expect(matchesOriginPattern('http://localhost:3000', 'http://localhost:3000')).toBe(true)
+    expect(matchesOriginPattern('http://localhost:5173', 'http://localhost:3000')).toBe(false)
+  })
+
+  it('ignores empty patterns', () => {
+    expect(matchesOriginPattern('https://example.com', '  ')).toBe(false)
+  })
+})
+
+describe('getOrigin', () => {
+  it('returns null for opaque or invalid URLs', () => {
+    expect(getOrigin('https://example.com/path?q=1')).toBe('https://example.com')
+    expect(getOrigin('about:blank')).toBeNull()
+    expect(getOrigin('not a url')).toBeNull()
+    expect(getOrigin(undefined)).toBeNull()
+  })
+})
+
+describe('isMutatingToolCall', () => {
+  it('classifies tools and semantic locator actions', () => {
+    expect(isMutatingToolCall('browser_click', {})).toBe(true)
+    expect(isMutatingToolCall('browser_evaluate', { script: '1' })).toBe(true)
+    expect(isMutatingToolCall('browser_tab_switch', { id: '1' })).toBe(true)
+    expect(isMutatingToolCall('browser_snapshot', {})).toBe(false)
+    expect(isMutatingToolCall('browser_get_by_role', { role: 'button' })).toBe(false)
+    expect(isMutatingToolCall('browser_get_by_role', { role: 'button', action: 'hover' })).toBe(false)
+    expect(isMutatingToolCall('browser_get_by_role', { role: 'button', action: 'click' })).toBe(true)
+  })
+})
+
+describe('evaluateSitePolicy', () => {
+  it('allows everything without a policy', () => {
+    expect(evaluateSitePolicy(undefined, 'browser_click', {}, 'https://example.com')).toEqual({ action: 'allow' })
+  })
+
+  it('denies blocked origins for every tool', () => {
+    const policy = { blockedOrigins: ['*.bank.com'] }
+    expect(evaluateSitePolicy(policy, 'browser_snapshot', {}, 'https://online.bank.com').action).toBe('deny')
+    expect(evaluateSitePolicy(policy, 'browser_navigate', {}, 'https://bank.com').action).toBe('deny')
+  })
+
+  it('denies origins outside a non-empty allow list', () => {
+    const policy = { allowedOrigins: ['example.com'] }
+    expect(evaluateSitePolicy(policy, 'browser_snapshot', {}, 'https://example.com').action).toBe('allow')
+    expect(evaluateSitePolicy(policy, 'browser_snapshot', {}, 'https://other.com').action).toBe('deny')
+  })
+
+  it('denies unknown origins when there is an allow list', () => {
+    expect(evaluateSitePolicy({ allowedOrigins: ['example.com'] }, 'browser_click', {}, null).action).toBe('deny')
+    expect(evaluateSitePolicy({ blockedOrigins: ['example.com'] }, 'browser_click', {}, null).action).toBe('allow')
+    expect(evaluateSitePolicy({ allowedOrigins: ['example.com'] }, 'browser_tab_new', {}, null).action).toBe('deny')
+  })
+
+  it('only allows reads and navigation on read-only origins', () => {
+    const policy = { readOnlyOrigins: ['docs.example.com'] }
+    const origin = 'https://docs.example.com'
+    expect(evaluateSitePolicy(policy, 'browser_get_text', {}, origin).action).toBe('allow')
+    expect(evaluateSitePolicy(policy, 'browser_navigate', {}, origin).action).toBe('allow')
+    expect(evaluateSitePolicy(policy, 'browser_tab_new', { url: origin }, origin).action).toBe('allow')
+    expect(evaluateSitePolicy(policy, 'browser_fill', {}, origin).action).toBe('deny')
+    expect(evaluateSitePolicy(policy, 'browser_tab_close', { id: '1' }, origin).action).toBe('deny')
+  })
+
+  it('asks for approval before mutating tools when required', () => {
+    const policy = { requireApproval: true }
+    expect(evaluateSitePolicy(policy, 'browser_click', {}, 'https://example.com')).toEqual({ action: 'confirm' })
+    expect(evaluateSitePolicy(policy, 'browser_evaluate', {}, null)).toEqual({ action: 'confirm' })
+    expect(evaluateSitePolicy(policy, 'browser_title', {}, 'https://example.com')).toEqual({ action: 'allow' })
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type { BTCPSelfTestStep } from '../selftest'
+import { createSelfTestSteps, runSelfTest, SELF_TEST_STEPS } from '../selftest'
+
+const STEPS: BTCPSelfTestStep[] = [
+  { id: 'navigate', toolName: 'browser_navigate', args: { url: 'data:text/html,' }, capability: 'navigation' },
+  {
+    id: 'title',
+    toolName: 'browser_title',
+    args: {},
+    capability: 'content_script',
+    check: (result) => ((result as { title?: string }).title === 'Test' ? undefined : 'Wrong title')
+  },
+  { id: 'evaluate', toolName: 'browser_evaluate', args: { script: '1' }, capability: 'evaluate' },
+  { id: 'frame', toolName: 'browser_frame', args: { selector: 'iframe' }, capability: 'frames' }
+]
+
+const ALL_TOOLS = new Set(STEPS.map((step) => step.toolName))
+
+describe('runSelfTest', () => {
+  it('reports timings and results for passing steps', async () => {
+    const onStep = vi.fn()
+    const report = await runSelfTest(
+      {
+        tools: ALL_TOOLS,
+        runTool: async (toolName) => (toolName === 'browser_title' ? { title: 'Test' } : {}),
+        onStep
+      },
+      STEPS
+    )
+
+    expect(report.success).toBe(true)
+    expect(report.steps.map((step) => step.status)).toEqual(['success', 'success', 'success', 'success'])
+    expect(report.steps[1]).toMatchObject({ result: { title: 'Test' }, duration: expect.any(Number) })
+    expect(onStep).toHaveBeenCalledTimes(4)
+  })
+
+  it('names the broken capabilities', async () => {
+    const report = await runSelfTest(
+      {
+        tools: ALL_TOOLS,
+        runTool: async (toolName) => {
+          if (toolName === 'browser_frame') throw new Error('Frame not found')
+          return toolName === 'browser_title' ? { title: 'Test' } : {}
+        }
+      },
+      STEPS
+    )
+
+    expect(report.success).toBe(false)
+    expect(report.brokenCapabilities).toEqual(['frames'])
+    expect(report.steps[3]).toMatchObject({ status: 'error', error: 'Frame not found' })
+  })
+
+  it('fails steps whose result does not pass the check', async () => {
+    const report = await runSelfTest({ tools: ALL_TOOLS, runTool: async () => ({ title: 'Other' }) }, STEPS)
+    expect(report.steps[1]).toMatchObject({ status: 'error', error: 'Wrong title' })
+  })
+
+  it('skips everything once the content script is unreachable', async () => {
+    const runTool = vi.fn(async (toolName: string) => {
+      if (toolName === 'browser_title') throw new Error('No response from content script')
+      return {}
+    })
+    const report = await runSelfTest({ tools: ALL_TOOLS, runTool }, STEPS)
+
+    expect(report.brokenCapabilities).toEqual(['content_script'])
+    expect(report.steps.slice(2).map((step) => step.status)).toEqual(['skipped', 'skipped'])
+    expect(runTool).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips tools outside the toolset', async () => {
+    const report = await runSelfTest(
+      { tools: new Set(['browser_navigate', 'browser_title']), runTool: async () => ({ title: 'Test' }) },
+      STEPS
+    )
+    expect(report.success).toBe(true)
+    expect(report.steps[2]).toMatchObject({ status: 'skipped', error: 'Not in the current toolset' })
+  })
+
+  it('closes the tab it opened the test page in', async () => {
+    const steps = createSelfTestSteps({ pageUrl: 'chrome-extension://id/selftest.html', newTab: true }).slice(0, 2)
+    const runTool = vi.fn(async (toolName: string) => (toolName === 'browser_tab_new' ? { tab: { id: '7' } } : {}))
+
+    await runSelfTest(
+      { tools: new Set(['browser_tab_new', 'browser_tab_close', 'browser_title']), runTool },
+      steps.map((step) => ({ ...step, check: undefined }))
+    )
+    expect(runTool.mock.calls).toEqual([
+      ['browser_tab_new', { url: 'chrome-extension://id/selftest.html' }],
+      ['browser_title', {}],
+      ['browser_tab_close', { id: '7' }]
+    ])
+  })
+
+  it('checks content script injection on a web page in another tab', async () => {
+    const steps = createSelfTestSteps({
+      pageUrl: 'chrome-extension://id/selftest.html',
+      newTab: true,
+      injectionPageUrl: 'https://example.com/'
+    })
+    const injectionSteps = steps.filter((step) => step.capability === 'injection')
+    expect(injectionSteps.map((step) => step.id)).toEqual(['injection-open', 'injection-url'])
+    expect(createSelfTestSteps({ newTab: false, injectionPageUrl: 'https://example.com/' })).toHaveLength(
+      SELF_TEST_STEPS.length
+    )
+
+    let nextTabId = 1
+    const runTool = vi.fn(async (toolName: string) => {
+      if (toolName === 'browser_tab_new') return { tab: { id: String(nextTabId++) } }
+      if (toolName === 'browser_url') return { url: 'chrome-extension://id/selftest.html' }
+      return {}
+    })
+    const report = await runSelfTest(
+      { tools: new Set(['browser_tab_new', 'browser_tab_close', 'browser_url']), runTool },
+      injectionSteps
+    )
+
+    expect(report.brokenCapabilities).toEqual(['injection'])
+    expect(runTool.mock.calls.slice(-1)).toEqual([['browser_tab_close', { id: '1' }]])
+  })
+
+  it('closes every tab it opened', async () => {
+    let nextTabId = 1
+    const runTool = vi.fn(async (toolName: string) =>
+      toolName === 'browser_tab_new' ? { tab: { id: String(nextTabId++) } } : {}
+    )
+    const steps = createSelfTestSteps({ newTab: true, injectionPageUrl: 'https://example.com/' }).filter(
+      (step) => step.toolName === 'browser_tab_new'
+    )
+
+    await runSelfTest({ tools: new Set(['browser_tab_new', 'browser_tab_close']), runTool }, steps)
+    expect(runTool.mock.calls.slice(-2)).toEqual([
+      ['browser_tab_close', { id: '2' }],
+      ['browser_tab_close', { id: '1' }]
+    ])
+  })
+
+  it('covers every preset tool that can run unattended', () => {
+    const tools = new Set(SELF_TEST_STEPS.map((step) => step.toolName))
+    expect(tools.has('browser_evaluate')).toBe(true)
+    expect(tools.has('browser_frame')).toBe(true)
+    expect(SELF_TEST_STEPS[0].toolName).toBe('browser_navigate')
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  diffSnapshots,
+  filterInteractive,
+  indexSnapshot,
+  isElementRef,
+  scopeSnapshot,
+  truncateSnapshot,
+  truncateSnapshotDiff
+} from '../snapshot'
+
+const PAGE = [
+  '- main [ref=1]',
+  '  - form "Search" [ref=2]',
+  '    - textbox "Query" [ref=3]',
+  '    - button "Go" [ref=4]',
+  '  - list [ref=5]',
+  '    - listitem [ref=6]',
+  '      - link "First result" [ref=7]',
+  '      - text: Result description'
+].join('\n')
+
+const REFS = {
+  '@ref:3': { role: 'textbox', name: 'Query' },
+  '@ref:4': { role: 'button', name: 'Go' },
+  '@ref:7': { role: 'link', name: 'First result' }
+}
+
+describe('isElementRef', () => {
+  it('distinguishes refs from CSS selectors', () => {
+    expect(isElementRef('@ref:12')).toBe(true)
+    expect(isElementRef('#search')).toBe(false)
+    expect(isElementRef(undefined)).toBe(false)
+  })
+})
+
+describe('scopeSnapshot', () => {
+  it('keeps the subtree rooted at the ref', () => {
+    const scoped = scopeSnapshot({ snapshot: PAGE, refs: REFS }, '@ref:2')
+    expect(scoped.snapshot.split('\n')).toHaveLength(3)
+    expect(scoped.snapshot).toContain('button "Go"')
+    expect(scoped.snapshot).not.toContain('link')
+    expect(Object.keys(scoped.refs ?? {})).toEqual(['@ref:3', '@ref:4'])
+  })
+
+  it('returns the snapshot unchanged for unknown refs', () => {
+    const result = { snapshot: PAGE }
+    expect(scopeSnapshot(result, '@ref:99')).toBe(result)
+  })
+})
+
+describe('filterInteractive', () => {
+  it('keeps only interactive nodes', () => {
+    const filtered = filterInteractive({ snapshot: PAGE, refs: REFS })
+    expect(filtered.snapshot).toBe(
+      ['- textbox "Query" [ref=3]', '- button "Go" [ref=4]', '- link "First result" [ref=7]'].join('\n')
+    )
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('reports nodes added, removed and changed by ref', () => {
+    const next = PAGE.replace('button "Go"', 'button "Searching..."')
+      .replace('      - text: Result description', '      - text: Updated description')
+      .replace('  - list [ref=5]', '  - alert "Done" [ref=8]\n  - list [ref=5]')
+      .replace('    - textbox "Query" [ref=3]\n', '')
+
+    const diff = diffSnapshots(indexSnapshot(PAGE), indexSnapshot(next))
+
+    expect(diff.added).toEqual(['- alert "Done" [ref=8]'])
+    expect(diff.removed).toEqual(['- textbox "Query" [ref=3]'])
+    expect(diff.changed.map((change) => change.ref)).toEqual(['@ref:4', '@ref:6'])
+    expect(diff.changed[1].after).toContain('Updated description')
+    expect(diff.unchanged).toBe(4)
+  })
+})
+
+describe('truncateSnapshot', () => {
+  it('cuts at line boundaries and drops refs that were cut', () => {
+    const truncated = truncateSnapshot({ snapshot: PAGE, refs: REFS }, 80)
+    expect(truncated._truncated).toBe(true)
+    expect(truncated.snapshot.length).toBeLessThanOrEqual(80)
+    expect(PAGE.startsWith(truncated.snapshot)).toBe(true)
+    expect(truncated.refs).not.toHaveProperty('@ref:7')
+  })
+
+  it('leaves small snapshots alone', () => {
+    const result = { snapshot: PAGE }
+    expect(truncateSnapshot(result, 10_000)).toBe(result)
+  })
+})
+
+describe('truncateSnapshotDiff', () => {
+  const diff = {
+    mode: 'diff' as const,
+    added: ['- alert "Done" [ref=8]', '- alert "Saved" [ref=9]'],
+    removed: ['- textbox "Query" [ref=3]'],
+    changed: [{ ref: '@ref:4', before: '- button "Go" [ref=4]', after: '- button "Searching..." [ref=4]' }],
+    unchanged: 4
+  }
+
+  it('keeps changes in order until the limit', () => {
+    const truncated = truncateSnapshotDiff(diff, 80)
+    expect(truncated._truncated).toBe(true)
+    expect(truncated.changed).toEqual(diff.changed)
+    expect(truncated.added).toEqual(['- alert "Done" [ref=8]'])
+    expect(truncated.removed).toEqual([])
+    expect(truncated._message).toContain('2 of 4 changes')
+  })
+
+  it('leaves small diffs alone', () => {
+    expect(truncateSnapshotDiff(diff, 10_000)).toBe(diff)
+  })
+})
@@ -63,7 +63,53 @@ export const TOOL_PRESETS: Record<BTCPToolPreset, BTCPToolName[]> = {
     'browser_scroll_into_view',
     // Visual
     'browser_screenshot',
-    'browser_highlight'
+    'browser_highlight',
+    // Network (requires enableTracking)
+    'browser_network_requests',
+    'browser_wait_for_response'
+  ],
+
+  /**
+   * Tabs: Standard plus tab management
+   * For research across several pages without navigating away from the user's tab
+   */
+  tabs: [
+    // All standard tools
+    'browser_snapshot',
+    'browser_url',
+    'browser_title',
+    'browser_get_text',
+    'browser_get_attribute',
+    'browser_is_visible',
+    'browser_count',
+    'browser_describe',
+    'browser_navigate',
+    'browser_back',
+    'browser_forward',
+    'browser_reload',
+    'browser_click',
+    'browser_type',
+    'browser_fill',
+    'browser_press',
+    'browser_hover',
+    'browser_scroll',
+    'browser_clear',
+    'browser_check',
+    'browser_select',
+    'browser_get_by_role',
+    'browser_get_by_text',
+    'browser_get_by_label',
+    'browser_wait',
+    'browser_scroll_into_view',
+    'browser_screenshot',
+    'browser_highlight',
+    'browser_network_requests',
+    'browser_wait_for_response',
+    // Tab management
+    'browser_tab_list',
+    'browser_tab_new',
+    'browser_tab_switch',
+    'browser_tab_close'
   ],
 
   /**
@@ -100,6 +146,8 @@ export const TOOL_PRESETS: Record<BTCPToolPreset, BTCPToolName[]> = {
     'browser_scroll_into_view',
     'browser_screenshot',
     'browser_highlight',
+    'browser_network_requests',
+    'browser_wait_for_response',
     // Additional full-level tools
     'browser_evaluate',
     'browser_frame',
@@ -108,10 +156,92 @@ export const TOOL_PRESETS: Record<BTCPToolPreset, BTCPToolName[]> = {
     'browser_get_by_placeholder',
     'browser_is_enabled',
     'browser_wait_for_url',
-    'browser_console'
+    'browser_console',
+    'browser_tab_list',
+    'browser_tab_new',
+    'browser_tab_switch',
+    'browser_tab_close'
   ]
 }
 
+/**
+ * Tools that read tracked requests; only offered when request tracking is enabled
+ */
+export const NETWORK_TOOLS: BTCPToolName[] = ['browser_network_requests', 'browser_wait_for_response']
+
+/**
+ * Tools that manage tabs; only offered when the agent implements tab management
+ */
+export const TAB_TOOLS: BTCPToolName[] = [
+  'browser_tab_list',
+  'browser_tab_new',
+  'browser_tab_switch',
+  'browser_tab_close'
+]
+
+/**
+ * Tools that change page or browser state
+ * Blocked on read-only origins and gated behind approval when the site policy requires it.
+ * Semantic locators are only mutating when called with an action (see isMutatingToolCall).
+ */
+export const MUTATING_TOOLS: BTCPToolName[] = [
+  'browser_navigate',
+  'browser_back',
+  'browser_forward',
+  'browser_reload',
+  'browser_click',
+  'browser_type',
+  'browser_fill',
+  'browser_press',
+  'browser_clear',
+  'browser_check',
+  'browser_uncheck',
+  'browser_select',
+  'browser_evaluate',
+  'browser_tab_new',
+  'browser_tab_switch',
+  'browser_tab_close'
+]
+
+/**
+ * Tools that load a URL given in their arguments
+ * The site policy checks the target origin instead of the current page.
+ */
+export const NAVIGATION_TOOLS: BTCPToolName[] = ['browser_navigate', 'browser_tab_new']
+
+/**
+ * Tools left out of macro recordings: they only help the model look around
+ * and their results would go stale on replay
+ */
+export const MACRO_EXCLUDED_TOOLS: BTCPToolName[] = [
+  'browser_snapshot',
+  'browser_describe',
+  'browser_highlight',
+  'browser_console',
+  'browser_screenshot',
+  'browser_run_macro',
+  // Tab ids are not stable across sessions
+  'browser_tab_list',
+  'browser_tab_switch',
+  'browser_tab_close'
+]
+
+/**
+ * Recorded tools whose results are returned when a macro is replayed
+ */
+export const MACRO_OUTPUT_TOOLS: BTCPToolName[] = [
+  'browser_url',
+  'browser_title',
+  'browser_get_text',
+  'browser_get_attribute',
+  'browser_is_visible',
+  'browser_is_enabled',
+  'browser_count',
+  'browser_evaluate',
+  'browser_network_requests',
+  'browser_wait_for_response'
+]
+
 /**
  * Default configuration values
  */
@@ -120,7 +250,13 @@ export const DEFAULT_CONFIG = {
   toolset: 'standard' as BTCPToolPreset,
   maxSnapshotSize: 50000,
   enableScreencast: false,
+  screencastInterval: 1000,
+  screencastQuality: 60,
   enableTracking: false,
+  macroMaxStepDelay: 2000,
+  networkRequestLimit: 50,
+  networkBodyMaxSize: 10000,
+  networkPollInterval: 250,
   injectSystemPrompt: true
 }
 
@@ -134,7 +270,7 @@ You have access to browser automation tools using the Browser Tool Calling Proto
 1. Call browser_snapshot FIRST to get the page structure with element references (@ref:N)
 2. Use @ref:N references for reliable element targeting (more stable than CSS selectors)
 3. For forms, prefer semantic locators: browser_get_by_role, browser_get_by_label, browser_get_by_text
-4. After actions that change the page, call browser_snapshot again
+4. After actions that change the page, call browser_snapshot with mode "diff" to see only what changed
 5. Use browser_describe to get help on any action
 
 ## Element References
@@ -144,5 +280,9 @@ Use these refs instead of CSS selectors when possible.
 ## Tips
 - Use browser_fill for instant input, browser_type for character-by-character
 - Use browser_wait if page needs time to load after action
+- On large pages, scope browser_snapshot with a selector or @ref:N, or set interactiveOnly
 - Use browser_highlight for visual debugging
+- When network tools are available, check API calls with browser_network_requests or browser_wait_for_response instead of parsing the page
+- When tab tools are available, open pages with browser_tab_new instead of navigating away from the user's tab, and close the tabs you opened when done
+- When browser_run_macro is available and a saved macro fits the task, run it instead of repeating its steps
 `.trim()
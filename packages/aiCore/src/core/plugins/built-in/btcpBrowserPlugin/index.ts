@@ -5,12 +5,51 @@
  * enabling AI models to control browsers through the Browser Tool Calling Protocol (BTCP).
  */
 
+import type { ToolCallOptions } from 'ai'
 import { BrowserAgent, describe as btcpDescribe, generateCommandId } from 'btcp-browser-agent'
 import * as z from 'zod'
 
 import type { AiPlugin, AiRequestContext } from '../../types'
-import { BROWSER_SYSTEM_PROMPT, DEFAULT_CONFIG, TOOL_PRESETS } from './constants'
-import type { BTCPBrowserPluginConfig, BTCPToolName, ScreenshotResult, SnapshotResult } from './types'
+import {
+  BROWSER_SYSTEM_PROMPT,
+  DEFAULT_CONFIG,
+  NAVIGATION_TOOLS,
+  NETWORK_TOOLS,
+  TAB_TOOLS,
+  TOOL_PRESETS
+} from './constants'
+import { createLocator, describeRefs, formatMacroList, isRecordableTool, replayMacro, type SnapshotRefs } from './macro'
+import { filterRequests, normalizeRequest, parseResponseBody, waitForRequest } from './network'
+import { evaluateSitePolicy, getOrigin } from './policy'
+import { createScreencast } from './screencast'
+import {
+  type BTCPSelfTestReport,
+  createSelfTestSteps,
+  runSelfTest,
+  type SelfTestPageOptions,
+  type SelfTestRunner
+} from './selftest'
+import {
+  diffSnapshots,
+  filterInteractive,
+  indexSnapshot,
+  isElementRef,
+  scopeSnapshot,
+  truncateSnapshot,
+  truncateSnapshotDiff
+} from './snapshot'
+import type {
+  BTCPAgent,
+  BTCPBrowserPluginConfig,
+  BTCPMacro,
+  BTCPMacroResult,
+  BTCPNetworkRequest,
+  BTCPNetworkTracker,
+  BTCPTabManager,
+  BTCPToolName,
+  ScreenshotResult,
+  SnapshotResult
+} from './types'
 
 /**
  * Creates a browser tool definition compatible with Vercel AI SDK
@@ -18,77 +57,262 @@ import type { BTCPBrowserPluginConfig, BTCPToolName, ScreenshotResult, SnapshotR
 function createTool<TParams extends z.ZodType, TResult>(config: {
   description: string
   parameters: TParams
-  execute: (args: z.infer<TParams>) => Promise<TResult>
+  execute: (args: z.infer<TParams>, options?: ToolCallOptions) => Promise<TResult>
 }) {
   return {
     description: config.description,
-    parameters: config.parameters,
+    inputSchema: config.parameters,
     execute: config.execute
   }
 }
 
+type ExecutableTool = { execute: (args: unknown, options?: ToolCallOptions) => Promise<unknown> }
+
+// Request tracking surface of BrowserAgent's browser manager
+type TrackingBrowserManager = {
+  startRequestTracking?: () => void
+  getRequests?: () => unknown[]
+  clearRequests?: () => void
+}
+
+const networkFilterSchema = {
+  urlPattern: z.string().optional().describe('URL substring, or a pattern with * wildcards'),
+  method: z.string().optional().describe('HTTP method, e.g. POST'),
+  status: z.number().optional().describe('HTTP status code')
+}
+
+const isTextSnapshot = (value: unknown): value is SnapshotResult =>
+  !!value && typeof (value as SnapshotResult).snapshot === 'string'
+
 /**
- * BTCP Browser Plugin Factory
- *
- * @param config - Plugin configuration options
- * @returns An aiCore plugin that provides browser automation tools
- *
- * @example
- * ```typescript
- * import { createExecutor, btcpBrowserPlugin } from '@cherrystudio/ai-core'
- *
- * const executor = createExecutor('anthropic', { apiKey: '...' }, [
- *   btcpBrowserPlugin()
- * ])
- *
- * const result = await executor.streamText({
- *   model: 'claude-sonnet-4-20250514',
- *   messages: [{
- *     role: 'user',
- *     content: 'Go to https://news.ycombinator.com and find the top 3 stories'
- *   }]
- * })
- * ```
+ * Agent, tools and per-request state shared by the plugin and standalone macro replays
  */
-export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugin => {
+const createBrowserRuntime = (config: BTCPBrowserPluginConfig) => {
   const {
-    enabled = DEFAULT_CONFIG.enabled,
     agent: providedAgent,
     agentOptions = {},
     toolset = DEFAULT_CONFIG.toolset,
     maxSnapshotSize = DEFAULT_CONFIG.maxSnapshotSize,
-    enableScreencast: _enableScreencast = DEFAULT_CONFIG.enableScreencast,
-    enableTracking = DEFAULT_CONFIG.enableTracking,
+    enableScreencast = DEFAULT_CONFIG.enableScreencast,
+    screencastInterval = DEFAULT_CONFIG.screencastInterval,
+    screencastQuality = DEFAULT_CONFIG.screencastQuality,
+    onScreencastFrame,
+    onScreencastStop,
     onToolCall,
     onToolResult,
     onError,
-    injectSystemPrompt = DEFAULT_CONFIG.injectSystemPrompt
+    sitePolicy,
+    onApprovalRequest,
+    onMacroStep,
+    macroMaxStepDelay = DEFAULT_CONFIG.macroMaxStepDelay,
+    enableTracking = DEFAULT_CONFIG.enableTracking
   } = config
 
   // Lazy initialization of agent
-  let agent: BrowserAgent | null = providedAgent ?? null
+  let agent: BTCPAgent | null = providedAgent ?? null
   let agentLaunched = false
 
-  const getAgent = async (): Promise<BrowserAgent> => {
+  const getAgent = async (): Promise<BTCPAgent> => {
     if (!agent) {
       agent = new BrowserAgent(agentOptions)
     }
     if (!agentLaunched) {
       await agent.launch()
       agentLaunched = true
+      if (agent.setRequestTracking) {
+        await agent.setRequestTracking(enableTracking)
+      } else if (enableTracking) {
+        const manager = agent.getBrowserManager?.() as TrackingBrowserManager | undefined
+        manager?.startRequestTracking?.()
+      }
     }
     return agent
   }
 
+  // Network tools read from the agent's own tracker, or from BrowserAgent's browser manager
+  const getNetworkTracker = async (): Promise<BTCPNetworkTracker> => {
+    if (!enableTracking) {
+      throw new Error('Request tracking is disabled')
+    }
+    const browserAgent = await getAgent()
+    const { getRequests, clearRequests, getResponseBody } = browserAgent
+    if (getRequests && clearRequests) {
+      return {
+        getRequests: getRequests.bind(browserAgent),
+        clearRequests: clearRequests.bind(browserAgent),
+        getResponseBody: getResponseBody?.bind(browserAgent)
+      }
+    }
+
+    const manager = browserAgent.getBrowserManager?.() as TrackingBrowserManager | undefined
+    if (manager?.getRequests) {
+      return {
+        getRequests: async () =>
+          (manager.getRequests?.() ?? [])
+            .map(normalizeRequest)
+            .filter((request): request is BTCPNetworkRequest => !!request),
+        clearRequests: async () => manager.clearRequests?.()
+      }
+    }
+    throw new Error('Request tracking is not supported by the current browser agent')
+  }
+
+  // Attach parsed response bodies when the tracker can read them
+  const withBodies = async (tracker: BTCPNetworkTracker, requests: BTCPNetworkRequest[]) => {
+    const { getResponseBody } = tracker
+    if (!getResponseBody) {
+      return { requests, _message: 'Response bodies are not available from this browser agent' }
+    }
+    const withBody = await Promise.all(
+      requests.map(async (request) => {
+        const body = await getResponseBody(request.id).catch(() => undefined)
+        return body === undefined
+          ? request
+          : { ...request, body: parseResponseBody(body, DEFAULT_CONFIG.networkBodyMaxSize) }
+      })
+    )
+    return { requests: withBody }
+  }
+
+  // Tab tools need an agent that implements the optional tab management methods
+  const getTabManager = async (): Promise<BTCPTabManager> => {
+    const browserAgent = await getAgent()
+    const { listTabs, newTab, switchTab, closeTab } = browserAgent
+    if (!listTabs || !newTab || !switchTab || !closeTab) {
+      throw new Error('Tab management is not supported by the current browser agent')
+    }
+    return {
+      listTabs: listTabs.bind(browserAgent),
+      newTab: newTab.bind(browserAgent),
+      switchTab: switchTab.bind(browserAgent),
+      closeTab: closeTab.bind(browserAgent)
+    }
+  }
+
+  // Ref-keyed snapshots per scope (selector + interactiveOnly), the baseline for diff mode
+  const previousSnapshots = new Map<string, Map<string, string>>()
+
+  // Role and name of every ref seen so far, so recorded steps can locate their element again
+  let latestRefs: SnapshotRefs = {}
+  let lastStepEndedAt: number | undefined
+
+  // Start of the last completed tool call: responses it triggered count for browser_wait_for_response
+  let lastToolStartedAt: number | undefined
+
+  // Tabs opened by browser_tab_new: the only ones browser_tab_close may close
+  const openedTabIds = new Set<string>()
+
+  // Steps run by a macro replay are reported through the browser_run_macro call itself
+  let replayDepth = 0
+
+  // Frames stream from the first tool call until the response stream ends
+  const screencast =
+    enableScreencast && onScreencastFrame
+      ? createScreencast({
+          getAgent,
+          onFrame: onScreencastFrame,
+          onStop: onScreencastStop,
+          interval: screencastInterval,
+          quality: screencastQuality
+        })
+      : null
+
+  const startScreencast = (options: ToolCallOptions | undefined) => {
+    if (!screencast || screencast.running) return
+    screencast.start()
+    options?.abortSignal?.addEventListener('abort', () => screencast.stop(), { once: true })
+  }
+
+  // Origin a tool acts on: the URL it loads, the tab it switches to or closes, or the current page
+  const getTargetOrigin = async (toolName: string, args: unknown): Promise<string | null> => {
+    if (NAVIGATION_TOOLS.includes(toolName as BTCPToolName)) {
+      return getOrigin((args as { url?: string }).url)
+    }
+    if (toolName === 'browser_tab_switch' || toolName === 'browser_tab_close') {
+      const tabs = await (await getTabManager()).listTabs().catch(() => [])
+      return getOrigin(tabs.find((tab) => tab.id === (args as { id?: string }).id)?.url)
+    }
+    return getOrigin(await (await getAgent()).getUrl().catch(() => null))
+  }
+
+  // Check the site policy (and ask for approval) before a tool touches the page
+  const enforceSitePolicy = async (
+    toolName: string,
+    args: unknown,
+    options: ToolCallOptions | undefined
+  ): Promise<void> => {
+    if (!sitePolicy || toolName === 'browser_describe' || toolName === 'browser_run_macro') return
+
+    const origin = await getTargetOrigin(toolName, args)
+
+    const decision = evaluateSitePolicy(sitePolicy, toolName, args, origin)
+    if (decision.action === 'deny') {
+      throw new Error(decision.reason)
+    }
+    if (decision.action === 'confirm') {
+      const approved = onApprovalRequest
+        ? await onApprovalRequest({
+            toolName,
+            args,
+            origin,
+            toolCallId: options?.toolCallId,
+            abortSignal: options?.abortSignal
+          })
+        : false
+      if (!approved) {
+        throw new Error(`The user did not approve ${toolName}${origin ? ` on ${origin}` : ''}`)
+      }
+    }
+  }
+
+  const recordStep = (toolName: string, args: unknown, startedAt: number, toolCallId?: string) => {
+    const endedAt = Date.now()
+    const delay = lastStepEndedAt === undefined ? 0 : startedAt - lastStepEndedAt
+    lastStepEndedAt = endedAt
+    if (!onMacroStep || !isRecordableTool(toolName)) return
+
+    const stepArgs = { ...(args as Record<string, unknown>) }
+    onMacroStep(
+      {
+        toolName,
+        args: stepArgs,
+        locator: createLocator(stepArgs.selector, latestRefs),
+        delay,
+        duration: endedAt - startedAt
+      },
+      toolCallId
+    )
+  }
+
   // Execution wrapper with callbacks
-  const executeWithCallbacks = async <T>(toolName: string, args: unknown, executor: () => Promise<T>): Promise<T> => {
-    onToolCall?.(toolName, args)
+  const executeWithCallbacks = async <T>(
+    toolName: string,
+    args: unknown,
+    options: ToolCallOptions | undefined,
+    executor: () => Promise<T>
+  ): Promise<T> => {
+    const toolCallId = options?.toolCallId
+    const replaying = replayDepth > 0
+    if (!replaying) {
+      onToolCall?.(toolName, args, toolCallId)
+    }
     try {
+      await enforceSitePolicy(toolName, args, options)
+      if (toolName !== 'browser_describe') {
+        startScreencast(options)
+      }
+      const startedAt = Date.now()
       const result = await executor()
-      onToolResult?.(toolName, result)
+      lastToolStartedAt = startedAt
+      if (!replaying) {
+        onToolResult?.(toolName, result, toolCallId)
+        recordStep(toolName, args, startedAt, toolCallId)
+      }
       return result
     } catch (error) {
-      onError?.(toolName, error as Error)
+      if (!replaying) {
+        onError?.(toolName, error as Error, toolCallId)
+      }
       throw error
     }
   }
@@ -103,8 +327,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           url: z.string().describe('URL to navigate to'),
           waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle']).optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_navigate', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_navigate', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -119,8 +343,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_back: createTool({
         description: 'Go back in browser history',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_back', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_back', {}, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({ id: generateCommandId(), action: 'back' })
             return { success: true }
@@ -130,8 +354,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_forward: createTool({
         description: 'Go forward in browser history',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_forward', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_forward', {}, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({ id: generateCommandId(), action: 'forward' })
             return { success: true }
@@ -141,8 +365,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_reload: createTool({
         description: 'Reload the current page',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_reload', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_reload', {}, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({ id: generateCommandId(), action: 'reload' })
             return { success: true }
@@ -152,8 +376,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_url: createTool({
         description: 'Get the current page URL',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_url', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_url', {}, options, async () => {
             const browserAgent = await getAgent()
             const url = await browserAgent.getUrl()
             return { url }
@@ -163,8 +387,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_title: createTool({
         description: 'Get the current page title',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_title', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_title', {}, options, async () => {
             const browserAgent = await getAgent()
             const title = await browserAgent.getTitle()
             return { title }
@@ -174,25 +398,66 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       // === Snapshot & Inspection ===
       browser_snapshot: createTool({
         description:
-          'Get an accessibility snapshot of the page with element references (@ref:N). Always call this first to understand page structure and get stable element refs for targeting.',
+          'Get an accessibility snapshot of the page with element references (@ref:N). Always call this first to understand page structure and get stable element refs for targeting. ' +
+          'On large pages, scope it with selector or set interactiveOnly. After actions, use mode "diff" to get only what changed.',
         parameters: z.object({
-          selector: z.string().optional().describe('CSS selector to scope snapshot'),
-          maxDepth: z.number().optional().describe('Max DOM tree depth')
+          selector: z.string().optional().describe('CSS selector or element reference (@ref:N) to scope the snapshot'),
+          maxDepth: z.number().optional().describe('Max DOM tree depth'),
+          interactiveOnly: z
+            .boolean()
+            .optional()
+            .describe('Only include interactive elements (buttons, links, inputs, ...)'),
+          mode: z
+            .enum(['full', 'diff'])
+            .optional()
+            .describe(
+              '"diff" returns only nodes added, removed or changed since the previous snapshot of the same scope'
+            )
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_snapshot', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_snapshot', args, options, async () => {
             const browserAgent = await getAgent()
-            const snapshot = await browserAgent.snapshot(args)
+            const { selector, maxDepth, interactiveOnly = false, mode = 'full' } = args
+            const raw = await browserAgent.snapshot({ selector, maxDepth })
+
+            // Agents that don't return a text snapshot only get the size check
+            if (!isTextSnapshot(raw)) {
+              if (JSON.stringify(raw).length > maxSnapshotSize) {
+                return {
+                  ...(raw as object),
+                  _truncated: true,
+                  _message: `Snapshot exceeds ${maxSnapshotSize} chars`
+                } as SnapshotResult
+              }
+              return raw as SnapshotResult
+            }
+
+            latestRefs = { ...latestRefs, ...describeRefs(raw) }
+
+            let snapshot: SnapshotResult = raw
+            if (isElementRef(selector)) {
+              snapshot = scopeSnapshot(snapshot, selector)
+            }
+            if (interactiveOnly) {
+              snapshot = filterInteractive(snapshot)
+            }
+
+            const scopeKey = `${selector ?? ''}|${interactiveOnly}`
+            const previous = previousSnapshots.get(scopeKey)
+            const current = indexSnapshot(snapshot.snapshot)
+            previousSnapshots.set(scopeKey, current)
 
-            const snapshotStr = JSON.stringify(snapshot)
-            if (snapshotStr.length > maxSnapshotSize) {
-              return {
+            if (mode === 'diff') {
+              if (previous) {
+                return truncateSnapshotDiff(diffSnapshots(previous, current), maxSnapshotSize)
+              }
+              snapshot = {
                 ...snapshot,
-                _truncated: true,
-                _message: `Snapshot truncated to ${maxSnapshotSize} chars`
-              } as SnapshotResult
+                _message: 'No previous snapshot of this scope in this request; returning the full snapshot.'
+              }
             }
-            return snapshot as SnapshotResult
+
+            return truncateSnapshot(snapshot, maxSnapshotSize)
           })
       }),
 
@@ -201,8 +466,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference (@ref:N)')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_text', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_text', args, options, async () => {
             const browserAgent = await getAgent()
             const text = await browserAgent.getText(args.selector)
             return { text }
@@ -215,8 +480,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           selector: z.string().describe('CSS selector or element reference'),
           attribute: z.string().describe('Attribute name')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_attribute', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_attribute', args, options, async () => {
             const browserAgent = await getAgent()
             const value = await browserAgent.getAttribute(args.selector, args.attribute)
             return { value }
@@ -228,8 +493,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_is_visible', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_is_visible', args, options, async () => {
             const browserAgent = await getAgent()
             const visible = await browserAgent.isVisible(args.selector)
             return { visible }
@@ -241,8 +506,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_is_enabled', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_is_enabled', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -258,8 +523,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_count', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_count', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -278,8 +543,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           name: z.string().optional().describe('Accessible name to filter by'),
           action: z.enum(['click', 'fill', 'check', 'hover']).optional().describe('Action to perform')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_by_role', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_by_role', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -299,8 +564,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           exact: z.boolean().optional().describe('Exact match (default: false)'),
           action: z.enum(['click', 'hover']).optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_by_text', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_by_text', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -319,8 +584,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           label: z.string().describe('Label text'),
           action: z.enum(['click', 'fill', 'check']).optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_by_label', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_by_label', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -338,8 +603,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           placeholder: z.string().describe('Placeholder text'),
           action: z.enum(['click', 'fill']).optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_get_by_placeholder', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_get_by_placeholder', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -359,8 +624,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           button: z.enum(['left', 'right', 'middle']).optional(),
           clickCount: z.number().optional().describe('Number of clicks (2 for double-click)')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_click', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_click', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.click(args.selector, args)
             return { success: true, selector: args.selector }
@@ -375,8 +640,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           delay: z.number().optional().describe('Delay between keystrokes in ms'),
           clear: z.boolean().optional().describe('Clear existing text first')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_type', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_type', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.type(args.selector, args.text, args)
             return { success: true }
@@ -389,8 +654,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           selector: z.string().describe('CSS selector or element reference'),
           value: z.string().describe('Value to fill')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_fill', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_fill', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.fill(args.selector, args.value)
             return { success: true }
@@ -402,8 +667,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_clear', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_clear', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -420,8 +685,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           key: z.string().describe('Key to press'),
           selector: z.string().optional().describe('Element to focus before pressing')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_press', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_press', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.press(args.key, args.selector)
             return { success: true }
@@ -433,8 +698,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_hover', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_hover', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.hover(args.selector)
             return { success: true }
@@ -446,8 +711,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_check', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_check', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -463,8 +728,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_uncheck', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_uncheck', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -481,8 +746,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           selector: z.string().describe('CSS selector of the <select> element'),
           value: z.string().describe('Option value to select')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_select', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_select', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -502,8 +767,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           x: z.number().optional().describe('Horizontal scroll amount'),
           y: z.number().optional().describe('Vertical scroll amount')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_scroll', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_scroll', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.scroll(args)
             return { success: true }
@@ -515,8 +780,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_scroll_into_view', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_scroll_into_view', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -535,8 +800,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           selector: z.string().optional().describe('Element to wait for'),
           state: z.enum(['attached', 'visible', 'hidden']).optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_wait', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_wait', args, options, async () => {
             const browserAgent = await getAgent()
             if (args.selector) {
               await browserAgent.waitFor(args.selector, { timeout: args.timeout })
@@ -553,8 +818,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           url: z.string().describe('URL substring to wait for'),
           timeout: z.number().optional()
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_wait_for_url', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_wait_for_url', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -575,8 +840,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           format: z.enum(['png', 'jpeg']).optional(),
           quality: z.number().optional().describe('JPEG quality 0-100')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_screenshot', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_screenshot', args, options, async () => {
             const browserAgent = await getAgent()
             const screenshot = await browserAgent.screenshot(args)
             return { image: screenshot.screenshot, format: args.format || 'png' } as ScreenshotResult
@@ -588,8 +853,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           selector: z.string().describe('CSS selector or element reference')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_highlight', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_highlight', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -608,8 +873,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           name: z.string().optional().describe('Frame name attribute'),
           url: z.string().optional().describe('Frame URL (partial match)')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_frame', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_frame', args, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -623,8 +888,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       browser_mainframe: createTool({
         description: 'Return to the main frame from an iframe',
         parameters: z.object({}),
-        execute: async () =>
-          executeWithCallbacks('browser_mainframe', {}, async () => {
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_mainframe', {}, options, async () => {
             const browserAgent = await getAgent()
             await browserAgent.execute({
               id: generateCommandId(),
@@ -634,14 +899,118 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
           })
       }),
 
+      // === Tabs ===
+      browser_tab_list: createTool({
+        description: 'List the open browser tabs with their ids, URLs and titles',
+        parameters: z.object({}),
+        execute: async (_args, options) =>
+          executeWithCallbacks('browser_tab_list', {}, options, async () => {
+            const tabs = await (await getTabManager()).listTabs()
+            return { tabs }
+          })
+      }),
+
+      browser_tab_new: createTool({
+        description:
+          "Open a new tab and switch to it. Prefer this over browser_navigate to keep the user's current tab.",
+        parameters: z.object({
+          url: z.string().optional().describe('URL to open (blank tab if omitted)')
+        }),
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_tab_new', args, options, async () => {
+            const tab = await (await getTabManager()).newTab(args.url)
+            openedTabIds.add(tab.id)
+            return { tab }
+          })
+      }),
+
+      browser_tab_switch: createTool({
+        description: 'Switch to a tab by id (from browser_tab_list). Later tools act on that tab.',
+        parameters: z.object({
+          id: z.string().describe('Tab id')
+        }),
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_tab_switch', args, options, async () => {
+            await (await getTabManager()).switchTab(args.id)
+            return { success: true, id: args.id }
+          })
+      }),
+
+      browser_tab_close: createTool({
+        description: 'Close a tab you opened with browser_tab_new, by id.',
+        parameters: z.object({
+          id: z.string().describe('Tab id')
+        }),
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_tab_close', args, options, async () => {
+            if (!openedTabIds.has(args.id)) {
+              throw new Error(`Tab ${args.id} was not opened with browser_tab_new; only those tabs can be closed`)
+            }
+            await (await getTabManager()).closeTab(args.id)
+            openedTabIds.delete(args.id)
+            return { success: true, id: args.id }
+          })
+      }),
+
+      // === Network ===
+      browser_network_requests: createTool({
+        description:
+          'List network requests tracked since the conversation turn started (URL, method, status, type). ' +
+          'Use it to check that an API call succeeded or to read API data directly.',
+        parameters: z.object({
+          ...networkFilterSchema,
+          resourceType: z.string().optional().describe('Resource type, e.g. xhr, fetch, script'),
+          includeBodies: z.boolean().optional().describe('Include response bodies (JSON is parsed)'),
+          limit: z.number().optional().describe('Maximum number of requests, most recent first (default 50)')
+        }),
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_network_requests', args, options, async () => {
+            const tracker = await getNetworkTracker()
+            const { includeBodies, limit = DEFAULT_CONFIG.networkRequestLimit, ...filter } = args
+            const matching = filterRequests(await tracker.getRequests(), filter)
+            const requests = matching.slice(-limit).reverse()
+            const result = includeBodies ? await withBodies(tracker, requests) : { requests }
+            return { ...result, total: matching.length }
+          })
+      }),
+
+      browser_wait_for_response: createTool({
+        description:
+          'Wait for a network response matching the filter, e.g. the API call triggered by the last click. ' +
+          'Responses to requests started by the previous browser tool call count.',
+        parameters: z.object({
+          ...networkFilterSchema,
+          timeout: z.number().optional().describe('Timeout in ms (default 10000)'),
+          includeBody: z.boolean().optional().describe('Include the response body (JSON is parsed)')
+        }),
+        execute: async (args, options) => {
+          const since = lastToolStartedAt ?? 0
+          return executeWithCallbacks('browser_wait_for_response', args, options, async () => {
+            const tracker = await getNetworkTracker()
+            const { includeBody, timeout = 10000, ...filter } = args
+            const request = await waitForRequest(() => tracker.getRequests(), filter, {
+              since,
+              timeout,
+              interval: DEFAULT_CONFIG.networkPollInterval,
+              signal: options?.abortSignal
+            })
+            if (!includeBody) {
+              return { request }
+            }
+            const { requests, _message } = await withBodies(tracker, [request])
+            return { request: requests[0], _message }
+          })
+        }
+      }),
+
       // === JavaScript ===
       browser_evaluate: createTool({
         description: 'Execute JavaScript code in the browser context and return result',
         parameters: z.object({
           script: z.string().describe('JavaScript code to execute')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_evaluate', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_evaluate', args, options, async () => {
             const browserAgent = await getAgent()
             const result = await browserAgent.evaluate(args.script)
             return { result }
@@ -654,8 +1023,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           clear: z.boolean().optional().describe('Clear messages after retrieving')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_console', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_console', args, options, async () => {
             const browserAgent = await getAgent()
             const response = await browserAgent.execute({
               id: generateCommandId(),
@@ -672,8 +1041,8 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
         parameters: z.object({
           action: z.string().optional().describe('Action name to get help for')
         }),
-        execute: async (args) =>
-          executeWithCallbacks('browser_describe', args, async () => {
+        execute: async (args, options) =>
+          executeWithCallbacks('browser_describe', args, options, async () => {
             const description = btcpDescribe(args.action)
             return description
           })
@@ -682,28 +1051,133 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
   }
 
   // Filter tools based on preset or custom list
+  // The launched BrowserAgent has no tab management; a provided agent may implement it
+  const tabAgent: Partial<BTCPAgent> = providedAgent ?? BrowserAgent.prototype
+  const supportsTabs = Boolean(tabAgent.listTabs && tabAgent.newTab && tabAgent.switchTab && tabAgent.closeTab)
+
   const filterTools = (allTools: Record<string, unknown>): Record<string, unknown> => {
-    if (Array.isArray(toolset)) {
-      return Object.fromEntries(Object.entries(allTools).filter(([name]) => toolset.includes(name as BTCPToolName)))
+    const selected = Array.isArray(toolset) ? toolset : TOOL_PRESETS[toolset] || TOOL_PRESETS.standard
+    // Network tools have nothing to read unless request tracking is on
+    const isAvailable = (name: string) =>
+      selected.includes(name as BTCPToolName) &&
+      (enableTracking || !NETWORK_TOOLS.includes(name as BTCPToolName)) &&
+      (supportsTabs || !TAB_TOOLS.includes(name as BTCPToolName))
+    return Object.fromEntries(Object.entries(allTools).filter(([name]) => isAvailable(name)))
+  }
+
+  // Replay a saved macro through the tools of the configured toolset
+  const runMacro = async (
+    macro: BTCPMacro,
+    params: Record<string, string> | undefined,
+    options: ToolCallOptions
+  ): Promise<BTCPMacroResult> => {
+    const tools = filterTools(createBrowserTools()) as Record<string, ExecutableTool>
+    replayDepth++
+    try {
+      return await replayMacro(macro, params, {
+        runTool: (toolName, args) => {
+          const tool = tools[toolName]
+          if (!tool) {
+            throw new Error(`${toolName} is not available in the current toolset`)
+          }
+          return tool.execute(args, options)
+        },
+        getRefs: async () => {
+          const snapshot = await (await getAgent()).snapshot({})
+          return isTextSnapshot(snapshot) ? describeRefs(snapshot) : {}
+        },
+        maxStepDelay: macroMaxStepDelay,
+        signal: options.abortSignal
+      })
+    } finally {
+      replayDepth--
     }
-    const preset = TOOL_PRESETS[toolset] || TOOL_PRESETS.standard
-    return Object.fromEntries(Object.entries(allTools).filter(([name]) => preset.includes(name as BTCPToolName)))
   }
 
+  const createMacroTool = (macros: BTCPMacro[]) =>
+    createTool({
+      description:
+        'Replay a saved browser macro: a recorded sequence of browser steps that runs without planning each step. ' +
+        `Prefer it over individual browser tools when a macro fits the task. Available macros:\n${formatMacroList(macros)}`,
+      parameters: z.object({
+        name: z.string().describe('Macro name'),
+        params: z.record(z.string(), z.string()).optional().describe('Values for the macro parameters')
+      }),
+      execute: async (args, options) =>
+        executeWithCallbacks('browser_run_macro', args, options, async () => {
+          const macro = macros.find((item) => item.name === args.name)
+          if (!macro) {
+            throw new Error(`Unknown macro "${args.name}"`)
+          }
+          return runMacro(macro, args.params, options ?? { toolCallId: `macro-${macro.id}`, messages: [] })
+        })
+    })
+
+  return {
+    getAgent,
+    getCurrentAgent: () => agent,
+    // Drop tracked requests without launching an agent that was never used
+    clearRequests: async () => {
+      if (agent && enableTracking) {
+        await (await getNetworkTracker()).clearRequests()
+      }
+    },
+    screencast,
+    selectTools: () => filterTools(createBrowserTools()),
+    createMacroTool,
+    runMacro
+  }
+}
+
+/**
+ * BTCP Browser Plugin Factory
+ *
+ * @param config - Plugin configuration options
+ * @returns An aiCore plugin that provides browser automation tools
+ *
+ * @example
+ * ```typescript
+ * import { createExecutor, btcpBrowserPlugin } from '@cherrystudio/ai-core'
+ *
+ * const executor = createExecutor('anthropic', { apiKey: '...' }, [
+ *   btcpBrowserPlugin()
+ * ])
+ *
+ * const result = await executor.streamText({
+ *   model: 'claude-sonnet-4-20250514',
+ *   messages: [{
+ *     role: 'user',
+ *     content: 'Go to https://news.ycombinator.com and find the top 3 stories'
+ *   }]
+ * })
+ * ```
+ */
+export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugin => {
+  const {
+    enabled = DEFAULT_CONFIG.enabled,
+    injectSystemPrompt = DEFAULT_CONFIG.injectSystemPrompt,
+    macros = []
+  } = config
+
+  const runtime = createBrowserRuntime(config)
+  const { screencast } = runtime
+
   const plugin: AiPlugin = {
     name: 'btcp-browser',
     enforce: 'pre',
 
     configureContext: (context: AiRequestContext) => {
       // Store agent reference in context for potential use by other plugins
-      context.btcpAgent = agent
+      context.btcpAgent = runtime.getCurrentAgent()
     },
 
     transformParams: <T>(params: T, _context: AiRequestContext): T => {
       if (!enabled) return params
 
-      const browserTools = createBrowserTools()
-      const selectedTools = filterTools(browserTools)
+      const selectedTools = runtime.selectTools()
+      if (macros.length > 0) {
+        selectedTools.browser_run_macro = runtime.createMacroTool(macros)
+      }
 
       // Merge browser tools with existing tools
       const p = params as Record<string, unknown>
@@ -721,24 +1195,93 @@ export const btcpBrowserPlugin = (config: BTCPBrowserPluginConfig = {}): AiPlugi
       return params
     },
 
-    onRequestEnd: async (_context: AiRequestContext, _result: unknown) => {
-      // Cleanup tracking if enabled
-      if (enableTracking && agent) {
-        const manager = agent.getBrowserManager()
-        // Clear tracked requests if the manager supports it
-        if ('clearRequests' in manager) {
-          ;(manager as { clearRequests: () => void }).clearRequests()
+    // Stop the screencast once the response stream (including all tool steps) has ended
+    transformStream: () => () =>
+      new TransformStream({
+        flush: () => {
+          screencast?.stop()
         }
-      }
+      }),
+
+    onError: () => {
+      screencast?.stop()
+    },
+
+    onRequestEnd: async (_context: AiRequestContext, _result: unknown) => {
+      // Each request starts with an empty request log
+      await runtime.clearRequests().catch(() => undefined)
     }
   }
 
   return plugin
 }
 
+/**
+ * Replay a saved macro without a model, e.g. when the user runs it by hand
+ * Uses the same agent setup, toolset and site policy as the plugin built from `config`.
+ */
+export const replayBTCPMacro = (
+  macro: BTCPMacro,
+  params: Record<string, string> | undefined,
+  config: BTCPBrowserPluginConfig = {},
+  abortSignal?: AbortSignal
+): Promise<BTCPMacroResult> =>
+  createBrowserRuntime(config).runMacro(macro, params, { toolCallId: `macro-${macro.id}`, messages: [], abortSignal })
+
+/**
+ * Run the self-test against the test page
+ * Steps for tools outside the configured toolset are skipped. With an agent that manages
+ * tabs, the page opens in a tab of its own so the user's current tab is left alone.
+ */
+export const runBTCPSelfTest = (
+  config: BTCPBrowserPluginConfig = {},
+  options: Pick<SelfTestRunner, 'onStep' | 'signal'> & Pick<SelfTestPageOptions, 'pageUrl' | 'injectionPageUrl'> = {}
+): Promise<BTCPSelfTestReport> => {
+  const { toolset = DEFAULT_CONFIG.toolset } = config
+  const { pageUrl, injectionPageUrl, ...runnerOptions } = options
+  const newTab = Boolean(config.agent?.newTab && config.agent.closeTab)
+  const selected = new Set<string>(Array.isArray(toolset) ? toolset : (TOOL_PRESETS[toolset] ?? TOOL_PRESETS.standard))
+  // Opening and closing the test page is part of the harness, whatever the toolset
+  if (newTab) {
+    selected.add('browser_tab_new')
+    selected.add('browser_tab_close')
+  } else {
+    selected.add('browser_navigate')
+  }
+
+  // The test page is local: keep the site policy and macro recording out of the way
+  const runtime = createBrowserRuntime({ ...config, toolset: 'full', sitePolicy: undefined, onMacroStep: undefined })
+  const tools = runtime.selectTools() as Record<string, ExecutableTool>
+  return runSelfTest(
+    {
+      ...runnerOptions,
+      // Tools the agent can't offer (tabs, network without tracking) are skipped as well
+      tools: new Set([...selected].filter((name) => name in tools)),
+      runTool: (toolName, args) =>
+        tools[toolName].execute(args, { toolCallId: `selftest-${toolName}`, messages: [], abortSignal: options.signal })
+    },
+    createSelfTestSteps({ pageUrl, newTab, injectionPageUrl })
+  )
+}
+
 // Default export
 export default btcpBrowserPlugin
 
 // Re-export types
-export { BROWSER_SYSTEM_PROMPT, TOOL_PRESETS } from './constants'
+export {
+  BROWSER_SYSTEM_PROMPT,
+  MACRO_EXCLUDED_TOOLS,
+  MACRO_OUTPUT_TOOLS,
+  MUTATING_TOOLS,
+  TOOL_PRESETS
+} from './constants'
+export { applyMacroParameters, isRecordableTool, parameterizeMacroSteps } from './macro'
+export { evaluateSitePolicy, getOrigin, isMutatingToolCall, matchesOriginPattern } from './policy'
+export type {
+  BTCPSelfTestCapability,
+  BTCPSelfTestReport,
+  BTCPSelfTestStep,
+  BTCPSelfTestStepResult
+} from './selftest'
+export { createSelfTestSteps, SELF_TEST_PAGE_URL, SELF_TEST_STEPS } from './selftest'
 export * from './types'
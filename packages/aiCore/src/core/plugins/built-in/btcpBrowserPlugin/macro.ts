@@ -0,0 +1,228 @@
+/**
+ * BTCP Macros
+ *
+ * Helpers to record browser tool calls as macro steps and replay them without the model.
+ * Steps that targeted a snapshot ref keep the element's role and accessible name, so a
+ * replay can find the same element in a fresh snapshot.
+ */
+
+import { MACRO_EXCLUDED_TOOLS, MACRO_OUTPUT_TOOLS } from './constants'
+import { isElementRef, parseSnapshot } from './snapshot'
+import type {
+  BTCPMacro,
+  BTCPMacroLocator,
+  BTCPMacroParameter,
+  BTCPMacroResult,
+  BTCPMacroStep,
+  BTCPToolName,
+  SnapshotResult
+} from './types'
+
+export type SnapshotRefs = Record<string, { role?: string; name?: string }>
+
+/**
+ * Runs the tools of a replayed macro
+ */
+export interface MacroRunner {
+  runTool: (toolName: BTCPToolName, args: Record<string, unknown>) => Promise<unknown>
+  /**
+   * Refs of a fresh snapshot of the current page
+   */
+  getRefs: () => Promise<SnapshotRefs>
+  maxStepDelay: number
+  signal?: AbortSignal
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g
+const hasPlaceholder = (value: string) => /\{\{\s*[\w-]+\s*\}\}/.test(value)
+
+// Arguments that hold what the user typed or picked, turned into parameters when saving a macro
+const INPUT_ARGS: Partial<Record<BTCPToolName, string>> = {
+  browser_fill: 'value',
+  browser_type: 'text',
+  browser_select: 'value'
+}
+
+/**
+ * Whether a tool call can be recorded as a macro step
+ */
+export const isRecordableTool = (toolName: string): toolName is BTCPToolName =>
+  toolName.startsWith('browser_') && !MACRO_EXCLUDED_TOOLS.includes(toolName as BTCPToolName)
+
+/**
+ * Role and accessible name of every ref in a snapshot, in document order
+ */
+export function describeRefs(result: SnapshotResult): SnapshotRefs {
+  const refs: SnapshotRefs = {}
+  for (const node of parseSnapshot(result.snapshot, result.refs)) {
+    if (!node.ref) continue
+    const known = result.refs?.[node.ref] ?? result.refs?.[node.ref.replace('@ref:', '')]
+    refs[node.ref] = { role: node.role, name: known?.name ?? node.line.match(/"([^"]*)"/)?.[1] }
+  }
+  return refs
+}
+
+/**
+ * Locator for a snapshot ref, or undefined when the selector is not a known ref
+ */
+export function createLocator(selector: unknown, refs: SnapshotRefs): BTCPMacroLocator | undefined {
+  if (typeof selector !== 'string' || !isElementRef(selector)) return undefined
+  const ref = selector.trim()
+  const target = refs[ref]
+  if (!target?.role) return undefined
+
+  let index = 0
+  for (const [other, info] of Object.entries(refs)) {
+    if (other === ref) break
+    if (info.role === target.role && info.name === target.name) index++
+  }
+  return { role: target.role, name: target.name, index }
+}
+
+/**
+ * Ref of the element a locator points to in the given snapshot refs
+ */
+export function resolveLocator(locator: BTCPMacroLocator, refs: SnapshotRefs): string | undefined {
+  const matches = Object.entries(refs).filter(([, info]) => info.role === locator.role && info.name === locator.name)
+  return (matches[locator.index] ?? matches[0])?.[0]
+}
+
+/**
+ * Replace `{{name}}` placeholders in string arguments
+ */
+export function applyMacroParameters(args: Record<string, unknown>, values: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value.replace(PLACEHOLDER_PATTERN, (match, name) => values[name] ?? match) : value
+    ])
+  )
+}
+
+/**
+ * One line per macro with its parameters, for the browser_run_macro tool description
+ */
+export function formatMacroList(macros: BTCPMacro[]): string {
+  return macros
+    .map((macro) => {
+      const params = macro.parameters
+        .map((parameter) => (parameter.default ? `${parameter.name} (default "${parameter.default}")` : parameter.name))
+        .join(', ')
+      const summary = macro.description || `${macro.steps.length} steps`
+      return `- ${macro.name}: ${summary}${params ? `. Parameters: ${params}` : ''}`
+    })
+    .join('\n')
+}
+
+const toParameterName = (label: string | undefined, fallback: string) => {
+  const name = label
+    ?.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return name || fallback
+}
+
+/**
+ * Turn the typed and selected values of recorded steps into macro parameters
+ * The recorded values become the parameter defaults.
+ */
+export function parameterizeMacroSteps(steps: BTCPMacroStep[]): {
+  steps: BTCPMacroStep[]
+  parameters: BTCPMacroParameter[]
+} {
+  const parameters: BTCPMacroParameter[] = []
+
+  const parameterized = steps.map((step) => {
+    const argName = INPUT_ARGS[step.toolName]
+    const value = argName ? step.args[argName] : undefined
+    if (!argName || typeof value !== 'string' || hasPlaceholder(value)) {
+      return step
+    }
+
+    let name = toParameterName(step.locator?.name, `input_${parameters.length + 1}`)
+    if (parameters.some((parameter) => parameter.name === name)) {
+      name = `${name}_${parameters.length + 1}`
+    }
+    parameters.push({ name, description: step.locator?.name, default: value })
+    return { ...step, args: { ...step.args, [argName]: `{{${name}}}` } }
+  })
+
+  return { steps: parameterized, parameters }
+}
+
+/**
+ * Resolve after `ms`, or reject as soon as the signal aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('Aborted'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new Error('Aborted'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/**
+ * Replay a macro step by step
+ * A failing step ends the replay with `success: false`; aborting the signal rejects.
+ */
+export async function replayMacro(
+  macro: BTCPMacro,
+  params: Record<string, string> | undefined,
+  runner: MacroRunner
+): Promise<BTCPMacroResult> {
+  const result: BTCPMacroResult = {
+    macro: macro.name,
+    success: false,
+    completedSteps: 0,
+    totalSteps: macro.steps.length,
+    outputs: []
+  }
+
+  const values: Record<string, string> = {}
+  for (const parameter of macro.parameters) {
+    const value = params?.[parameter.name] ?? parameter.default
+    if (value === undefined) {
+      return { ...result, error: `Missing value for parameter "${parameter.name}"` }
+    }
+    values[parameter.name] = value
+  }
+
+  for (const [index, step] of macro.steps.entries()) {
+    await sleep(Math.min(step.delay, runner.maxStepDelay), runner.signal)
+
+    try {
+      let args = applyMacroParameters(step.args, values)
+      if (step.locator) {
+        const ref = resolveLocator(step.locator, await runner.getRefs())
+        if (!ref) {
+          const { role, name } = step.locator
+          throw new Error(`No ${role}${name ? ` "${name}"` : ''} on the page`)
+        }
+        args = { ...args, selector: ref }
+      }
+
+      const output = await runner.runTool(step.toolName, args)
+      if (MACRO_OUTPUT_TOOLS.includes(step.toolName)) {
+        result.outputs.push({ step: index + 1, toolName: step.toolName, result: output })
+      }
+      result.completedSteps++
+    } catch (error) {
+      if (runner.signal?.aborted) throw error
+      return {
+        ...result,
+        error: `Step ${index + 1} (${step.toolName}) failed: ${error instanceof Error ? error.message : String(error)}`
+      }
+    }
+  }
+
+  return { ...result, success: true }
+}
@@ -0,0 +1,102 @@
+/**
+ * BTCP Network Tracking
+ *
+ * Pure helpers behind the network tools: normalizing the requests an agent tracked,
+ * filtering them and waiting for a matching response.
+ */
+
+import { sleep } from './macro'
+import type { BTCPNetworkFilter, BTCPNetworkRequest } from './types'
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Match a URL against a pattern
+ * `*` matches any run of characters; a pattern without wildcards matches as a substring.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return url.includes(pattern)
+  }
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`)
+  return regex.test(url)
+}
+
+export function filterRequests(requests: BTCPNetworkRequest[], filter: BTCPNetworkFilter): BTCPNetworkRequest[] {
+  return requests.filter(
+    (request) =>
+      (!filter.urlPattern || matchesUrlPattern(request.url, filter.urlPattern)) &&
+      (!filter.method || request.method.toUpperCase() === filter.method.toUpperCase()) &&
+      (filter.status === undefined || request.status === filter.status) &&
+      (!filter.resourceType || request.resourceType?.toLowerCase() === filter.resourceType.toLowerCase())
+  )
+}
+
+const pick = <T>(raw: Record<string, unknown>, keys: string[], type: 'string' | 'number'): T | undefined => {
+  for (const key of keys) {
+    if (typeof raw[key] === type) return raw[key] as T
+  }
+  return undefined
+}
+
+/**
+ * Convert a request reported by an agent into a BTCPNetworkRequest
+ * Browser managers differ in field names (statusCode vs status, type vs resourceType),
+ * so the common spellings are accepted. Returns undefined for entries without a URL.
+ */
+export function normalizeRequest(raw: unknown, index: number): BTCPNetworkRequest | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const entry = raw as Record<string, unknown>
+  const url = pick<string>(entry, ['url'], 'string')
+  if (!url) return undefined
+
+  return {
+    id: pick<string>(entry, ['id', 'requestId'], 'string') ?? String(index),
+    url,
+    method: pick<string>(entry, ['method'], 'string') ?? 'GET',
+    status: pick<number>(entry, ['status', 'statusCode'], 'number'),
+    resourceType: pick<string>(entry, ['resourceType', 'type'], 'string'),
+    mimeType: pick<string>(entry, ['mimeType', 'contentType'], 'string'),
+    timestamp: pick<number>(entry, ['timestamp', 'timeStamp', 'startTime'], 'number') ?? 0,
+    duration: pick<number>(entry, ['duration'], 'number'),
+    error: pick<string>(entry, ['error', 'errorText'], 'string')
+  }
+}
+
+/**
+ * Parse a response body for the model: JSON is parsed, other text is truncated
+ */
+export function parseResponseBody(body: string, maxLength: number): unknown {
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body.length > maxLength
+      ? `${body.slice(0, maxLength)}... [truncated ${body.length - maxLength} chars]`
+      : body
+  }
+}
+
+/**
+ * Poll the tracked requests until one that matches the filter and started at or after
+ * `since` has completed (or failed). Rejects when the timeout passes or the signal aborts.
+ */
+export async function waitForRequest(
+  getRequests: () => Promise<BTCPNetworkRequest[]>,
+  filter: BTCPNetworkFilter,
+  options: { since: number; timeout: number; interval: number; signal?: AbortSignal }
+): Promise<BTCPNetworkRequest> {
+  const deadline = Date.now() + options.timeout
+
+  for (;;) {
+    const completed = filterRequests(await getRequests(), filter).filter(
+      (request) => request.timestamp >= options.since && (request.status !== undefined || request.error)
+    )
+    if (completed.length > 0) {
+      return completed[0]
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`No response matching ${JSON.stringify(filter)} within ${options.timeout}ms`)
+    }
+    await sleep(options.interval, options.signal)
+  }
+}
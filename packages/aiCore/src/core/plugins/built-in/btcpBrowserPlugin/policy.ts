@@ -0,0 +1,121 @@
+/**
+ * BTCP Site Policy
+ *
+ * Pure helpers that decide whether a browser tool call may run on a given origin
+ */
+
+import { MUTATING_TOOLS, NAVIGATION_TOOLS } from './constants'
+import type { BTCPPolicyDecision, BTCPSitePolicy, BTCPToolName } from './types'
+
+/**
+ * Whether a tool call changes page or browser state
+ */
+export function isMutatingToolCall(toolName: string, args: unknown): boolean {
+  if (MUTATING_TOOLS.includes(toolName as BTCPToolName)) {
+    return true
+  }
+  // Semantic locators act on the element when an action other than hover is given
+  if (toolName.startsWith('browser_get_by_')) {
+    const action = (args as { action?: unknown } | undefined)?.action
+    return typeof action === 'string' && action !== 'hover'
+  }
+  return false
+}
+
+/**
+ * Origin of a URL, or null for opaque origins (about:blank, data:, invalid URLs)
+ */
+export function getOrigin(url: string | undefined | null): string | null {
+  if (!url) return null
+  try {
+    const origin = new URL(url).origin
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+const matchHost = (host: string, pattern: string): boolean => {
+  if (pattern === '*') return true
+  if (pattern.startsWith('*.')) {
+    const base = pattern.slice(2)
+    return host === base || host.endsWith(`.${base}`)
+  }
+  return host === pattern
+}
+
+/**
+ * Whether an origin matches a policy pattern
+ *
+ * @example
+ * matchesOriginPattern('https://mail.google.com', '*.google.com') // true
+ * matchesOriginPattern('https://example.com', 'http://example.com') // false
+ */
+export function matchesOriginPattern(origin: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase().replace(/\/+$/, '')
+  if (!normalized) return false
+
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+
+  const schemeIndex = normalized.indexOf('://')
+  if (schemeIndex === -1) {
+    return matchHost(url.hostname, normalized)
+  }
+
+  const scheme = normalized.slice(0, schemeIndex)
+  const host = normalized.slice(schemeIndex + 3)
+  return url.protocol === `${scheme}:` && matchHost(url.host, host)
+}
+
+const matchesAny = (origin: string, patterns: string[] | undefined): boolean =>
+  !!patterns?.some((pattern) => matchesOriginPattern(origin, pattern))
+
+/**
+ * Evaluate the site policy for a tool call
+ *
+ * @param origin - Origin the tool acts on: the navigation target for navigation tools,
+ *   otherwise the current page. An unknown origin (blank tab, data: URL, unreadable URL)
+ *   is denied when there is an allow list, as it can't be shown to be on it.
+ */
+export function evaluateSitePolicy(
+  policy: BTCPSitePolicy | undefined,
+  toolName: string,
+  args: unknown,
+  origin: string | null
+): BTCPPolicyDecision {
+  if (!policy) return { action: 'allow' }
+
+  const mutating = isMutatingToolCall(toolName, args)
+
+  if (!origin && policy.allowedOrigins?.length) {
+    return { action: 'deny', reason: `${toolName} acts on an unknown origin, which is not in the allowed origins` }
+  }
+
+  if (origin) {
+    if (matchesAny(origin, policy.blockedOrigins)) {
+      return { action: 'deny', reason: `Browser tools are blocked on ${origin} by the site policy` }
+    }
+    if (policy.allowedOrigins?.length && !matchesAny(origin, policy.allowedOrigins)) {
+      return { action: 'deny', reason: `${origin} is not in the allowed origins of the site policy` }
+    }
+    // Navigating to a read-only site is fine, acting on it is not
+    if (
+      mutating &&
+      !NAVIGATION_TOOLS.includes(toolName as BTCPToolName) &&
+      matchesAny(origin, policy.readOnlyOrigins)
+    ) {
+      return { action: 'deny', reason: `${origin} is read-only: ${toolName} is not allowed by the site policy` }
+    }
+  }
+
+  if (mutating && policy.requireApproval) {
+    return { action: 'confirm' }
+  }
+
+  return { action: 'allow' }
+}
@@ -0,0 +1,65 @@
+/**
+ * BTCP Screencast
+ *
+ * Streams the page as periodic screenshots while browser tools run, so hosts can
+ * show what the agent is doing. Works with any BTCPAgent (no CDP screencast needed).
+ */
+
+import type { BTCPAgent, BTCPScreencastFrame } from './types'
+
+export interface ScreencastOptions {
+  getAgent: () => Promise<BTCPAgent>
+  onFrame: (frame: BTCPScreencastFrame) => void
+  onStop?: (frameCount: number) => void
+  interval: number
+  quality: number
+}
+
+export interface Screencast {
+  start: () => void
+  stop: () => void
+  readonly running: boolean
+}
+
+export function createScreencast(options: ScreencastOptions): Screencast {
+  const { getAgent, onFrame, onStop, interval, quality } = options
+
+  let running = false
+  let sequence = 0
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const capture = async () => {
+    if (!running) return
+    try {
+      const agent = await getAgent()
+      const { screenshot } = await agent.screenshot({ format: 'jpeg', quality })
+      const url = await agent.getUrl().catch(() => undefined)
+      // The request may have finished while the screenshot was in flight
+      if (running && screenshot) {
+        onFrame({ image: screenshot, format: 'jpeg', url, sequence: sequence++, timestamp: Date.now() })
+      }
+    } catch {
+      // Capturing fails while the page is navigating; the next tick retries
+    }
+    if (running) {
+      timer = setTimeout(capture, interval)
+    }
+  }
+
+  return {
+    start: () => {
+      if (running) return
+      running = true
+      void capture()
+    },
+    stop: () => {
+      if (!running) return
+      running = false
+      clearTimeout(timer)
+      onStop?.(sequence)
+    },
+    get running() {
+      return running
+    }
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * BTCP Self-Test
+ *
+ * Diagnostic run of the browser tools against a bundled test page. Every step calls a
+ * real tool through the agent and checks its result, so a failing step points at the
+ * capability that is broken (content script injection, frames, evaluate, ...).
+ */
+
+import type { BTCPToolName } from './types'
+
+/**
+ * Capability a self-test step exercises
+ * `content_script` covers the command relay to the test page, which may run its own copy of the
+ * content script; `injection` checks that the content script is injected into an ordinary web page.
+ */
+export type BTCPSelfTestCapability =
+  | 'navigation'
+  | 'content_script'
+  | 'injection'
+  | 'snapshot'
+  | 'inspection'
+  | 'interaction'
+  | 'locators'
+  | 'waiting'
+  | 'frames'
+  | 'evaluate'
+  | 'screenshot'
+  | 'debugging'
+  | 'tabs'
+
+export interface BTCPSelfTestStep {
+  id: string
+  toolName: BTCPToolName
+  args: Record<string, unknown>
+  capability: BTCPSelfTestCapability
+  /**
+   * Returns a failure message when the tool ran but its result is wrong
+   */
+  check?: (result: unknown) => string | undefined
+}
+
+export interface BTCPSelfTestStepResult {
+  id: string
+  toolName: BTCPToolName
+  capability: BTCPSelfTestCapability
+  status: 'success' | 'error' | 'skipped'
+  /**
+   * Milliseconds the tool took
+   */
+  duration?: number
+  result?: unknown
+  error?: string
+}
+
+export interface BTCPSelfTestReport {
+  success: boolean
+  steps: BTCPSelfTestStepResult[]
+  /**
+   * Capabilities with at least one failing step
+   */
+  brokenCapabilities: BTCPSelfTestCapability[]
+}
+
+export const SELF_TEST_PAGE_TITLE = 'BTCP Self-Test'
+
+/**
+ * Test page with one element per capability; the iframe and the delayed element
+ * cover frame switching and waiting.
+ */
+export const SELF_TEST_PAGE_HTML = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${SELF_TEST_PAGE_TITLE}</title>
+</head>
+<body>
+<h1>BTCP Self-Test</h1>
+<form id="form" onsubmit="event.preventDefault()">
+<label for="name">Name</label>
+<input id="name" placeholder="Your name">
+<button id="submit" type="button" onclick="document.getElementById('status').textContent = 'Hello, ' + document.getElementById('name').value">Greet</button>
+<label><input id="agree" type="checkbox"> Agree</label>
+<select id="color"><option value="red">Red</option><option value="green">Green</option></select>
+</form>
+<p id="status">idle</p>
+<ul><li>One</li><li>Two</li><li>Three</li></ul>
+<p id="hidden" style="display:none">Hidden</p>
+<p id="delayed" style="display:none">Ready</p>
+<iframe id="frame" srcdoc="<p id='frame-text'>Inside frame</p>"></iframe>
+<script>setTimeout(function () { document.getElementById('delayed').style.display = 'block' }, 300)</script>
+</body>
+</html>`
+
+/**
+ * Default test page for agents that launch their own browser. Hosts whose content script
+ * can't run on `data:` URLs (the Chrome extension) ship the page as a file instead.
+ */
+export const SELF_TEST_PAGE_URL = `data:text/html;charset=utf-8,${encodeURIComponent(SELF_TEST_PAGE_HTML)}`
+
+const field = (result: unknown, key: string): unknown =>
+  result && typeof result === 'object' ? (result as Record<string, unknown>)[key] : undefined
+
+const expectField =
+  (key: string, expected: unknown) =>
+  (result: unknown): string | undefined => {
+    const actual = field(result, key)
+    return actual === expected
+      ? undefined
+      : `Expected ${key} ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+  }
+
+const expectNoError = (result: unknown) => {
+  const error = field(result, 'error')
+  return error ? String(error) : undefined
+}
+
+export interface SelfTestPageOptions {
+  /**
+   * URL of the test page (defaults to SELF_TEST_PAGE_URL)
+   */
+  pageUrl?: string
+  /**
+   * Open the test page in a tab of its own, closed when the run ends, instead of
+   * navigating the current tab. Needed whenever the agent acts on the user's browser.
+   */
+  newTab?: boolean
+  /**
+   * Ordinary web page opened in another tab after the test page, where the browser itself has to
+   * inject the content script. Only used with `newTab`.
+   */
+  injectionPageUrl?: string
+}
+
+/**
+ * Self-test steps for a test page
+ */
+export function createSelfTestSteps({
+  pageUrl = SELF_TEST_PAGE_URL,
+  newTab = false,
+  injectionPageUrl
+}: SelfTestPageOptions = {}): BTCPSelfTestStep[] {
+  const injectionSteps: BTCPSelfTestStep[] =
+    newTab && injectionPageUrl
+      ? [
+          {
+            id: 'injection-open',
+            toolName: 'browser_tab_new',
+            args: { url: injectionPageUrl },
+            capability: 'injection'
+          },
+          {
+            id: 'injection-url',
+            toolName: 'browser_url',
+            args: {},
+            capability: 'injection',
+            check: (result) => {
+              const url = field(result, 'url')
+              return typeof url === 'string' && url.startsWith(new URL(injectionPageUrl).origin)
+                ? undefined
+                : `Expected the content script of ${injectionPageUrl} to answer, got ${JSON.stringify(url)}`
+            }
+          }
+        ]
+      : []
+
+  return [
+    newTab
+      ? { id: 'open', toolName: 'browser_tab_new', args: { url: pageUrl }, capability: 'navigation' }
+      : { id: 'open', toolName: 'browser_navigate', args: { url: pageUrl }, capability: 'navigation' },
+    {
+      id: 'title',
+      toolName: 'browser_title',
+      args: {},
+      capability: 'content_script',
+      check: expectField('title', SELF_TEST_PAGE_TITLE)
+    },
+    { id: 'url', toolName: 'browser_url', args: {}, capability: 'content_script' },
+    {
+      id: 'snapshot',
+      toolName: 'browser_snapshot',
+      args: { interactiveOnly: true },
+      capability: 'snapshot',
+      check: (result) => (JSON.stringify(result).includes('Greet') ? undefined : 'Snapshot is missing the Greet button')
+    },
+    {
+      id: 'get-text',
+      toolName: 'browser_get_text',
+      args: { selector: '#status' },
+      capability: 'inspection',
+      check: expectField('text', 'idle')
+    },
+    {
+      id: 'get-attribute',
+      toolName: 'browser_get_attribute',
+      args: { selector: '#name', attribute: 'placeholder' },
+      capability: 'inspection',
+      check: expectField('value', 'Your name')
+    },
+    {
+      id: 'is-visible',
+      toolName: 'browser_is_visible',
+      args: { selector: '#hidden' },
+      capability: 'inspection',
+      check: expectField('visible', false)
+    },
+    {
+      id: 'is-enabled',
+      toolName: 'browser_is_enabled',
+      args: { selector: '#submit' },
+      capability: 'inspection',
+      check: expectField('enabled', true)
+    },
+    {
+      id: 'count',
+      toolName: 'browser_count',
+      args: { selector: 'li' },
+      capability: 'inspection',
+      check: expectField('count', 3)
+    },
+    { id: 'fill', toolName: 'browser_fill', args: { selector: '#name', value: 'btcp' }, capability: 'interaction' },
+    { id: 'click', toolName: 'browser_click', args: { selector: '#submit' }, capability: 'interaction' },
+    {
+      id: 'click-result',
+      toolName: 'browser_get_text',
+      args: { selector: '#status' },
+      capability: 'interaction',
+      check: expectField('text', 'Hello, btcp')
+    },
+    { id: 'clear', toolName: 'browser_clear', args: { selector: '#name' }, capability: 'interaction' },
+    { id: 'type', toolName: 'browser_type', args: { selector: '#name', text: 'typed' }, capability: 'interaction' },
+    { id: 'press', toolName: 'browser_press', args: { key: 'Tab', selector: '#name' }, capability: 'interaction' },
+    { id: 'check', toolName: 'browser_check', args: { selector: '#agree' }, capability: 'interaction' },
+    { id: 'uncheck', toolName: 'browser_uncheck', args: { selector: '#agree' }, capability: 'interaction' },
+    {
+      id: 'select',
+      toolName: 'browser_select',
+      args: { selector: '#color', value: 'green' },
+      capability: 'interaction'
+    },
+    { id: 'hover', toolName: 'browser_hover', args: { selector: '#submit' }, capability: 'interaction' },
+    { id: 'scroll', toolName: 'browser_scroll', args: { direction: 'down', y: 100 }, capability: 'interaction' },
+    {
+      id: 'scroll-into-view',
+      toolName: 'browser_scroll_into_view',
+      args: { selector: '#status' },
+      capability: 'interaction'
+    },
+    {
+      id: 'get-by-role',
+      toolName: 'browser_get_by_role',
+      args: { role: 'button', name: 'Greet' },
+      capability: 'locators',
+      check: expectNoError
+    },
+    {
+      id: 'get-by-text',
+      toolName: 'browser_get_by_text',
+      args: { text: 'Hello, btcp' },
+      capability: 'locators',
+      check: expectNoError
+    },
+    {
+      id: 'get-by-label',
+      toolName: 'browser_get_by_label',
+      args: { label: 'Name' },
+      capability: 'locators',
+      check: expectNoError
+    },
+    {
+      id: 'get-by-placeholder',
+      toolName: 'browser_get_by_placeholder',
+      args: { placeholder: 'Your name' },
+      capability: 'locators',
+      check: expectNoError
+    },
+    {
+      id: 'wait',
+      toolName: 'browser_wait',
+      args: { selector: '#delayed', state: 'visible', timeout: 5000 },
+      capability: 'waiting'
+    },
+    {
+      id: 'wait-for-url',
+      toolName: 'browser_wait_for_url',
+      // Matched as a substring: the scheme and media type are enough for a data: URL
+      args: { url: pageUrl.split(',')[0], timeout: 5000 },
+      capability: 'waiting'
+    },
+    { id: 'frame', toolName: 'browser_frame', args: { selector: '#frame' }, capability: 'frames' },
+    {
+      id: 'frame-text',
+      toolName: 'browser_get_text',
+      args: { selector: '#frame-text' },
+      capability: 'frames',
+      check: expectField('text', 'Inside frame')
+    },
+    { id: 'mainframe', toolName: 'browser_mainframe', args: {}, capability: 'frames' },
+    {
+      id: 'evaluate',
+      toolName: 'browser_evaluate',
+      args: { script: 'document.querySelectorAll("li").length + 1' },
+      capability: 'evaluate',
+      check: expectField('result', 4)
+    },
+    {
+      id: 'screenshot',
+      toolName: 'browser_screenshot',
+      args: { format: 'jpeg', quality: 50 },
+      capability: 'screenshot',
+      check: (result) => (field(result, 'image') ? undefined : 'Screenshot is empty')
+    },
+    { id: 'highlight', toolName: 'browser_highlight', args: { selector: '#submit' }, capability: 'debugging' },
+    { id: 'console', toolName: 'browser_console', args: {}, capability: 'debugging' },
+    {
+      id: 'tab-list',
+      toolName: 'browser_tab_list',
+      args: {},
+      capability: 'tabs',
+      check: (result) => {
+        const tabs = field(result, 'tabs')
+        return Array.isArray(tabs) && tabs.length > 0 ? undefined : 'No tabs listed'
+      }
+    },
+    { id: 'reload', toolName: 'browser_reload', args: {}, capability: 'navigation' },
+    ...injectionSteps
+  ]
+}
+
+export const SELF_TEST_STEPS: BTCPSelfTestStep[] = createSelfTestSteps()
+
+export interface SelfTestRunner {
+  /**
+   * Tools available to the self-test; steps for other tools are skipped
+   */
+  tools: ReadonlySet<string>
+  runTool: (toolName: BTCPToolName, args: Record<string, unknown>) => Promise<unknown>
+  onStep?: (result: BTCPSelfTestStepResult, index: number) => void
+  signal?: AbortSignal
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Run the self-test steps in order
+ * Without navigation or the content script nothing else can work, so their failure skips the rest.
+ */
+export async function runSelfTest(
+  runner: SelfTestRunner,
+  steps: BTCPSelfTestStep[] = SELF_TEST_STEPS
+): Promise<BTCPSelfTestReport> {
+  const results: BTCPSelfTestStepResult[] = []
+  let blockedBy: BTCPSelfTestCapability | undefined
+  const openedTabIds: unknown[] = []
+
+  for (const [index, step] of steps.entries()) {
+    const base = { id: step.id, toolName: step.toolName, capability: step.capability }
+    let stepResult: BTCPSelfTestStepResult
+
+    if (runner.signal?.aborted || blockedBy || !runner.tools.has(step.toolName)) {
+      stepResult = {
+        ...base,
+        status: 'skipped',
+        error: runner.signal?.aborted
+          ? 'Stopped'
+          : blockedBy
+            ? `Skipped because ${blockedBy} failed`
+            : 'Not in the current toolset'
+      }
+    } else {
+      const startedAt = Date.now()
+      try {
+        const result = await runner.runTool(step.toolName, step.args)
+        const openedTabId = step.toolName === 'browser_tab_new' ? field(field(result, 'tab'), 'id') : undefined
+        if (openedTabId !== undefined) {
+          openedTabIds.push(openedTabId)
+        }
+        const failure = step.check?.(result)
+        stepResult = failure
+          ? { ...base, status: 'error', duration: Date.now() - startedAt, result, error: failure }
+          : { ...base, status: 'success', duration: Date.now() - startedAt, result }
+      } catch (error) {
+        stepResult = { ...base, status: 'error', duration: Date.now() - startedAt, error: errorMessage(error) }
+      }
+
+      if (
+        stepResult.status === 'error' &&
+        (step.capability === 'navigation' || step.capability === 'content_script') &&
+        !results.some((result) => result.capability === step.capability && result.status === 'success')
+      ) {
+        blockedBy = step.capability
+      }
+    }
+
+    results.push(stepResult)
+    runner.onStep?.(stepResult, index)
+  }
+
+  // Close the tabs the run opened, also when it was stopped
+  if (runner.tools.has('browser_tab_close')) {
+    for (const id of openedTabIds.reverse()) {
+      await runner.runTool('browser_tab_close', { id }).catch(() => undefined)
+    }
+  }
+
+  const brokenCapabilities = Array.from(
+    new Set(results.filter((result) => result.status === 'error').map((result) => result.capability))
+  )
+  return { success: brokenCapabilities.length === 0, steps: results, brokenCapabilities }
+}
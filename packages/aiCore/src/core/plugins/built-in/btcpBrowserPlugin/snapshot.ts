@@ -0,0 +1,222 @@
+/**
+ * BTCP Snapshot Helpers
+ *
+ * Pure helpers that post-process accessibility snapshots: scoping to a ref subtree,
+ * interactive-only filtering, ref-keyed diffs and line-aware truncation.
+ * Snapshots are text trees with one node per line, indented by depth, where
+ * element nodes carry a stable ref (`@ref:N` or `[ref=N]`).
+ */
+
+import type { SnapshotDiffResult, SnapshotResult } from './types'
+
+/**
+ * Roles kept by interactive-only snapshots
+ */
+export const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem'
+])
+
+const REF_PATTERN = /@ref:\d+|\[ref=([^\]\s]+)\]/
+
+export interface SnapshotNode {
+  ref?: string
+  role?: string
+  depth: number
+  line: string
+}
+
+/**
+ * Whether a selector is an element reference rather than a CSS selector
+ */
+export const isElementRef = (selector: string | undefined): selector is string =>
+  !!selector && /^@ref:\d+$/.test(selector.trim())
+
+const extractRef = (line: string): string | undefined => {
+  const match = line.match(REF_PATTERN)
+  if (!match) return undefined
+  return match[1] ?? match[0]
+}
+
+const normalizeRef = (ref: string) => (ref.startsWith('@ref:') ? ref : `@ref:${ref}`)
+
+/**
+ * Split a snapshot into nodes, one per line
+ */
+export function parseSnapshot(snapshot: string, refs?: SnapshotResult['refs']): SnapshotNode[] {
+  return snapshot
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const rawRef = extractRef(line)
+      const ref = rawRef ? normalizeRef(rawRef) : undefined
+      const role = (ref && (refs?.[ref]?.role ?? refs?.[rawRef!]?.role)) || line.trim().match(/^-?\s*(\w+)/)?.[1]
+      return { ref, role: role?.toLowerCase(), depth: line.length - line.trimStart().length, line }
+    })
+}
+
+const joinNodes = (nodes: SnapshotNode[]) => nodes.map((node) => node.line).join('\n')
+
+const pickRefs = (refs: SnapshotResult['refs'], nodes: SnapshotNode[]): SnapshotResult['refs'] => {
+  if (!refs) return undefined
+  const kept = new Set(nodes.map((node) => node.ref).filter(Boolean))
+  return Object.fromEntries(Object.entries(refs).filter(([ref]) => kept.has(normalizeRef(ref))))
+}
+
+/**
+ * Keep only the subtree rooted at the node with the given ref
+ * Returns the snapshot unchanged when the ref is not found (the agent may already have scoped it).
+ */
+export function scopeSnapshot(result: SnapshotResult, ref: string): SnapshotResult {
+  const nodes = parseSnapshot(result.snapshot, result.refs)
+  const start = nodes.findIndex((node) => node.ref === normalizeRef(ref.trim()))
+  if (start === -1) return result
+
+  const rootDepth = nodes[start].depth
+  let end = start + 1
+  while (end < nodes.length && nodes[end].depth > rootDepth) end++
+
+  const scoped = nodes.slice(start, end)
+  return { ...result, snapshot: joinNodes(scoped), refs: pickRefs(result.refs, scoped) }
+}
+
+/**
+ * Keep only interactive element nodes, flattened to one level
+ */
+export function filterInteractive(result: SnapshotResult): SnapshotResult {
+  const nodes = parseSnapshot(result.snapshot, result.refs).filter(
+    (node) => node.ref && node.role && INTERACTIVE_ROLES.has(node.role)
+  )
+  return {
+    ...result,
+    snapshot: nodes.map((node) => node.line.trim()).join('\n'),
+    refs: pickRefs(result.refs, nodes)
+  }
+}
+
+/**
+ * Ref-keyed node content: the element line plus the ref-less lines (text, labels)
+ * whose nearest ref ancestor it is
+ */
+export function indexSnapshot(snapshot: string): Map<string, string> {
+  const index = new Map<string, string[]>()
+  const ancestors: { ref: string; depth: number }[] = []
+
+  for (const node of parseSnapshot(snapshot)) {
+    while (ancestors.length && ancestors[ancestors.length - 1].depth >= node.depth) {
+      ancestors.pop()
+    }
+    if (node.ref) {
+      ancestors.push({ ref: node.ref, depth: node.depth })
+      index.set(node.ref, [node.line.trim()])
+    } else if (ancestors.length) {
+      index.get(ancestors[ancestors.length - 1].ref)!.push(node.line.trim())
+    }
+  }
+
+  return new Map(Array.from(index, ([ref, lines]) => [ref, lines.join('\n')]))
+}
+
+/**
+ * Nodes added, removed or changed between two ref-keyed snapshot indexes
+ */
+export function diffSnapshots(previous: Map<string, string>, next: Map<string, string>): SnapshotDiffResult {
+  const added: string[] = []
+  const removed: string[] = []
+  const changed: SnapshotDiffResult['changed'] = []
+  let unchanged = 0
+
+  for (const [ref, content] of next) {
+    const before = previous.get(ref)
+    if (before === undefined) {
+      added.push(content)
+    } else if (before !== content) {
+      changed.push({ ref, before, after: content })
+    } else {
+      unchanged++
+    }
+  }
+  for (const [ref, content] of previous) {
+    if (!next.has(ref)) removed.push(content)
+  }
+
+  return { mode: 'diff', added, removed, changed, unchanged }
+}
+
+/**
+ * Cut a snapshot at a line boundary so it fits in maxSize characters
+ */
+export function truncateSnapshot(result: SnapshotResult, maxSize: number): SnapshotResult {
+  if (result.snapshot.length <= maxSize) return result
+
+  const nodes = parseSnapshot(result.snapshot, result.refs)
+  const kept: SnapshotNode[] = []
+  let size = 0
+  for (const node of nodes) {
+    size += node.line.length + 1
+    if (size > maxSize) break
+    kept.push(node)
+  }
+
+  return {
+    ...result,
+    snapshot: joinNodes(kept),
+    refs: pickRefs(result.refs, kept),
+    _truncated: true,
+    _message:
+      `Snapshot truncated to ${maxSize} chars (${kept.length} of ${nodes.length} nodes). ` +
+      'Scope it with selector (CSS or @ref:N), set interactiveOnly, or use mode "diff" after actions.'
+  }
+}
+
+/**
+ * Drop diff entries so the changed, added and removed nodes fit in maxSize characters,
+ * keeping them in that order
+ */
+export function truncateSnapshotDiff(diff: SnapshotDiffResult, maxSize: number): SnapshotDiffResult {
+  let size = 0
+  let full = false
+  const keep = <T>(entries: T[], length: (entry: T) => number): T[] => {
+    const kept: T[] = []
+    for (const entry of entries) {
+      size += length(entry) + 1
+      full ||= size > maxSize
+      if (full) break
+      kept.push(entry)
+    }
+    return kept
+  }
+
+  const changed = keep(diff.changed, (change) => change.before.length + change.after.length)
+  const added = keep(diff.added, (content) => content.length)
+  const removed = keep(diff.removed, (content) => content.length)
+  if (!full) return diff
+
+  const total = diff.changed.length + diff.added.length + diff.removed.length
+  const kept = changed.length + added.length + removed.length
+  return {
+    ...diff,
+    changed,
+    added,
+    removed,
+    _truncated: true,
+    _message:
+      `Diff truncated to ${maxSize} chars (${kept} of ${total} changes). ` +
+      'Scope it with selector (CSS or @ref:N) or set interactiveOnly.'
+  }
+}
@@ -53,11 +53,270 @@ export type BTCPToolName =
   | 'browser_highlight'
   | 'browser_console'
   | 'browser_describe'
+  // Tabs
+  | 'browser_tab_list'
+  | 'browser_tab_new'
+  | 'browser_tab_switch'
+  | 'browser_tab_close'
+  // Network
+  | 'browser_network_requests'
+  | 'browser_wait_for_response'
+  // Macros
+  | 'browser_run_macro'
 
 /**
  * Tool preset levels for the BTCP Browser Plugin
  */
-export type BTCPToolPreset = 'minimal' | 'standard' | 'full'
+export type BTCPToolPreset = 'minimal' | 'standard' | 'tabs' | 'full'
+
+/**
+ * A browser tab as reported by the tab tools
+ */
+export interface BTCPTabInfo {
+  id: string
+  url: string
+  title: string
+  active: boolean
+}
+
+/**
+ * Tab management an agent may offer on top of the page commands
+ * The tab tools fail with a clear error when the agent does not implement it.
+ */
+export interface BTCPTabManager {
+  listTabs: () => Promise<BTCPTabInfo[]>
+  /**
+   * Open a tab (about:blank without a URL) and make it the tab later commands act on
+   */
+  newTab: (url?: string) => Promise<BTCPTabInfo>
+  switchTab: (id: string) => Promise<void>
+  closeTab: (id: string) => Promise<void>
+}
+
+/**
+ * A network request tracked while browser tools run
+ */
+export interface BTCPNetworkRequest {
+  id: string
+  url: string
+  method: string
+  /**
+   * HTTP status; undefined while the request is pending or when it failed
+   */
+  status?: number
+  resourceType?: string
+  mimeType?: string
+  /**
+   * Epoch milliseconds when the request started
+   */
+  timestamp: number
+  duration?: number
+  error?: string
+}
+
+/**
+ * Criteria for the network tools; all given fields must match
+ */
+export interface BTCPNetworkFilter {
+  /**
+   * Substring of the URL, or a pattern where `*` matches any characters
+   */
+  urlPattern?: string
+  method?: string
+  status?: number
+  resourceType?: string
+}
+
+/**
+ * Request tracking an agent may offer
+ * `BrowserAgent` is covered through its browser manager, other agents implement it directly.
+ */
+export interface BTCPNetworkTracker {
+  getRequests: () => Promise<BTCPNetworkRequest[]>
+  clearRequests: () => Promise<void>
+  /**
+   * Raw response body of a tracked request, when the agent can read bodies
+   */
+  getResponseBody?: (id: string) => Promise<string | undefined>
+  /**
+   * Turns recording on or off, for trackers that only record while enabled.
+   * Called on launch with the plugin's `enableTracking`.
+   */
+  setRequestTracking?: (enabled: boolean) => Promise<void>
+}
+
+/**
+ * Agent surface used by the plugin's tools
+ *
+ * `BrowserAgent` satisfies it directly. Other environments (e.g. the Chrome extension
+ * side panel, which relays commands to a content script) can provide their own
+ * implementation through `config.agent`, optionally with tab management and request tracking.
+ */
+export type BTCPAgent = Pick<
+  BrowserAgent,
+  | 'launch'
+  | 'execute'
+  | 'getUrl'
+  | 'getTitle'
+  | 'snapshot'
+  | 'getText'
+  | 'getAttribute'
+  | 'isVisible'
+  | 'click'
+  | 'type'
+  | 'fill'
+  | 'press'
+  | 'hover'
+  | 'scroll'
+  | 'waitFor'
+  | 'screenshot'
+  | 'evaluate'
+> &
+  Partial<Pick<BrowserAgent, 'getBrowserManager'>> &
+  Partial<BTCPTabManager> &
+  Partial<BTCPNetworkTracker>
+
+/**
+ * A single BTCP command as accepted by `BrowserAgent.execute`
+ */
+export type BTCPCommand = Parameters<BrowserAgent['execute']>[0]
+
+/**
+ * Per-origin site policy
+ *
+ * Origin patterns accept a bare host (`example.com`), a wildcard host (`*.example.com`,
+ * which also matches the apex domain) or a full origin (`https://example.com:8443`).
+ */
+export interface BTCPSitePolicy {
+  /**
+   * When non-empty, browser tools may only act on matching origins
+   */
+  allowedOrigins?: string[]
+
+  /**
+   * Origins the browser tools must never act on
+   */
+  blockedOrigins?: string[]
+
+  /**
+   * Origins where only read-only tools may run
+   */
+  readOnlyOrigins?: string[]
+
+  /**
+   * Ask for approval (via `onApprovalRequest`) before mutating tools run
+   * @default false
+   */
+  requireApproval?: boolean
+}
+
+/**
+ * Result of evaluating the site policy for a single tool call
+ */
+export type BTCPPolicyDecision = { action: 'allow' } | { action: 'confirm' } | { action: 'deny'; reason: string }
+
+/**
+ * Approval request raised before a mutating tool runs
+ */
+export interface BTCPApprovalRequest {
+  toolName: string
+  args: unknown
+  /**
+   * Origin the tool acts on (the navigation target for browser_navigate), null when unknown
+   */
+  origin: string | null
+  toolCallId?: string
+  /**
+   * Aborted when the request that triggered the tool call is cancelled
+   */
+  abortSignal?: AbortSignal
+}
+
+/**
+ * A single screencast frame
+ */
+export interface BTCPScreencastFrame {
+  /**
+   * Base64 encoded image data
+   */
+  image: string
+  format: 'jpeg' | 'png'
+  url?: string
+  sequence: number
+  timestamp: number
+}
+
+/**
+ * Element a recorded step targeted through a snapshot ref
+ * Refs are only valid for the snapshot they came from, so replays look the element up again
+ * by role and accessible name.
+ */
+export interface BTCPMacroLocator {
+  role: string
+  name?: string
+  /**
+   * Position among the elements with the same role and name
+   */
+  index: number
+}
+
+/**
+ * A single recorded tool call
+ */
+export interface BTCPMacroStep {
+  toolName: BTCPToolName
+  /**
+   * Tool arguments; string values may contain `{{parameter}}` placeholders
+   */
+  args: Record<string, unknown>
+  /**
+   * Set when the step's selector was a snapshot ref (@ref:N)
+   */
+  locator?: BTCPMacroLocator
+  /**
+   * Milliseconds between the end of the previous step and the start of this one
+   */
+  delay: number
+  /**
+   * Milliseconds the step took
+   */
+  duration: number
+}
+
+/**
+ * Named value substituted into `{{name}}` placeholders when a macro is replayed
+ */
+export interface BTCPMacroParameter {
+  name: string
+  description?: string
+  default?: string
+}
+
+/**
+ * A recorded sequence of browser tool calls that can be replayed without the model
+ */
+export interface BTCPMacro {
+  id: string
+  name: string
+  description?: string
+  parameters: BTCPMacroParameter[]
+  steps: BTCPMacroStep[]
+}
+
+/**
+ * Outcome of a macro replay
+ */
+export interface BTCPMacroResult {
+  macro: string
+  success: boolean
+  completedSteps: number
+  totalSteps: number
+  /**
+   * Results of the steps that read from the page (browser_get_text, browser_url, ...), in order
+   */
+  outputs: { step: number; toolName: string; result: unknown }[]
+  error?: string
+}
 
 /**
  * Configuration options for the BTCP Browser Plugin
@@ -70,11 +329,11 @@ export interface BTCPBrowserPluginConfig {
   enabled?: boolean
 
   /**
-   * Pre-initialized BrowserAgent instance
+   * Pre-initialized agent instance (a BrowserAgent or any BTCPAgent implementation)
    * If not provided, tools will be created but agent initialization
    * will be deferred until first use
    */
-  agent?: BrowserAgent
+  agent?: BTCPAgent
 
   /**
    * BrowserAgent constructor options (used if agent not provided)
@@ -94,31 +353,84 @@ export interface BTCPBrowserPluginConfig {
   maxSnapshotSize?: number
 
   /**
-   * Enable screencast for vision models
+   * Stream periodic screenshots of the page (via `onScreencastFrame`) while tools run
    * @default false
    */
   enableScreencast?: boolean
 
   /**
-   * Enable request/console tracking
+   * Delay between screencast frames in milliseconds
+   * @default 1000
+   */
+  screencastInterval?: number
+
+  /**
+   * JPEG quality of screencast frames (0-100)
+   * @default 60
+   */
+  screencastQuality?: number
+
+  /**
+   * Called for every screencast frame. The screencast starts with the first tool call
+   * of a request and stops when the response stream ends or the request is aborted.
+   */
+  onScreencastFrame?: (frame: BTCPScreencastFrame) => void
+
+  /**
+   * Called once when the screencast stops
+   */
+  onScreencastStop?: (frameCount: number) => void
+
+  /**
+   * Track network requests and expose them through browser_network_requests and
+   * browser_wait_for_response. Tracked requests are cleared when a request ends.
    * @default false
    */
   enableTracking?: boolean
 
   /**
    * Callback for tool execution events
+   * `toolCallId` is the AI SDK tool call id when the tool runs inside streamText/generateText
    */
-  onToolCall?: (toolName: string, args: unknown) => void
+  onToolCall?: (toolName: string, args: unknown, toolCallId?: string) => void
 
   /**
    * Callback for tool results
    */
-  onToolResult?: (toolName: string, result: unknown) => void
+  onToolResult?: (toolName: string, result: unknown, toolCallId?: string) => void
 
   /**
    * Callback for tool errors
    */
-  onError?: (toolName: string, error: Error) => void
+  onError?: (toolName: string, error: Error, toolCallId?: string) => void
+
+  /**
+   * Per-origin policy enforced before every tool call
+   */
+  sitePolicy?: BTCPSitePolicy
+
+  /**
+   * Called when the site policy requires approval. Resolve to true to let the tool run.
+   * Without this callback, calls that need approval are denied.
+   */
+  onApprovalRequest?: (request: BTCPApprovalRequest) => Promise<boolean>
+
+  /**
+   * Saved macros the model can replay through the browser_run_macro tool
+   */
+  macros?: BTCPMacro[]
+
+  /**
+   * Called after every successful tool call that can be replayed as a macro step
+   * Steps run by a macro replay are not reported.
+   */
+  onMacroStep?: (step: BTCPMacroStep, toolCallId?: string) => void
+
+  /**
+   * Longest pause kept between replayed macro steps, in milliseconds
+   * @default 2000
+   */
+  macroMaxStepDelay?: number
 
   /**
    * Whether to inject browser-aware system prompt hints
@@ -131,7 +443,7 @@ export interface BTCPBrowserPluginConfig {
  * Extended request context with BTCP agent
  */
 export interface BTCPRequestContext {
-  btcpAgent?: BrowserAgent
+  btcpAgent?: BTCPAgent
 }
 
 /**
@@ -153,6 +465,20 @@ export interface SnapshotResult {
   _message?: string
 }
 
+/**
+ * Snapshot diff result (browser_snapshot with mode 'diff')
+ * Entries are node contents keyed by their stable refs.
+ */
+export interface SnapshotDiffResult {
+  mode: 'diff'
+  added: string[]
+  removed: string[]
+  changed: { ref: string; before: string; after: string }[]
+  unchanged: number
+  _truncated?: boolean
+  _message?: string
+}
+
 /**
  * Screenshot result
  */
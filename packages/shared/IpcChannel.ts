@@ -97,6 +97,17 @@ export enum IpcChannel {
   // Python
   Python_Execute = 'python:execute',
 
+  // Browser profiles of the built-in browser MCP server
+  BrowserProfile_List = 'browser-profile:list',
+  BrowserProfile_Clear = 'browser-profile:clear',
+  BrowserProfile_Delete = 'browser-profile:delete',
+
+  // Saved scripts of the Hub MCP server
+  HubScript_List = 'hub-script:list',
+  HubScript_Save = 'hub-script:save',
+  HubScript_Restore = 'hub-script:restore',
+  HubScript_Delete = 'hub-script:delete',
+
   // agent messages
   AgentMessage_PersistExchange = 'agent-message:persist-exchange',
   AgentMessage_GetHistory = 'agent-message:get-history',
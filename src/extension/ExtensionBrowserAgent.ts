@@ -0,0 +1,279 @@
+/**
+ * Extension Browser Agent
+ *
+ * BTCPAgent implementation for the extension UI (side panel / window).
+ * Instead of launching a browser, every command is sent as an `aspect:command`
+ * message to the background service worker, which routes it (via
+ * setupMessageListener) to the ContentAgent running in the active tab.
+ * Tab management goes through chrome.tabs directly: switching a tab activates it,
+ * so later commands reach its content script. Network requests are tracked by the
+ * background worker through chrome.webRequest, which cannot read response bodies.
+ */
+
+import type {
+  BTCPAgent,
+  BTCPCommand,
+  BTCPNetworkRequest,
+  BTCPNetworkTracker,
+  BTCPTabInfo,
+  BTCPTabManager,
+  Response
+} from '@cherrystudio/ai-core/built-in/plugins'
+import { generateCommandId } from 'btcp-browser-agent'
+
+// Distributive Omit so the action-specific fields of each command survive
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+type CommandInput = DistributiveOmit<BTCPCommand, 'id'>
+
+// Maximum time to wait for the content script to answer a command
+const COMMAND_TIMEOUT_MS = 30_000
+
+/**
+ * Self-test page shipped with the extension: content scripts can't run on the default data: URL page
+ */
+export const SELF_TEST_PAGE_URL = chrome.runtime.getURL('src/extension/selftest.html')
+
+/**
+ * Ordinary web page for the self-test's injection check: the bundled test page runs the content script
+ * itself, so only a page like this shows whether the browser injects it
+ */
+export const SELF_TEST_INJECTION_PAGE_URL = 'https://example.com/'
+
+export class ExtensionBrowserAgent implements BTCPAgent, BTCPTabManager, BTCPNetworkTracker {
+  /**
+   * Nothing to launch: the content script is injected by the manifest.
+   * Verifies that the active tab can be reached so failures surface early.
+   */
+  async launch(): Promise<void> {
+    await this.request({ action: 'url' } as CommandInput)
+  }
+
+  /**
+   * Send a raw BTCP command to the active tab and return the ContentAgent response
+   */
+  async execute(command: BTCPCommand): Promise<Response> {
+    return this.send(command)
+  }
+
+  async getUrl(): Promise<string> {
+    const data = await this.request({ action: 'url' } as CommandInput)
+    return pickField<string>(data, 'url')
+  }
+
+  async getTitle(): Promise<string> {
+    const data = await this.request({ action: 'title' } as CommandInput)
+    return pickField<string>(data, 'title')
+  }
+
+  async snapshot(options: { selector?: string; maxDepth?: number } = {}) {
+    return this.request({ action: 'snapshot', ...options } as CommandInput)
+  }
+
+  async getText(selector: string): Promise<string> {
+    const data = await this.request({ action: 'gettext', selector } as CommandInput)
+    return pickField<string>(data, 'text')
+  }
+
+  async getAttribute(selector: string, attribute: string): Promise<string | null> {
+    const data = await this.request({ action: 'getattribute', selector, attribute } as CommandInput)
+    return pickField<string | null>(data, 'value')
+  }
+
+  async isVisible(selector: string): Promise<boolean> {
+    const data = await this.request({ action: 'isvisible', selector } as CommandInput)
+    return Boolean(pickField<boolean>(data, 'visible'))
+  }
+
+  async click(selector: string, options: { button?: string; clickCount?: number } = {}): Promise<void> {
+    await this.request({
+      action: 'click',
+      selector,
+      button: options.button,
+      clickCount: options.clickCount
+    } as CommandInput)
+  }
+
+  async type(selector: string, text: string, options: { delay?: number; clear?: boolean } = {}): Promise<void> {
+    await this.request({ action: 'type', selector, text, delay: options.delay, clear: options.clear } as CommandInput)
+  }
+
+  async fill(selector: string, value: string): Promise<void> {
+    await this.request({ action: 'fill', selector, value } as CommandInput)
+  }
+
+  async press(key: string, selector?: string): Promise<void> {
+    await this.request({ action: 'press', key, selector } as CommandInput)
+  }
+
+  async hover(selector: string): Promise<void> {
+    await this.request({ action: 'hover', selector } as CommandInput)
+  }
+
+  async scroll(options: { direction?: string; selector?: string; x?: number; y?: number } = {}): Promise<void> {
+    await this.request({ action: 'scroll', ...options } as CommandInput)
+  }
+
+  async waitFor(selector: string, options: { timeout?: number; state?: string } = {}): Promise<void> {
+    await this.request({ action: 'wait', selector, ...options } as CommandInput)
+  }
+
+  async screenshot(options: { selector?: string; fullPage?: boolean; format?: string; quality?: number } = {}) {
+    const data = await this.request({ action: 'screenshot', ...options } as CommandInput)
+    return { screenshot: pickField<string>(data, 'screenshot') }
+  }
+
+  async evaluate(script: string): Promise<unknown> {
+    const data = await this.request({ action: 'evaluate', script } as CommandInput)
+    return pickField<unknown>(data, 'result')
+  }
+
+  async listTabs(): Promise<BTCPTabInfo[]> {
+    const tabs = await chrome.tabs.query({ windowType: 'normal' })
+    return tabs.filter((tab) => tab.id !== undefined).map(toTabInfo)
+  }
+
+  async newTab(url?: string): Promise<BTCPTabInfo> {
+    // The extension window is a popup: open the tab in the browser window the user works in
+    const window = await chrome.windows.getLastFocused({ windowTypes: ['normal'] })
+    const tab = await chrome.tabs.create({ url, windowId: window.id, active: true })
+    if (tab.id === undefined) {
+      throw new Error('Failed to open a new tab')
+    }
+    return toTabInfo(url ? await waitForTabLoad(tab.id) : tab)
+  }
+
+  async switchTab(id: string): Promise<void> {
+    const tab = await chrome.tabs.update(parseTabId(id), { active: true })
+    if (tab?.status === 'loading' && tab.id !== undefined) {
+      await waitForTabLoad(tab.id)
+    }
+  }
+
+  async closeTab(id: string): Promise<void> {
+    await chrome.tabs.remove(parseTabId(id))
+  }
+
+  /**
+   * Requests of the tab later commands act on
+   */
+  async getRequests(): Promise<BTCPNetworkRequest[]> {
+    const tab = await getActiveTab()
+    const requests = await chrome.runtime.sendMessage({ type: 'network:getRequests', payload: { tabId: tab.id } })
+    if (!Array.isArray(requests)) {
+      throw new Error(requests?.error || 'Failed to read tracked requests')
+    }
+    return requests
+  }
+
+  async clearRequests(): Promise<void> {
+    await chrome.runtime.sendMessage({ type: 'network:clear' })
+  }
+
+  /**
+   * The background only records requests while tracking is on
+   */
+  async setRequestTracking(enabled: boolean): Promise<void> {
+    await chrome.runtime.sendMessage({ type: 'network:setTracking', payload: { enabled } })
+  }
+
+  /**
+   * Send a command and unwrap the response data, throwing on failure
+   */
+  private async request(command: CommandInput): Promise<unknown> {
+    const response = await this.send({ ...command, id: generateCommandId() } as BTCPCommand)
+    if (!response.success) {
+      throw new Error(response.error || `Browser command failed: ${command.action}`)
+    }
+    return response.data
+  }
+
+  private async send(command: BTCPCommand): Promise<Response> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Browser command timed out after ${COMMAND_TIMEOUT_MS}ms: ${command.action}`)),
+        COMMAND_TIMEOUT_MS
+      )
+    })
+    const message = chrome.runtime.sendMessage({ type: 'aspect:command', command }).then((reply) => {
+      if (!reply?.response) {
+        throw new Error(reply?.error || 'No response from content script. Reload the page and try again.')
+      }
+      return reply.response as Response
+    })
+
+    try {
+      return await Promise.race([message, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * ContentAgent responses carry either the bare value or an object keyed by field name
+ */
+function pickField<T>(data: unknown, field: string): T {
+  if (data && typeof data === 'object' && field in data) {
+    return (data as Record<string, unknown>)[field] as T
+  }
+  return data as T
+}
+
+/**
+ * Active tab of the browser window the user works in (not the extension popup window)
+ */
+async function getActiveTab(): Promise<chrome.tabs.Tab> {
+  const window = await chrome.windows.getLastFocused({ windowTypes: ['normal'] })
+  const [tab] = await chrome.tabs.query({ active: true, windowId: window.id })
+  if (tab?.id === undefined) {
+    throw new Error('No active tab')
+  }
+  return tab
+}
+
+function toTabInfo(tab: chrome.tabs.Tab): BTCPTabInfo {
+  return { id: String(tab.id), url: tab.url ?? tab.pendingUrl ?? '', title: tab.title ?? '', active: tab.active }
+}
+
+function parseTabId(id: string): number {
+  const tabId = Number(id)
+  if (!Number.isInteger(tabId)) {
+    throw new Error(`Invalid tab id: ${id}`)
+  }
+  return tabId
+}
+
+/**
+ * Resolve once the tab finished loading, so its content script can answer commands
+ */
+function waitForTabLoad(tabId: number): Promise<chrome.tabs.Tab> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(listener)
+    }
+    const timer = setTimeout(() => {
+      cleanup()
+      reject(new Error(`Tab did not finish loading within ${COMMAND_TIMEOUT_MS}ms`))
+    }, COMMAND_TIMEOUT_MS)
+
+    const listener = (updatedId: number, changeInfo: { status?: string }, tab: chrome.tabs.Tab) => {
+      if (updatedId !== tabId || changeInfo.status !== 'complete') return
+      cleanup()
+      resolve(tab)
+    }
+    chrome.tabs.onUpdated.addListener(listener)
+
+    // The tab may have finished before the listener was added
+    chrome.tabs.get(tabId).then(
+      (tab) => {
+        if (tab.status === 'complete') listener(tabId, { status: 'complete' }, tab)
+      },
+      (error) => {
+        cleanup()
+        reject(error)
+      }
+    )
+  })
+}
@@ -6,6 +6,7 @@
  * - "Open Full App" button to open in separate window
  * - No sidebar tabs (topics accessed via ChatNavbar)
  * - Compact layout optimized for sidepanel width
+ * - Context menu / popup requests (pendingAction) sent to the active assistant
  */
 
 import { useAssistants } from '@renderer/hooks/useAssistant'
@@ -16,6 +17,8 @@ import { ExternalLink } from 'lucide-react'
 import { Component, useCallback, useState } from 'react'
 import styled from 'styled-components'
 
+import { usePendingAction } from './pendingAction'
+
 // Custom error boundary for better debugging
 class DebugErrorBoundary extends Component<{ children: React.ReactNode }, { hasError: boolean; error: Error | null }> {
   constructor(props: { children: React.ReactNode }) {
@@ -60,6 +63,8 @@ export default function MinimalChat() {
   const [activeAssistant, setActiveAssistantState] = useState<Assistant | undefined>(assistants[0])
   const { activeTopic, setActiveTopic: _setActiveTopic } = useActiveTopic(activeAssistant?.id ?? '')
 
+  usePendingAction(activeAssistant, activeTopic)
+
   const setActiveAssistant = useCallback(
     (newAssistant: Assistant) => {
       if (newAssistant.id === activeAssistant?.id) return
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+
+import { cosineSimilarity, hybridScore, keywordScore } from '../embeddings'
+
+describe('cosineSimilarity', () => {
+  it('scores identical directions 1 and opposite directions -1', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1)
+  })
+
+  it('scores orthogonal vectors 0', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+  })
+
+  it('scores zero vectors and vectors of different lengths 0', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0)
+  })
+})
+
+describe('keywordScore', () => {
+  it('is the fraction of query terms found in the text', () => {
+    expect(keywordScore('browser extension', 'The Chrome extension')).toBe(0.5)
+    expect(keywordScore('Chrome Extension', 'the chrome extension')).toBe(1)
+  })
+
+  it('counts repeated query terms once', () => {
+    expect(keywordScore('cat cat dog', 'a cat')).toBe(0.5)
+  })
+
+  it('matches terms in any script', () => {
+    expect(keywordScore('知识库 search', '扩展的知识库')).toBe(0.5)
+  })
+
+  it('scores queries without terms 0', () => {
+    expect(keywordScore('  ?! ', 'anything')).toBe(0)
+  })
+})
+
+describe('hybridScore', () => {
+  it('blends cosine similarity with the keyword score', () => {
+    expect(hybridScore('chrome', [1, 0], 'chrome', [1, 0])).toBeCloseTo(1)
+    expect(hybridScore('chrome', [1, 0], 'firefox', [1, 0])).toBeCloseTo(0.7)
+    expect(hybridScore('chrome', [1, 0], 'chrome', [0, 1])).toBeCloseTo(0.3)
+  })
+})
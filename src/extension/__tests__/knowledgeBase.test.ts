@@ -0,0 +1,73 @@
+import type { FileMetadata, KnowledgeBaseParams, KnowledgeItem } from '@renderer/types'
+import { describe, expect, it } from 'vitest'
+
+import { chunkText, ExtensionKnowledgeBase } from '../knowledgeBase'
+
+describe('chunkText', () => {
+  it('returns short text as a single chunk', () => {
+    expect(chunkText('Hello world', 100, 0)).toEqual(['Hello world'])
+  })
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkText(' \n\n\t ', 100, 0)).toEqual([])
+  })
+
+  it('splits on paragraphs before lines and words', () => {
+    const text = 'First paragraph here.\n\nSecond paragraph here.'
+    expect(chunkText(text, 30, 0)).toEqual(['First paragraph here.', 'Second paragraph here.'])
+  })
+
+  it('falls back to words and characters for long runs', () => {
+    const chunks = chunkText('alpha beta gamma delta', 11, 0)
+    expect(chunks).toEqual(['alpha beta', 'gamma delta'])
+
+    expect(chunkText('abcdefghij', 4, 0)).toEqual(['abcd', 'efgh', 'ij'])
+  })
+
+  it('keeps every chunk within the chunk size', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} of the text.`).join(' ')
+    const chunks = chunkText(text, 120, 20)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => chunk.length <= 120)).toBe(true)
+  })
+
+  it('repeats the end of a chunk at the start of the next with an overlap', () => {
+    const [first, second] = chunkText('one two three four five six', 14, 5)
+    expect(first).toBe('one two three')
+    expect(second.startsWith(first.slice(-5))).toBe(true)
+  })
+
+  it('normalizes line endings and whitespace', () => {
+    expect(chunkText('a\r\nb\t\t c\n\n\n\nd', 100, 0)).toEqual(['a\nb c\n\nd'])
+  })
+})
+
+describe('ExtensionKnowledgeBase', () => {
+  const base = { id: 'base', embedApiClient: {} } as KnowledgeBaseParams
+  const fileItem = (ext: string): KnowledgeItem =>
+    ({
+      id: 'item',
+      type: 'file',
+      content: { id: 'file', name: `file${ext}`, ext } as FileMetadata
+    }) as KnowledgeItem
+  // jsdom's Blob has no text()
+  const readFile = (content: string) => async () => ({ blob: { type: '', text: async () => content } as Blob })
+
+  it('rejects files that are not text or HTML', async () => {
+    const knowledgeBase = new ExtensionKnowledgeBase(readFile('PK\u0003\u0004'))
+
+    const result = await knowledgeBase.add({ base, item: fileItem('.zip') })
+
+    expect(result.status).toBe('failed')
+    expect(result.message).toContain('Unsupported file type in the browser extension: .zip')
+  })
+
+  it('rejects binary content with a text extension', async () => {
+    const knowledgeBase = new ExtensionKnowledgeBase(readFile('\u0000\u0001binary'))
+
+    const result = await knowledgeBase.add({ base, item: fileItem('.txt') })
+
+    expect(result.status).toBe('failed')
+    expect(result.message).toContain('file.txt is not a text file')
+  })
+})
@@ -2,20 +2,107 @@
  * Chrome Extension Background Service Worker
  *
  * Handles:
- * - MCP server connections (HTTP/SSE only)
+ * - MCP server connections (Streamable HTTP/SSE only)
  * - BTCP browser tool command routing (via setupMessageListener)
+ * - Network request tracking for the browser network tools
+ * - Page capture for "Chat with this page"
+ * - Selection toolbar actions and side panel hand-off
  * - Context menu actions
  * - Keyboard shortcuts
  * - Storage sync
+ * - WebDAV and S3 backups
  */
 
+import type { MCPServer, S3Config } from '@renderer/types'
 import { setupMessageListener } from 'btcp-browser-agent/extension'
 
+import { ExtensionMCPClientManager } from './mcpClient'
+import { ExtensionS3Storage } from './s3Storage'
+
 // Set up BTCP message routing (handles aspect:command messages)
 setupMessageListener()
 
-// MCP client connections (HTTP/SSE only - no stdio in extensions)
-const mcpClients = new Map<string, { url: string; transport: 'sse' | 'http' }>()
+// Network requests of all tabs, oldest first; read by ExtensionBrowserAgent through 'network:*' messages
+interface TrackedRequest {
+  id: string
+  tabId: number
+  url: string
+  method: string
+  status?: number
+  resourceType: string
+  mimeType?: string
+  timestamp: number
+  duration?: number
+  error?: string
+}
+
+const MAX_TRACKED_REQUESTS = 500
+const TRACKING_ENABLED_KEY = 'networkTrackingEnabled'
+const trackedRequests = new Map<string, TrackedRequest>()
+
+// Off until an agent with request tracking launches; kept in session storage across service worker restarts
+let trackingEnabled = false
+chrome.storage.session.get(TRACKING_ENABLED_KEY).then((result) => {
+  trackingEnabled = result[TRACKING_ENABLED_KEY] === true
+})
+
+chrome.webRequest.onBeforeRequest.addListener(
+  (details) => {
+    if (!trackingEnabled || details.tabId < 0) return
+    trackedRequests.set(details.requestId, {
+      id: details.requestId,
+      tabId: details.tabId,
+      url: details.url,
+      method: details.method,
+      resourceType: details.type === 'xmlhttprequest' ? 'xhr' : details.type,
+      timestamp: details.timeStamp
+    })
+    // Maps iterate in insertion order, so the first key is the oldest request
+    if (trackedRequests.size > MAX_TRACKED_REQUESTS) {
+      trackedRequests.delete(trackedRequests.keys().next().value as string)
+    }
+  },
+  { urls: ['<all_urls>'] }
+)
+
+chrome.webRequest.onCompleted.addListener(
+  (details) => {
+    const request = trackedRequests.get(details.requestId)
+    if (!request) return
+    request.status = details.statusCode
+    request.duration = details.timeStamp - request.timestamp
+    request.mimeType = details.responseHeaders
+      ?.find((header) => header.name.toLowerCase() === 'content-type')
+      ?.value?.split(';')[0]
+  },
+  { urls: ['<all_urls>'] },
+  ['responseHeaders']
+)
+
+chrome.webRequest.onErrorOccurred.addListener(
+  (details) => {
+    const request = trackedRequests.get(details.requestId)
+    if (!request) return
+    request.error = details.error
+    request.duration = details.timeStamp - request.timestamp
+  },
+  { urls: ['<all_urls>'] }
+)
+
+// MCP clients (Streamable HTTP/SSE only - no stdio in extensions)
+const mcpClients = new ExtensionMCPClientManager()
+
+// S3 backups of the extension are JSON, not the desktop zip; their own names keep the two apart in a shared bucket
+const S3_BACKUP_PREFIX = 'cherry-studio-extension.'
+
+/**
+ * Extension backup name for the requested one: `cherry-studio.<ts>.<host>.<device>.zip`
+ * becomes `cherry-studio-extension.<ts>.<host>.<device>.json`
+ */
+const toS3BackupName = (fileName = `${Date.now()}`) =>
+  `${S3_BACKUP_PREFIX}${fileName.replace(/^cherry-studio(-extension)?\./, '').replace(/\.(zip|json)$/, '')}.json`
+
+const isS3Backup = (fileName: string) => fileName.startsWith(S3_BACKUP_PREFIX) && fileName.endsWith('.json')
 
 // Initialize extension
 chrome.runtime.onInstalled.addListener(() => {
@@ -118,6 +205,14 @@ chrome.commands.onCommand.addListener(async (command) => {
       })
       await chrome.sidePanel.open({ tabId: tab.id })
     }
+  } else if (command === 'show_selection_toolbar') {
+    // 'shortcut' trigger mode of the selection toolbar
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (tab?.id) {
+      chrome.tabs.sendMessage(tab.id, { type: 'selection:showToolbar' }).catch(() => {
+        // No content script on this page (e.g. chrome:// pages)
+      })
+    }
   } else if (command === 'open_window') {
     // Window access via keyboard shortcut or icon click
     await chrome.windows.create({
@@ -132,6 +227,11 @@ chrome.commands.onCommand.addListener(async (command) => {
 
 // Message handler for renderer communication
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // BTCP commands are answered by setupMessageListener(); don't race it with an error response
+  if (message?.type === 'aspect:command') {
+    return false
+  }
+
   handleMessage(message, sender)
     .then(sendResponse)
     .catch((error) => {
@@ -146,7 +246,7 @@ interface Message {
   payload?: unknown
 }
 
-async function handleMessage(message: Message, _sender: chrome.runtime.MessageSender): Promise<unknown> {
+async function handleMessage(message: Message, sender: chrome.runtime.MessageSender): Promise<unknown> {
   const { type, payload } = message
 
   // Note: BTCP commands (aspect:command) are handled by setupMessageListener() from btcp-browser-agent
@@ -165,66 +265,46 @@ async function handleMessage(message: Message, _sender: chrome.runtime.MessageSe
       return { success: true }
     }
 
-    // MCP operations (HTTP/SSE only)
+    // MCP operations (Streamable HTTP/SSE only); failures are thrown and answered as { error }
     case 'mcp:connect': {
-      const server = payload as { id: string; url: string; transport: 'sse' | 'http' }
-      if (server.transport === 'stdio') {
-        return { error: 'stdio transport not supported in Chrome extension' }
-      }
-      mcpClients.set(server.id, { url: server.url, transport: server.transport || 'http' })
+      await mcpClients.connect(payload as MCPServer)
       return { success: true }
     }
 
     case 'mcp:disconnect': {
       const { serverId } = payload as { serverId: string }
-      mcpClients.delete(serverId)
+      await mcpClients.disconnect(serverId)
       return { success: true }
     }
 
-    case 'mcp:listTools': {
-      const { serverId } = payload as { serverId: string }
-      const client = mcpClients.get(serverId)
-      if (!client) {
-        return { error: 'Server not connected' }
-      }
+    case 'mcp:listTools':
+      return mcpClients.listTools((payload as { server: MCPServer }).server)
 
-      try {
-        const response = await fetch(`${client.url}/tools/list`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ jsonrpc: '2.0', method: 'tools/list', id: Date.now() })
-        })
-        const data = await response.json()
-        return data.result?.tools || []
-      } catch (error) {
-        return { error: (error as Error).message }
-      }
+    case 'mcp:callTool':
+      return mcpClients.callTool(payload as { server: MCPServer; name: string; args: unknown; callId?: string })
+
+    case 'mcp:abortTool': {
+      const { callId } = payload as { callId: string }
+      return mcpClients.abortTool(callId)
     }
 
-    case 'mcp:callTool': {
-      const { serverId, name, args } = payload as { serverId: string; name: string; args: unknown }
-      const client = mcpClients.get(serverId)
-      if (!client) {
-        return { error: 'Server not connected' }
-      }
+    case 'mcp:listPrompts':
+      return mcpClients.listPrompts((payload as { server: MCPServer }).server)
 
-      try {
-        const response = await fetch(`${client.url}/tools/call`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'tools/call',
-            params: { name, arguments: args },
-            id: Date.now()
-          })
-        })
-        const data = await response.json()
-        return data.result
-      } catch (error) {
-        return { error: (error as Error).message }
-      }
-    }
+    case 'mcp:getPrompt':
+      return mcpClients.getPrompt(payload as { server: MCPServer; name: string; args?: Record<string, any> })
+
+    case 'mcp:listResources':
+      return mcpClients.listResources((payload as { server: MCPServer }).server)
+
+    case 'mcp:getResource':
+      return mcpClients.getResource(payload as { server: MCPServer; uri: string })
+
+    case 'mcp:checkConnectivity':
+      return mcpClients.checkConnectivity((payload as { server: MCPServer }).server)
+
+    case 'mcp:getServerVersion':
+      return mcpClients.getServerVersion((payload as { server: MCPServer }).server)
 
     // Backup operations
     case 'backup:webdav': {
@@ -314,9 +394,119 @@ async function handleMessage(message: Message, _sender: chrome.runtime.MessageSe
     }
 
     case 'backup:s3': {
-      // S3 operations would need AWS SDK or direct API calls
-      // For MVP, return not implemented
-      return { error: 'S3 backup not yet implemented in extension' }
+      const { action, config, data, fileName } = payload as {
+        action: string
+        config: S3Config
+        data?: string
+        fileName?: string
+      }
+      const storage = new ExtensionS3Storage(config)
+
+      switch (action) {
+        case 'check':
+          return storage.checkConnection()
+
+        case 'backup': {
+          if (!data) return { error: 'No data provided' }
+          await storage.putFileContents(toS3BackupName(config.fileName), data)
+          return true
+        }
+
+        case 'restore': {
+          if (!config.fileName || !isS3Backup(config.fileName)) {
+            throw new Error(`Not an extension backup: ${config.fileName ?? 'no file selected'}`)
+          }
+          return storage.getFileContents(config.fileName)
+        }
+
+        case 'list': {
+          const objects = await storage.listFiles()
+          return objects
+            .map((object) => ({
+              fileName: object.key.split('/').pop() as string,
+              modifiedTime: object.lastModified || '',
+              size: object.size
+            }))
+            .filter((file) => isS3Backup(file.fileName))
+            .sort((a, b) => new Date(b.modifiedTime).getTime() - new Date(a.modifiedTime).getTime())
+        }
+
+        case 'delete':
+          if (!fileName) return { error: 'No filename provided' }
+          if (!isS3Backup(fileName)) return { error: `Not an extension backup: ${fileName}` }
+          await storage.deleteFile(fileName)
+          return { success: true }
+
+        default:
+          return { error: 'Unknown action' }
+      }
+    }
+
+    // Network tracking
+    case 'network:getRequests': {
+      const { tabId } = payload as { tabId: number }
+      return Array.from(trackedRequests.values())
+        .filter((request) => request.tabId === tabId)
+        .map((request) => {
+          const copy: Partial<TrackedRequest> = { ...request }
+          delete copy.tabId
+          return copy
+        })
+    }
+
+    case 'network:clear': {
+      trackedRequests.clear()
+      return { success: true }
+    }
+
+    case 'network:setTracking': {
+      const { enabled } = payload as { enabled: boolean }
+      trackingEnabled = enabled
+      await chrome.storage.session.set({ [TRACKING_ENABLED_KEY]: enabled })
+      if (!enabled) {
+        trackedRequests.clear()
+      }
+      return { success: true }
+    }
+
+    // Page capture for "Chat with this page"; the content script extracts, the screenshot is taken here
+    case 'page:capture': {
+      const { screenshot } = (payload ?? {}) as { screenshot?: boolean }
+      const window = await chrome.windows.getLastFocused({ windowTypes: ['normal'] })
+      const [tab] = await chrome.tabs.query({ active: true, windowId: window.id })
+      if (tab?.id === undefined) {
+        throw new Error('No active tab')
+      }
+
+      const capture = await chrome.tabs.sendMessage(tab.id, { type: 'page:capture' }).catch(() => undefined)
+      if (!capture) {
+        throw new Error('No response from content script. Reload the page and try again.')
+      }
+      if (capture.error) {
+        throw new Error(capture.error)
+      }
+      if (screenshot) {
+        capture.screenshot = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' })
+      }
+      return capture
+    }
+
+    // Selection toolbar (content script); the overlay page reads the action from session storage
+    case 'selection:action': {
+      const id = crypto.randomUUID()
+      await chrome.storage.session.set({ [`selectionAction:${id}`]: payload })
+      return { id }
+    }
+
+    case 'selection:handoff': {
+      // Opened before any await, while the toolbar click still counts as a user gesture
+      if (sender.tab?.id !== undefined) {
+        chrome.sidePanel.open({ tabId: sender.tab.id }).catch((error) => {
+          console.warn('Failed to open side panel:', error)
+        })
+      }
+      await chrome.storage.session.set({ pendingAction: payload })
+      return { success: true }
     }
 
     // Config operations
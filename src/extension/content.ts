@@ -7,43 +7,42 @@
 
 import { createContentAgent } from 'btcp-browser-agent/extension'
 
+import { extractPage } from './pageExtractor'
+import { SelectionToolbar } from './selectionToolbar'
+
+// =============================================================================
+// PAGE CAPTURE
+// =============================================================================
+
+// "Chat with this page": answered synchronously, before the ContentAgent sees the message
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.type !== 'page:capture') return false
+
+  try {
+    sendResponse(extractPage())
+  } catch (error) {
+    sendResponse({ error: (error as Error).message })
+  }
+  return false
+})
+
 // Create agent and register message handler per USAGE.md
 const agent = createContentAgent()
 chrome.runtime.onMessage.addListener(agent.handleMessage)
 
 // =============================================================================
-// TEXT SELECTION TRACKING
+// SELECTION TOOLBAR
 // =============================================================================
 
-/**
- * Notify extension of text selection (optional feature)
- */
-let selectionTimeout: ReturnType<typeof setTimeout> | null = null
+const selectionToolbar = new SelectionToolbar()
+void selectionToolbar.init()
 
-document.addEventListener('mouseup', () => {
-  // Debounce selection events
-  if (selectionTimeout) {
-    clearTimeout(selectionTimeout)
+// 'shortcut' trigger mode: the background relays the extension command
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === 'selection:showToolbar') {
+    selectionToolbar.showForSelection()
   }
-
-  selectionTimeout = setTimeout(() => {
-    const selection = window.getSelection()
-    const text = selection?.toString().trim()
-
-    if (text && text.length > 10 && text.length < 5000) {
-      // Only notify for meaningful selections
-      chrome.runtime
-        .sendMessage({
-          type: 'textSelected',
-          text,
-          url: window.location.href,
-          title: document.title
-        })
-        .catch(() => {
-          // Extension context may be invalidated, ignore
-        })
-    }
-  }, 300)
+  return false
 })
 
 // =============================================================================
@@ -0,0 +1,165 @@
+/**
+ * Desktop Companion
+ *
+ * Connects the extension to a Cherry Studio desktop app running on the same machine, through
+ * the desktop's API server. window.api.apiServer manages the connection instead of a local
+ * server: starting it discovers the desktop on localhost and checks the API key copied from
+ * the desktop's API server settings. While connected:
+ *
+ * - agent sessions use the desktop API (the renderer's AgentApiClient reads the same settings)
+ * - stdio and built-in MCP servers are reached through the desktop's MCP endpoints
+ * - knowledge bases indexed by the desktop are searched there
+ *
+ * The connection is kept in chrome.storage.local so the background worker and every view share it.
+ */
+
+import type { MCPServer } from '@renderer/types'
+import type {
+  ApiServerConfig,
+  GetApiServerStatusResult,
+  RestartApiServerStatusResult,
+  StartApiServerStatusResult,
+  StopApiServerStatusResult
+} from '@renderer/types/apiServer'
+import { API_SERVER_DEFAULTS } from '@shared/config/constant'
+
+export const DESKTOP_COMPANION_KEY = 'desktopCompanion'
+
+// The desktop answers /health immediately; anything slower is not a local app
+const DISCOVERY_TIMEOUT = 2000
+
+export const desktopBaseUrl = (companion: ApiServerConfig) => `http://${companion.host}:${companion.port}`
+
+/**
+ * The connected desktop app, or null when the companion mode is off
+ */
+export async function getDesktopCompanion(): Promise<ApiServerConfig | null> {
+  const result = await chrome.storage.local.get(DESKTOP_COMPANION_KEY)
+  return (result[DESKTOP_COMPANION_KEY] as ApiServerConfig | undefined) ?? null
+}
+
+/**
+ * Call the desktop API; responses in the { success, data } envelope are unwrapped
+ */
+export async function desktopRequest<T>(companion: ApiServerConfig, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${desktopBaseUrl(companion)}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${companion.apiKey}`,
+      ...init.headers
+    }
+  })
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    const error = body?.error
+    throw new Error(typeof error === 'string' ? error : error?.message || `Desktop API error: ${response.status}`)
+  }
+  return body && typeof body === 'object' && 'success' in body ? body.data : body
+}
+
+const isDesktopRunning = async (host: string, port: number): Promise<boolean> => {
+  try {
+    const response = await fetch(`http://${host}:${port}/health`, { signal: AbortSignal.timeout(DISCOVERY_TIMEOUT) })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+/**
+ * MCP server config that reaches a desktop-only (stdio or built-in) server through the desktop API
+ */
+export async function resolveDesktopMcpServer(server: MCPServer): Promise<MCPServer> {
+  const companion = await getDesktopCompanion()
+  if (!companion) {
+    throw new Error(
+      `${server.type} MCP servers are not supported in the browser extension; connect to the desktop app to use them`
+    )
+  }
+
+  // Only active servers are listed; a server restored from a desktop backup keeps its id
+  const { servers } = await desktopRequest<{ servers: Record<string, { id: string; name: string }> }>(
+    companion,
+    '/v1/mcps'
+  )
+  const desktopServer = servers[server.id] ?? Object.values(servers).find((candidate) => candidate.name === server.name)
+  if (!desktopServer) {
+    throw new Error(`MCP server ${server.name} is not active in the desktop app`)
+  }
+
+  return {
+    ...server,
+    type: 'streamableHttp',
+    baseUrl: `${desktopBaseUrl(companion)}/v1/mcps/${desktopServer.id}/mcp`,
+    headers: { ...server.headers, Authorization: `Bearer ${companion.apiKey}` }
+  }
+}
+
+/**
+ * window.api.apiServer for the extension: "running" means connected to the desktop app
+ */
+export class ExtensionDesktopCompanion {
+  /**
+   * Find the desktop app (on the configured port, then the default one) and check the API key
+   */
+  private async connect(config: ApiServerConfig): Promise<ApiServerConfig> {
+    if (!config.apiKey) {
+      throw new Error('Copy the API key from the desktop app API server settings')
+    }
+
+    const host = config.host || API_SERVER_DEFAULTS.HOST
+    const ports = [...new Set([config.port || API_SERVER_DEFAULTS.PORT, API_SERVER_DEFAULTS.PORT])]
+    for (const port of ports) {
+      if (!(await isDesktopRunning(host, port))) continue
+
+      const companion: ApiServerConfig = { enabled: true, host, port, apiKey: config.apiKey }
+      // Any authenticated route checks the key
+      await desktopRequest(companion, '/v1/mcps')
+      await chrome.storage.local.set({ [DESKTOP_COMPANION_KEY]: companion })
+      return companion
+    }
+
+    throw new Error(`No Cherry Studio desktop app with the API server enabled was found on ${host}`)
+  }
+
+  getStatus = async (): Promise<GetApiServerStatusResult> => {
+    const companion = await getDesktopCompanion()
+    if (!companion) return { running: false, config: null }
+    return { running: await isDesktopRunning(companion.host, companion.port), config: companion }
+  }
+
+  start = async (): Promise<StartApiServerStatusResult> => {
+    try {
+      const companion = await this.connect(window.store.getState().settings.apiServer)
+      // Agent requests use the settings, so keep them on the port the desktop was found on
+      window.store.dispatch({ type: 'settings/setApiServerPort', payload: companion.port })
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  }
+
+  stop = async (): Promise<StopApiServerStatusResult> => {
+    await chrome.storage.local.remove(DESKTOP_COMPANION_KEY)
+    return { success: true }
+  }
+
+  restart = async (): Promise<RestartApiServerStatusResult> => {
+    await this.stop()
+    return this.start()
+  }
+
+  /**
+   * Called when a view connects, so the other views refresh their status
+   */
+  onReady = (callback: () => void): (() => void) => {
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[DESKTOP_COMPANION_KEY]?.newValue) {
+        callback()
+      }
+    }
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }
+}
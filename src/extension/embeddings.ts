@@ -0,0 +1,92 @@
+/**
+ * Extension Embeddings
+ *
+ * Embedding requests and scoring shared by the extension's knowledge base and memory store.
+ * Requests go straight to the provider with fetch, using the same endpoints as the desktop
+ * embedding clients.
+ */
+
+import type { ApiClient } from '@renderer/types'
+
+const EMBEDDING_BATCH_SIZE = 10
+// Share of the hybrid score that comes from keyword matches; the rest is cosine similarity
+const KEYWORD_WEIGHT = 0.3
+
+export const trimSlash = (url: string) => url.replace(/\/+$/, '')
+
+/**
+ * Embed the texts in batches, returning one vector per input
+ */
+export async function embedTexts(client: ApiClient, input: string[], dimensions?: number): Promise<number[][]> {
+  const { model, provider, apiKey, baseURL } = client
+  const vectors: number[][] = []
+
+  for (let i = 0; i < input.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = input.slice(i, i + EMBEDDING_BATCH_SIZE)
+    const isOllama = provider === 'ollama'
+    const url = isOllama
+      ? `${trimSlash(baseURL).replace(/\/api$/, '')}/api/embed`
+      : provider === 'voyageai'
+        ? 'https://api.voyageai.com/v1/embeddings'
+        : `${trimSlash(baseURL)}/embeddings`
+    const body = isOllama
+      ? { model, input: batch }
+      : provider === 'voyageai'
+        ? { model, input: batch, output_dimension: dimensions }
+        : { model, input: batch, dimensions, encoding_format: 'float' }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: HTTP ${response.status} ${await response.text().catch(() => '')}`)
+    }
+
+    const data = await response.json()
+    if (isOllama) {
+      vectors.push(...(data.embeddings as number[][]))
+    } else {
+      const items = [...(data.data as { index: number; embedding: number[] }[])].sort((a, b) => a.index - b.index)
+      vectors.push(...items.map((item) => item.embedding))
+    }
+  }
+
+  return vectors
+}
+
+/**
+ * Cosine similarity; vectors from different embedding models (different lengths) score 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+}
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+/**
+ * Fraction of the query terms that appear in the text
+ */
+export function keywordScore(query: string, text: string): number {
+  const terms = Array.from(new Set(tokenize(query)))
+  if (terms.length === 0) return 0
+  const content = text.toLowerCase()
+  return terms.filter((term) => content.includes(term)).length / terms.length
+}
+
+/**
+ * Cosine similarity blended with the keyword score
+ */
+export function hybridScore(query: string, queryVector: number[], text: string, vector: number[]): number {
+  return (1 - KEYWORD_WEIGHT) * cosineSimilarity(queryVector, vector) + KEYWORD_WEIGHT * keywordScore(query, text)
+}
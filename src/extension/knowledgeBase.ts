@@ -0,0 +1,361 @@
+/**
+ * Extension Knowledge Base
+ *
+ * Browser-side replacement for the desktop KnowledgeService behind window.api.knowledgeBase.
+ * Items are split into chunks, embedded with the base's embedding provider and stored with
+ * their vectors in IndexedDB. Search ranks chunks by cosine similarity blended with a
+ * keyword match score. Bases without local chunks, such as those restored from a desktop
+ * backup, are searched in the desktop app when the extension is connected to it.
+ */
+
+import { loggerService } from '@logger'
+import { DEFAULT_KNOWLEDGE_DOCUMENT_COUNT } from '@renderer/config/constant'
+import type { FileMetadata, KnowledgeBaseParams, KnowledgeItem, KnowledgeSearchResult } from '@renderer/types'
+import { textExts } from '@shared/config/constant'
+import type { LoaderReturn } from '@shared/config/types'
+
+import { desktopRequest, getDesktopCompanion } from './desktopCompanion'
+import { embedTexts, hybridScore, trimSlash } from './embeddings'
+
+const logger = loggerService.withContext('ExtensionKnowledgeBase')
+
+interface KnowledgeChunk {
+  id: string
+  baseId: string
+  uniqueId: string
+  pageContent: string
+  metadata: Record<string, unknown>
+  vector: number[]
+}
+
+interface LoadedDocument {
+  loaderType: string
+  source: string
+  text: string
+}
+
+type ReadFile = (id: string) => Promise<{ blob: Blob } | null>
+
+// Same defaults as the desktop loaders
+const DEFAULT_CHUNK_SIZE = 2000
+const DEFAULT_CHUNK_OVERLAP = 0
+
+const SEPARATORS = ['\n\n', '\n', '. ', ' ', '']
+
+const ERROR_LOADER_RETURN: LoaderReturn = {
+  entriesAdded: 0,
+  uniqueId: '',
+  uniqueIds: [''],
+  loaderType: '',
+  status: 'failed'
+}
+
+/**
+ * Split text into chunks of at most `chunkSize` characters, preferring paragraph,
+ * line, sentence and word boundaries in that order
+ */
+export function chunkText(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const split = (value: string, separators: string[]): string[] => {
+    if (value.length <= chunkSize) return [value]
+    const [separator, ...rest] = separators
+    const parts = separator ? value.split(separator) : Array.from(value)
+
+    const chunks: string[] = []
+    let current = ''
+    for (const part of parts) {
+      const piece = current ? separator + part : part
+      if ((current + piece).length <= chunkSize) {
+        current += piece
+        continue
+      }
+      if (current) chunks.push(current)
+      if (part.length > chunkSize) {
+        chunks.push(...split(part, rest))
+        current = ''
+      } else {
+        const overlap = chunkOverlap > 0 ? current.slice(-chunkOverlap) : ''
+        current = overlap && (overlap + separator + part).length <= chunkSize ? overlap + separator + part : part
+      }
+    }
+    if (current) chunks.push(current)
+    return chunks
+  }
+
+  const cleaned = text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+  return cleaned
+    ? split(cleaned, SEPARATORS)
+        .map((chunk) => chunk.trim())
+        .filter(Boolean)
+    : []
+}
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  doc.querySelectorAll('script, style, noscript, template, svg').forEach((element) => element.remove())
+  return doc.body?.innerText || doc.body?.textContent || ''
+}
+
+const hash = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, 32)
+}
+
+export class ExtensionKnowledgeBase {
+  private dbName = 'CherryStudioKnowledge'
+  private db: IDBDatabase | null = null
+
+  constructor(private readFile: ReadFile) {}
+
+  private async getDb(): Promise<IDBDatabase> {
+    if (this.db) return this.db
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        this.db = request.result
+        resolve(this.db)
+      }
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result
+        if (!db.objectStoreNames.contains('chunks')) {
+          const store = db.createObjectStore('chunks', { keyPath: 'id' })
+          store.createIndex('baseId', 'baseId')
+          store.createIndex('uniqueId', 'uniqueId')
+        }
+      }
+    })
+  }
+
+  private async getChunks(baseId: string): Promise<KnowledgeChunk[]> {
+    const db = await this.getDb()
+    return new Promise((resolve, reject) => {
+      const request = db.transaction('chunks', 'readonly').objectStore('chunks').index('baseId').getAll(baseId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private async putChunks(chunks: KnowledgeChunk[]): Promise<void> {
+    const db = await this.getDb()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('chunks', 'readwrite')
+      const store = tx.objectStore('chunks')
+      chunks.forEach((chunk) => store.put(chunk))
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  private async deleteWhere(indexName: 'baseId' | 'uniqueId', value: string, baseId?: string): Promise<void> {
+    const db = await this.getDb()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('chunks', 'readwrite')
+      const request = tx.objectStore('chunks').index(indexName).openCursor(IDBKeyRange.only(value))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        if (!baseId || (cursor.value as KnowledgeChunk).baseId === baseId) {
+          cursor.delete()
+        }
+        cursor.continue()
+      }
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  private async loadFile(file: FileMetadata): Promise<LoadedDocument> {
+    const ext = `.${file.ext.replace(/^\./, '')}`.toLowerCase()
+    const stored = await this.readFile(file.id)
+    if (!stored) throw new Error(`File not found: ${file.name}`)
+
+    if (ext === '.html' || ext === '.htm') {
+      return { loaderType: 'WebLoader', source: file.name, text: htmlToText(await stored.blob.text()) }
+    }
+    if (!textExts.includes(ext) && !stored.blob.type.startsWith('text/')) {
+      throw new Error(`Unsupported file type in the browser extension: ${ext}. Only text and HTML files can be added`)
+    }
+    const text = await stored.blob.text()
+    // A text extension or type doesn't guarantee text content: NUL characters only appear in binary data
+    if (text.includes('\0')) {
+      throw new Error(`${file.name} is not a text file. Only text and HTML files can be added`)
+    }
+    return { loaderType: 'TextLoader', source: file.name, text }
+  }
+
+  private async loadUrl(url: string): Promise<LoadedDocument> {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`)
+    const contentType = response.headers.get('content-type') || ''
+    const body = await response.text()
+    return { loaderType: 'WebLoader', source: url, text: contentType.includes('html') ? htmlToText(body) : body }
+  }
+
+  private async loadItem(item: KnowledgeItem): Promise<LoadedDocument | null> {
+    switch (item.type) {
+      case 'file':
+        return this.loadFile(item.content as FileMetadata)
+      case 'url':
+        return this.loadUrl(item.content as string)
+      case 'note': {
+        const sourceUrl = (item as KnowledgeItem & { sourceUrl?: string }).sourceUrl
+        return { loaderType: 'NoteLoader', source: sourceUrl || 'note', text: item.content as string }
+      }
+      default:
+        return null
+    }
+  }
+
+  create = async (base: KnowledgeBaseParams): Promise<void> => {
+    await this.getDb()
+    logger.debug(`Knowledge base ready: ${base.id}`)
+  }
+
+  reset = async (base: KnowledgeBaseParams): Promise<void> => {
+    await this.deleteWhere('baseId', base.id)
+  }
+
+  delete = async (id: string): Promise<void> => {
+    await this.deleteWhere('baseId', id)
+  }
+
+  add = async ({ base, item }: { base: KnowledgeBaseParams; item: KnowledgeItem }): Promise<LoaderReturn> => {
+    try {
+      const document = await this.loadItem(item)
+      if (!document) {
+        return { ...ERROR_LOADER_RETURN, message: 'Unsupported item type', messageSource: 'embedding' }
+      }
+
+      const uniqueId = `${document.loaderType}_${await hash(document.source + document.text)}`
+      const chunks = chunkText(
+        document.text,
+        base.chunkSize ?? DEFAULT_CHUNK_SIZE,
+        base.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP
+      )
+      const vectors = await embedTexts(base.embedApiClient, chunks, base.dimensions)
+
+      // Re-adding the same content replaces its chunks
+      await this.deleteWhere('uniqueId', uniqueId, base.id)
+      await this.putChunks(
+        chunks.map((pageContent, index) => ({
+          id: `${uniqueId}_${index}`,
+          baseId: base.id,
+          uniqueId,
+          pageContent,
+          metadata: { type: document.loaderType, source: document.source, uniqueLoaderId: uniqueId },
+          vector: vectors[index]
+        }))
+      )
+
+      logger.debug(`Added ${chunks.length} chunks to ${base.id} from ${document.source}`)
+      return { entriesAdded: chunks.length, uniqueId, uniqueIds: [uniqueId], loaderType: document.loaderType }
+    } catch (error) {
+      logger.error('Failed to add item:', error as Error)
+      return {
+        ...ERROR_LOADER_RETURN,
+        message: `Failed to add item: ${(error as Error).message}`,
+        messageSource: 'embedding'
+      }
+    }
+  }
+
+  remove = async ({ uniqueIds, base }: { uniqueId: string; uniqueIds: string[]; base: KnowledgeBaseParams }) => {
+    for (const id of uniqueIds) {
+      await this.deleteWhere('uniqueId', id, base.id)
+    }
+  }
+
+  search = async ({
+    search,
+    base
+  }: {
+    search: string
+    base: KnowledgeBaseParams
+  }): Promise<KnowledgeSearchResult[]> => {
+    if (!search.trim()) return []
+
+    const chunks = await this.getChunks(base.id)
+    if (chunks.length === 0) {
+      const companion = await getDesktopCompanion()
+      if (!companion) return []
+      return desktopRequest<KnowledgeSearchResult[]>(companion, '/v1/knowledge/search', {
+        method: 'POST',
+        body: JSON.stringify({ search, base })
+      })
+    }
+
+    const [queryVector] = await embedTexts(base.embedApiClient, [search], base.dimensions)
+    return chunks
+      .map((chunk) => ({
+        pageContent: chunk.pageContent,
+        score: hybridScore(search, queryVector, chunk.pageContent, chunk.vector),
+        metadata: chunk.metadata
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, base.documentCount ?? DEFAULT_KNOWLEDGE_DOCUMENT_COUNT)
+  }
+
+  /**
+   * Rerank with the base's rerank model, using the same request shapes as the desktop rerankers
+   */
+  rerank = async ({
+    search,
+    base,
+    results
+  }: {
+    search: string
+    base: KnowledgeBaseParams
+    results: KnowledgeSearchResult[]
+  }): Promise<KnowledgeSearchResult[]> => {
+    const client = base.rerankApiClient
+    if (results.length === 0 || !client?.model) return results
+
+    const documents = results.map((result) => result.pageContent)
+    const topN = base.documentCount ?? DEFAULT_KNOWLEDGE_DOCUMENT_COUNT
+    const baseURL = trimSlash(client.baseURL)
+    const url =
+      client.provider === 'bailian'
+        ? 'https://dashscope.aliyuncs.com/api/v1/services/rerank/text-rerank/text-rerank'
+        : `${baseURL.endsWith('/v1') ? baseURL : `${baseURL}/v1`}/rerank`
+    const isTei = client.provider.includes('tei')
+    const body =
+      client.provider === 'bailian'
+        ? { model: client.model, input: { query: search, documents }, parameters: { top_n: topN } }
+        : client.provider === 'voyageai'
+          ? { model: client.model, query: search, documents, top_k: topN }
+          : isTei
+            ? { query: search, texts: documents, return_text: true }
+            : { model: client.model, query: search, documents, top_n: topN }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${client.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    if (!response.ok) {
+      throw new Error(`Rerank request failed: HTTP ${response.status} ${await response.text().catch(() => '')}`)
+    }
+
+    const data = await response.json()
+    const ranked: { index: number; relevance_score?: number; score?: number }[] =
+      client.provider === 'bailian'
+        ? data.output.results
+        : client.provider === 'voyageai'
+          ? data.data
+          : isTei
+            ? data
+            : data.results
+
+    return ranked
+      .filter((entry) => results[entry.index])
+      .map((entry) => ({ ...results[entry.index], score: entry.relevance_score ?? entry.score ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+  }
+}
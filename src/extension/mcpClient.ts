@@ -0,0 +1,393 @@
+/**
+ * Extension MCP Client
+ *
+ * MCP clients for the background service worker, built on the MCP SDK like the desktop
+ * MCPService. Only remote servers are supported: Streamable HTTP, SSE, or (when the type is
+ * not set) Streamable HTTP falling back to SSE for older servers. OAuth runs through
+ * chrome.identity and the tokens are kept in chrome.storage.local. Stdio and built-in
+ * servers are reached through the desktop app when the extension is connected to it.
+ *
+ * The service worker can be stopped at any time, so every call carries the server config and
+ * the client is reconnected on demand.
+ */
+
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js'
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js'
+import {
+  ErrorCode,
+  type GetPromptResult,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import type {
+  GetResourceResponse,
+  MCPCallToolResponse,
+  MCPPrompt,
+  MCPResource,
+  MCPServer,
+  MCPTool
+} from '@renderer/types'
+import { buildFunctionCallToolName } from '@shared/mcp'
+import { defaultAppHeaders } from '@shared/utils'
+
+import { resolveDesktopMcpServer } from './desktopCompanion'
+
+type RemoteTransport = StreamableHTTPClientTransport | SSEClientTransport
+
+interface OAuthState {
+  clientInformation?: OAuthClientInformationFull
+  tokens?: OAuthTokens
+  codeVerifier?: string
+}
+
+// Same cache lifetimes as the desktop MCPService
+const TOOLS_TTL = 5 * 60 * 1000
+const PROMPTS_TTL = 60 * 60 * 1000
+const RESOURCES_TTL = 60 * 60 * 1000
+const DEFAULT_TIMEOUT = 60 * 1000
+const LONG_RUNNING_MAX_TIMEOUT = 10 * 60 * 1000
+
+/**
+ * OAuth client provider for the extension: the authorization page opens in a
+ * chrome.identity web auth flow and its redirect carries the authorization code.
+ */
+class ExtensionOAuthProvider implements OAuthClientProvider {
+  /**
+   * Authorization code from the last completed web auth flow
+   */
+  authorizationCode?: string
+
+  constructor(private serverId: string) {}
+
+  private get storageKey() {
+    return `mcp:oauth:${this.serverId}`
+  }
+
+  private async getState(): Promise<OAuthState> {
+    const result = await chrome.storage.local.get(this.storageKey)
+    return (result[this.storageKey] as OAuthState) ?? {}
+  }
+
+  private async setState(update: Partial<OAuthState>): Promise<void> {
+    await chrome.storage.local.set({ [this.storageKey]: { ...(await this.getState()), ...update } })
+  }
+
+  get redirectUrl(): string {
+    return chrome.identity.getRedirectURL('oauth/callback')
+  }
+
+  get clientMetadata() {
+    return {
+      redirect_uris: [this.redirectUrl],
+      token_endpoint_auth_method: 'none',
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      client_name: 'Cherry Studio',
+      client_uri: 'https://github.com/CherryHQ/cherry-studio'
+    }
+  }
+
+  async clientInformation(): Promise<OAuthClientInformation | undefined> {
+    return (await this.getState()).clientInformation
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationFull): Promise<void> {
+    await this.setState({ clientInformation })
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return (await this.getState()).tokens
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this.setState({ tokens })
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    const responseUrl = await chrome.identity.launchWebAuthFlow({ url: authorizationUrl.toString(), interactive: true })
+    const code = responseUrl && new URL(responseUrl).searchParams.get('code')
+    if (!code) {
+      throw new Error('OAuth authorization was cancelled or returned no code')
+    }
+    this.authorizationCode = code
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    await this.setState({ codeVerifier })
+  }
+
+  async codeVerifier(): Promise<string> {
+    const { codeVerifier } = await this.getState()
+    if (!codeVerifier) {
+      throw new Error('No code verifier saved')
+    }
+    return codeVerifier
+  }
+}
+
+const isMethodNotFound = (error: unknown) => error instanceof McpError && error.code === ErrorCode.MethodNotFound
+
+export class ExtensionMCPClientManager {
+  private clients = new Map<string, Client>()
+  private pendingClients = new Map<string, Promise<Client>>()
+  private cache = new Map<string, { value: unknown; expiresAt: number }>()
+  private activeToolCalls = new Map<string, AbortController>()
+
+  private async cached<T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key)
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T
+    }
+    const value = await load()
+    this.cache.set(key, { value, expiresAt: Date.now() + ttl })
+    return value
+  }
+
+  private clearCache(serverId: string, kind?: 'tools' | 'prompts' | 'resources') {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(kind ? `${serverId}:${kind}` : `${serverId}:`)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  private createTransport(server: MCPServer, type: 'sse' | 'streamableHttp', authProvider: OAuthClientProvider) {
+    if (!server.baseUrl) {
+      throw new Error('Only remote MCP servers (Streamable HTTP or SSE) are supported in the browser extension')
+    }
+    const options = {
+      requestInit: { headers: { ...defaultAppHeaders(), ...server.headers } },
+      authProvider
+    }
+    return type === 'sse'
+      ? new SSEClientTransport(new URL(server.baseUrl), options)
+      : new StreamableHTTPClientTransport(new URL(server.baseUrl), options)
+  }
+
+  /**
+   * Connect with the given transport type, completing the OAuth flow when the server asks for it
+   */
+  private async connectWith(
+    client: Client,
+    server: MCPServer,
+    type: 'sse' | 'streamableHttp',
+    authProvider: ExtensionOAuthProvider
+  ): Promise<void> {
+    const transport: RemoteTransport = this.createTransport(server, type, authProvider)
+    try {
+      await client.connect(transport)
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError) || !authProvider.authorizationCode) {
+        throw error
+      }
+      await transport.finishAuth(authProvider.authorizationCode)
+      authProvider.authorizationCode = undefined
+      await client.connect(this.createTransport(server, type, authProvider))
+    }
+  }
+
+  private async initClient(server: MCPServer): Promise<Client> {
+    const existing = this.clients.get(server.id)
+    if (existing) return existing
+
+    const pending = this.pendingClients.get(server.id)
+    if (pending) return pending
+
+    const initPromise = (async () => {
+      try {
+        // Local servers run in the desktop app, which serves them over Streamable HTTP
+        const target =
+          server.type === 'stdio' || server.type === 'inMemory' ? await resolveDesktopMcpServer(server) : server
+
+        const client = new Client(
+          { name: 'Cherry Studio', version: chrome.runtime.getManifest().version },
+          { capabilities: {} }
+        )
+        const authProvider = new ExtensionOAuthProvider(server.id)
+
+        if (target.type === 'sse' || target.type === 'streamableHttp') {
+          await this.connectWith(client, target, target.type, authProvider)
+        } else {
+          // Servers that predate Streamable HTTP only serve the SSE transport
+          try {
+            await this.connectWith(client, target, 'streamableHttp', authProvider)
+          } catch (error) {
+            if (error instanceof UnauthorizedError) throw error
+            console.warn(`[MCP] Streamable HTTP failed for ${server.name}, falling back to SSE`, error)
+            await this.connectWith(client, target, 'sse', authProvider)
+          }
+        }
+
+        client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+          this.clearCache(server.id, 'tools')
+        })
+        client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+          this.clearCache(server.id, 'prompts')
+        })
+        client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+          this.clearCache(server.id, 'resources')
+        })
+        client.onclose = () => {
+          this.clients.delete(server.id)
+          this.clearCache(server.id)
+        }
+
+        this.clients.set(server.id, client)
+        this.clearCache(server.id)
+        return client
+      } finally {
+        this.pendingClients.delete(server.id)
+      }
+    })()
+
+    this.pendingClients.set(server.id, initPromise)
+    return initPromise
+  }
+
+  connect = async (server: MCPServer): Promise<void> => {
+    await this.disconnect(server.id)
+    await this.initClient(server)
+  }
+
+  disconnect = async (serverId: string): Promise<void> => {
+    const client = this.clients.get(serverId)
+    this.clients.delete(serverId)
+    this.clearCache(serverId)
+    await client?.close()
+  }
+
+  listTools = (server: MCPServer): Promise<MCPTool[]> =>
+    this.cached(`${server.id}:tools`, TOOLS_TTL, async () => {
+      const client = await this.initClient(server)
+      const { tools } = await client.listTools()
+      return tools.map((tool) => ({
+        ...tool,
+        inputSchema: tool.inputSchema as MCPTool['inputSchema'],
+        outputSchema: tool.outputSchema as MCPTool['outputSchema'],
+        id: buildFunctionCallToolName(server.name, tool.name),
+        serverId: server.id,
+        serverName: server.name,
+        type: 'mcp' as const
+      }))
+    })
+
+  callTool = async ({
+    server,
+    name,
+    args,
+    callId
+  }: {
+    server: MCPServer
+    name: string
+    args: unknown
+    callId?: string
+  }): Promise<MCPCallToolResponse> => {
+    const toolCallId = callId || crypto.randomUUID()
+    const abortController = new AbortController()
+    this.activeToolCalls.set(toolCallId, abortController)
+
+    try {
+      let toolArgs = args
+      if (typeof toolArgs === 'string') {
+        toolArgs = toolArgs ? JSON.parse(toolArgs) : {}
+      }
+      const client = await this.initClient(server)
+      const result = await client.callTool({ name, arguments: toolArgs as Record<string, unknown> }, undefined, {
+        timeout: server.timeout ? server.timeout * 1000 : DEFAULT_TIMEOUT,
+        resetTimeoutOnProgress: server.longRunning,
+        maxTotalTimeout: server.longRunning ? LONG_RUNNING_MAX_TIMEOUT : undefined,
+        signal: abortController.signal
+      })
+      return result as MCPCallToolResponse
+    } finally {
+      this.activeToolCalls.delete(toolCallId)
+    }
+  }
+
+  abortTool = async (callId: string): Promise<boolean> => {
+    const controller = this.activeToolCalls.get(callId)
+    controller?.abort()
+    return !!controller
+  }
+
+  listPrompts = (server: MCPServer): Promise<MCPPrompt[]> =>
+    this.cached(`${server.id}:prompts`, PROMPTS_TTL, async () => {
+      const client = await this.initClient(server)
+      try {
+        const { prompts } = await client.listPrompts()
+        return prompts.map((prompt) => ({
+          ...prompt,
+          id: `p${crypto.randomUUID()}`,
+          serverId: server.id,
+          serverName: server.name
+        }))
+      } catch (error) {
+        if (isMethodNotFound(error)) return []
+        throw error
+      }
+    })
+
+  getPrompt = async ({
+    server,
+    name,
+    args
+  }: {
+    server: MCPServer
+    name: string
+    args?: Record<string, any>
+  }): Promise<GetPromptResult> => {
+    const client = await this.initClient(server)
+    return client.getPrompt({ name, arguments: args })
+  }
+
+  listResources = (server: MCPServer): Promise<MCPResource[]> =>
+    this.cached(`${server.id}:resources`, RESOURCES_TTL, async () => {
+      const client = await this.initClient(server)
+      try {
+        const { resources } = await client.listResources()
+        return resources.map((resource) => ({ ...resource, serverId: server.id, serverName: server.name }))
+      } catch (error) {
+        if (isMethodNotFound(error)) return []
+        throw error
+      }
+    })
+
+  getResource = async ({ server, uri }: { server: MCPServer; uri: string }): Promise<GetResourceResponse> => {
+    const client = await this.initClient(server)
+    const { contents } = await client.readResource({ uri })
+    return {
+      contents: contents.map((content) => ({
+        ...content,
+        name: content.uri,
+        serverId: server.id,
+        serverName: server.name
+      }))
+    }
+  }
+
+  checkConnectivity = async (server: MCPServer): Promise<boolean> => {
+    try {
+      const client = await this.initClient(server)
+      await client.ping()
+      return true
+    } catch (error) {
+      console.error(`[MCP] Connectivity check failed for ${server.name}:`, error)
+      return false
+    }
+  }
+
+  getServerVersion = async (server: MCPServer): Promise<string | null> => {
+    const client = await this.initClient(server)
+    return client.getServerVersion()?.version ?? null
+  }
+}
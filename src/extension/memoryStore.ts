@@ -0,0 +1,408 @@
+/**
+ * Extension Memory Store
+ *
+ * Browser-side replacement for the desktop MemoryService behind window.api.memory.
+ * Memories and their history live in IndexedDB. Like the desktop service, adding skips
+ * exact duplicates (by hash) and near duplicates (by embedding similarity), deleting is a
+ * soft delete that an identical add restores, and every change is recorded as history.
+ */
+
+import { loggerService } from '@logger'
+import type {
+  AddMemoryOptions,
+  AssistantMessage,
+  MemoryConfig,
+  MemoryHistoryItem,
+  MemoryItem,
+  MemoryListOptions,
+  MemorySearchOptions
+} from '@renderer/types'
+
+import { cosineSimilarity, embedTexts, hybridScore, keywordScore } from './embeddings'
+
+const logger = loggerService.withContext('ExtensionMemoryStore')
+
+interface MemoryRecord {
+  id: string
+  memory: string
+  hash: string
+  vector?: number[]
+  metadata?: Record<string, any>
+  userId?: string
+  agentId?: string
+  runId?: string
+  createdAt: string
+  updatedAt: string
+  isDeleted: boolean
+}
+
+interface HistoryRecord {
+  id?: number
+  memoryId: string
+  previousValue?: string
+  newValue?: string
+  action: 'ADD' | 'UPDATE' | 'DELETE'
+  createdAt: string
+  updatedAt: string
+  isDeleted: boolean
+}
+
+interface SearchResult {
+  memories: MemoryItem[]
+  count: number
+  error?: string
+}
+
+// Same thresholds as the desktop MemoryService
+const SIMILARITY_THRESHOLD = 0.85
+const SEARCH_THRESHOLD = 0.5
+const DEFAULT_USER_ID = 'default-user'
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error')
+
+const toMemoryItem = (record: MemoryRecord, score?: number): MemoryItem => ({
+  id: record.id,
+  memory: record.memory,
+  hash: record.hash,
+  metadata: record.metadata,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  ...(score !== undefined && { score })
+})
+
+const byNewest = (a: MemoryRecord, b: MemoryRecord) => b.createdAt.localeCompare(a.createdAt)
+
+export class ExtensionMemoryStore {
+  private dbName = 'CherryStudioMemory'
+  private db: IDBDatabase | null = null
+  private config: MemoryConfig | null = null
+
+  private async getDb(): Promise<IDBDatabase> {
+    if (this.db) return this.db
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        this.db = request.result
+        resolve(this.db)
+      }
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result
+        if (!db.objectStoreNames.contains('memories')) {
+          const store = db.createObjectStore('memories', { keyPath: 'id' })
+          store.createIndex('userId', 'userId')
+          store.createIndex('hash', 'hash')
+        }
+        if (!db.objectStoreNames.contains('history')) {
+          const store = db.createObjectStore('history', { keyPath: 'id', autoIncrement: true })
+          store.createIndex('memoryId', 'memoryId')
+        }
+      }
+    })
+  }
+
+  private async getRecords(filter: { userId?: string; agentId?: string } = {}): Promise<MemoryRecord[]> {
+    const db = await this.getDb()
+    const store = db.transaction('memories', 'readonly').objectStore('memories')
+    const records: MemoryRecord[] = await requestToPromise(
+      filter.userId ? store.index('userId').getAll(filter.userId) : store.getAll()
+    )
+    return records.filter((record) => !record.isDeleted && (!filter.agentId || record.agentId === filter.agentId))
+  }
+
+  private async getRecord(id: string): Promise<MemoryRecord | undefined> {
+    const db = await this.getDb()
+    return requestToPromise(db.transaction('memories', 'readonly').objectStore('memories').get(id))
+  }
+
+  /**
+   * Save a memory and append its history entry in one transaction
+   */
+  private async saveRecord(
+    record: MemoryRecord,
+    action: HistoryRecord['action'],
+    previousValue?: string
+  ): Promise<void> {
+    const db = await this.getDb()
+    const tx = db.transaction(['memories', 'history'], 'readwrite')
+    tx.objectStore('memories').put(record)
+    tx.objectStore('history').add({
+      memoryId: record.id,
+      previousValue,
+      newValue: action === 'DELETE' ? undefined : record.memory,
+      action,
+      createdAt: record.updatedAt,
+      updatedAt: record.updatedAt,
+      isDeleted: false
+    } satisfies HistoryRecord)
+    await transactionDone(tx)
+  }
+
+  private async deleteRecords(records: MemoryRecord[]): Promise<void> {
+    const db = await this.getDb()
+    const tx = db.transaction(['memories', 'history'], 'readwrite')
+    const history = tx.objectStore('history').index('memoryId')
+    for (const record of records) {
+      tx.objectStore('memories').delete(record.id)
+      const request = history.openCursor(IDBKeyRange.only(record.id))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        cursor.delete()
+        cursor.continue()
+      }
+    }
+    await transactionDone(tx)
+  }
+
+  /**
+   * Embedding for the text, or undefined when no embedding model is configured or the request fails
+   */
+  private async embed(text: string): Promise<number[] | undefined> {
+    const client = this.config?.embeddingApiClient
+    if (!this.config?.embeddingModel || !client) return undefined
+
+    try {
+      const [vector] = await embedTexts(client, [text], this.config.embeddingDimensions)
+      return vector
+    } catch (error) {
+      logger.error('Failed to generate embedding:', error as Error)
+      return undefined
+    }
+  }
+
+  add = async (messages: string | AssistantMessage[], options: AddMemoryOptions): Promise<SearchResult> => {
+    const { userId, agentId, runId, metadata } = options
+
+    try {
+      const memoryStrings = Array.isArray(messages)
+        ? messages.map((m) => (typeof m === 'string' ? m : m.content))
+        : [messages]
+      const addedMemories: MemoryItem[] = []
+      const db = await this.getDb()
+
+      for (const memory of memoryStrings) {
+        const trimmedMemory = memory.trim()
+        if (!trimmedMemory) continue
+
+        const hash = await sha256(trimmedMemory)
+        const sameHash: MemoryRecord[] = await requestToPromise(
+          db.transaction('memories', 'readonly').objectStore('memories').index('hash').getAll(hash)
+        )
+        const existing = sameHash.find((record) => record.userId === userId)
+        const now = new Date().toISOString()
+
+        if (existing && !existing.isDeleted) {
+          logger.debug(`Memory already exists with hash: ${hash}`)
+          continue
+        }
+
+        const vector = await this.embed(trimmedMemory)
+
+        if (existing) {
+          // Restore the deleted memory instead of inserting a new one
+          const restored = { ...existing, memory: trimmedMemory, vector, metadata, updatedAt: now, isDeleted: false }
+          await this.saveRecord(restored, 'ADD')
+          addedMemories.push(toMemoryItem(restored))
+          continue
+        }
+
+        if (vector) {
+          const candidates = await this.getRecords({ userId, agentId })
+          const highestSimilarity = Math.max(
+            0,
+            ...candidates.map((record) => (record.vector ? cosineSimilarity(vector, record.vector) : 0))
+          )
+          if (highestSimilarity >= SIMILARITY_THRESHOLD) {
+            logger.debug(`Skipping memory addition due to high similarity: ${highestSimilarity.toFixed(3)}`)
+            continue
+          }
+        }
+
+        const record: MemoryRecord = {
+          id: crypto.randomUUID(),
+          memory: trimmedMemory,
+          hash,
+          vector,
+          metadata,
+          userId,
+          agentId,
+          runId,
+          createdAt: now,
+          updatedAt: now,
+          isDeleted: false
+        }
+        await this.saveRecord(record, 'ADD')
+        addedMemories.push(toMemoryItem(record))
+      }
+
+      return { memories: addedMemories, count: addedMemories.length }
+    } catch (error) {
+      logger.error('Failed to add memories:', error as Error)
+      return { memories: [], count: 0, error: errorMessage(error) }
+    }
+  }
+
+  /**
+   * Hybrid search when an embedding model is configured, keyword search otherwise
+   */
+  search = async (query: string, options: MemorySearchOptions = {}): Promise<SearchResult> => {
+    const { limit = 10, userId, agentId, filters = {} } = options
+
+    try {
+      const records = (await this.getRecords({ userId, agentId })).filter((record) =>
+        Object.entries(filters).every(
+          ([key, value]) => value === undefined || value === null || record.metadata?.[key] === value
+        )
+      )
+
+      const queryVector = await this.embed(query)
+      const memories = queryVector
+        ? records
+            .map((record) => ({
+              record,
+              score: record.vector ? hybridScore(query, queryVector, record.memory, record.vector) : 0
+            }))
+            .filter(({ score }) => score >= SEARCH_THRESHOLD)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(({ record, score }) => toMemoryItem(record, score))
+        : records
+            .filter(
+              (record) =>
+                record.memory.toLowerCase().includes(query.toLowerCase()) || keywordScore(query, record.memory) === 1
+            )
+            .sort(byNewest)
+            .slice(0, limit)
+            .map((record) => toMemoryItem(record))
+
+      return { memories, count: memories.length }
+    } catch (error) {
+      logger.error('Search failed:', error as Error)
+      return { memories: [], count: 0, error: errorMessage(error) }
+    }
+  }
+
+  list = async (options: MemoryListOptions = {}): Promise<SearchResult> => {
+    const { userId, agentId, limit = 100, offset = 0 } = options
+
+    try {
+      const records = (await this.getRecords({ userId, agentId })).sort(byNewest)
+      return {
+        memories: records.slice(offset, offset + limit).map((record) => toMemoryItem(record)),
+        count: records.length
+      }
+    } catch (error) {
+      logger.error('List failed:', error as Error)
+      return { memories: [], count: 0, error: errorMessage(error) }
+    }
+  }
+
+  delete = async (id: string): Promise<void> => {
+    const record = await this.getRecord(id)
+    if (!record || record.isDeleted) {
+      throw new Error('Failed to delete memory: Memory not found')
+    }
+    await this.saveRecord({ ...record, isDeleted: true, updatedAt: new Date().toISOString() }, 'DELETE', record.memory)
+  }
+
+  update = async (id: string, memory: string, metadata?: Record<string, any>): Promise<void> => {
+    const record = await this.getRecord(id)
+    if (!record || record.isDeleted) {
+      throw new Error('Failed to update memory: Memory not found')
+    }
+
+    const trimmedMemory = memory.trim()
+    await this.saveRecord(
+      {
+        ...record,
+        memory: trimmedMemory,
+        hash: await sha256(trimmedMemory),
+        vector: await this.embed(trimmedMemory),
+        metadata: { ...record.metadata, ...metadata },
+        updatedAt: new Date().toISOString()
+      },
+      'UPDATE',
+      record.memory
+    )
+  }
+
+  /**
+   * History of a memory, newest first
+   */
+  get = async (memoryId: string): Promise<MemoryHistoryItem[]> => {
+    const db = await this.getDb()
+    const history: HistoryRecord[] = await requestToPromise(
+      db.transaction('history', 'readonly').objectStore('history').index('memoryId').getAll(memoryId)
+    )
+    return history
+      .filter((entry) => !entry.isDeleted)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((entry) => ({
+        id: entry.id!,
+        memoryId: entry.memoryId,
+        previousValue: entry.previousValue,
+        newValue: entry.newValue ?? '',
+        action: entry.action,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        isDeleted: entry.isDeleted
+      }))
+  }
+
+  setConfig = async (config: MemoryConfig): Promise<void> => {
+    this.config = config
+  }
+
+  /**
+   * Hard delete all memories of the user, including soft-deleted ones, and their history
+   */
+  deleteAllMemoriesForUser = async (userId: string): Promise<void> => {
+    if (!userId) {
+      throw new Error('User ID is required')
+    }
+    const db = await this.getDb()
+    const records: MemoryRecord[] = await requestToPromise(
+      db.transaction('memories', 'readonly').objectStore('memories').index('userId').getAll(userId)
+    )
+    await this.deleteRecords(records)
+    logger.debug(`Reset all memories for user ${userId} (${records.length} memories deleted)`)
+  }
+
+  deleteUser = async (userId: string): Promise<void> => {
+    if (userId === DEFAULT_USER_ID) {
+      throw new Error('Cannot delete the default user')
+    }
+    await this.deleteAllMemoriesForUser(userId)
+  }
+
+  getUsersList = async (): Promise<{ userId: string; memoryCount: number; lastMemoryDate: string }[]> => {
+    const users = new Map<string, { userId: string; memoryCount: number; lastMemoryDate: string }>()
+    for (const record of await this.getRecords()) {
+      if (!record.userId) continue
+      const user = users.get(record.userId) ?? { userId: record.userId, memoryCount: 0, lastMemoryDate: '' }
+      user.memoryCount += 1
+      if (record.createdAt > user.lastMemoryDate) user.lastMemoryDate = record.createdAt
+      users.set(record.userId, user)
+    }
+    return Array.from(users.values()).sort((a, b) => b.lastMemoryDate.localeCompare(a.lastMemoryDate))
+  }
+}
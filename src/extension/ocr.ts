@@ -0,0 +1,103 @@
+/**
+ * Extension OCR
+ *
+ * Browser-side replacement for the desktop OcrService behind window.api.ocr, with Tesseract as
+ * the only provider. tesseract.js runs in its own worker; the worker script, the WASM core and
+ * the language data are copied into the extension at build time, so OCR never reaches a CDN.
+ * Only the bundled languages can be recognized.
+ */
+
+import { loggerService } from '@logger'
+import type { ImageFileMetadata, OcrProvider, OcrResult, OcrTesseractConfig, SupportedOcrFile } from '@renderer/types'
+import { BuiltinOcrProviderIds, isImageFileMetadata } from '@renderer/types'
+import { MB } from '@shared/config/constant'
+import { isEqual } from 'lodash'
+import type Tesseract from 'tesseract.js'
+import type { LanguageCode } from 'tesseract.js'
+import { createWorker } from 'tesseract.js'
+
+const logger = loggerService.withContext('ExtensionOcr')
+
+// Same limits and defaults as the desktop TesseractService
+const MB_SIZE_THRESHOLD = 50
+const defaultLangs = ['chi_sim', 'chi_tra', 'eng'] satisfies LanguageCode[]
+
+// Copied by the extension build, see vite.config.extension.ts
+const TESSERACT_PATH = 'tesseract'
+const BUNDLED_LANGS: LanguageCode[] = ['chi_sim', 'chi_tra', 'eng']
+
+type ReadFile = (id: string) => Promise<{ blob: Blob } | null>
+
+export class ExtensionOcr {
+  private worker: Promise<Tesseract.Worker> | null = null
+  private workerLangs: LanguageCode[] = []
+
+  constructor(private readFile: ReadFile) {}
+
+  /**
+   * Worker for the configured languages, recreated when they change
+   */
+  private getWorker(options?: OcrTesseractConfig): Promise<Tesseract.Worker> {
+    const selected = Object.entries(options?.langs ?? {})
+      .filter(([, enabled]) => enabled)
+      .map(([lang]) => lang as LanguageCode)
+    const langs = selected.length > 0 ? selected : defaultLangs
+    const missing = langs.filter((lang) => !BUNDLED_LANGS.includes(lang))
+    if (missing.length > 0) {
+      return Promise.reject(
+        new Error(
+          `OCR languages not available in the extension: ${missing.join(', ')} (available: ${BUNDLED_LANGS.join(', ')})`
+        )
+      )
+    }
+
+    if (!this.worker || !isEqual(langs, this.workerLangs)) {
+      const previous = this.worker
+      this.workerLangs = langs
+      this.worker = createWorker(langs, undefined, {
+        workerPath: chrome.runtime.getURL(`${TESSERACT_PATH}/worker.min.js`),
+        corePath: chrome.runtime.getURL(TESSERACT_PATH),
+        langPath: chrome.runtime.getURL(`${TESSERACT_PATH}/lang`),
+        // A blob worker could not load the bundled core
+        workerBlobURL: false,
+        logger: (m) => logger.debug('From worker', m),
+        errorHandler: (e) => logger.error('Worker Error', e)
+      }).catch((error) => {
+        this.worker = null
+        throw error
+      })
+      previous?.then((worker) => worker.terminate()).catch(() => {})
+    }
+    return this.worker
+  }
+
+  private async loadImage(file: ImageFileMetadata): Promise<Blob> {
+    // Screenshots, such as those taken by browser_screenshot, may come as data URLs
+    if (file.path.startsWith('data:')) {
+      return fetch(file.path).then((response) => response.blob())
+    }
+    const stored = await this.readFile(file.id)
+    if (!stored) throw new Error(`File not found: ${file.name}`)
+    return stored.blob
+  }
+
+  ocr = async (file: SupportedOcrFile, provider: OcrProvider): Promise<OcrResult> => {
+    if (provider.id !== BuiltinOcrProviderIds.tesseract) {
+      throw new Error(`Provider ${provider.id} is not registered`)
+    }
+    if (!isImageFileMetadata(file)) {
+      throw new Error('Only image files are supported currently')
+    }
+
+    const image = await this.loadImage(file)
+    if (image.size > MB_SIZE_THRESHOLD * MB) {
+      throw new Error(`This image is too large (max ${MB_SIZE_THRESHOLD}MB)`)
+    }
+
+    const worker = await this.getWorker(provider.config as OcrTesseractConfig)
+    const result = await worker.recognize(image)
+    return { text: result.data.text }
+  }
+
+  listProviders = async (): Promise<string[]> => [BuiltinOcrProviderIds.tesseract]
+}
@@ -0,0 +1,110 @@
+/**
+ * Page Context
+ *
+ * "Chat with this page": asks the background worker to capture the active tab and turns
+ * the capture into attachments for the next message, a markdown file with the page
+ * metadata and content plus an optional screenshot. Token sizes are estimated with the
+ * TokenService so the user sees the cost before sending.
+ */
+
+import { estimateImageTokens, estimateTextTokens } from '@renderer/services/TokenService'
+import type { FileMetadata } from '@renderer/types'
+import { FileTypes } from '@renderer/types'
+
+import type { PageCapture } from './pageExtractor'
+
+export interface PageContext {
+  capture: PageCapture
+  files: FileMetadata[]
+  tokens: number
+}
+
+// File names are shown in the attachment preview; keep them readable
+const MAX_FILE_NAME_LENGTH = 60
+
+/**
+ * Capture the active tab of the browser window the user works in
+ */
+export async function capturePage(options: { screenshot?: boolean } = {}): Promise<PageCapture> {
+  const response = await chrome.runtime.sendMessage({ type: 'page:capture', payload: options })
+  if (!response || response.error) {
+    throw new Error(response?.error || 'Failed to capture the page')
+  }
+  return response as PageCapture
+}
+
+/**
+ * Markdown document for the capture: metadata first, then the selection and the page content
+ */
+export function formatPageCapture(capture: PageCapture): string {
+  const metadata = [
+    `URL: ${capture.url}`,
+    capture.siteName && `Site: ${capture.siteName}`,
+    capture.byline && `Author: ${capture.byline}`,
+    capture.publishedTime && `Published: ${capture.publishedTime}`,
+    capture.lang && `Language: ${capture.lang}`,
+    capture.excerpt && `Summary: ${capture.excerpt}`
+  ].filter(Boolean)
+
+  const sections = [`# ${capture.title || capture.url}`, metadata.join('\n')]
+  if (capture.selection) {
+    sections.push('## Selected text', capture.selection.replace(/^/gm, '> '))
+  }
+  sections.push('## Page content', capture.markdown)
+
+  return sections.join('\n\n')
+}
+
+const toFileName = (title: string) =>
+  title
+    .replace(/[\\/:*?"<>|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH) || 'page'
+
+/**
+ * Capture the page and store it as attachment files with estimated token counts
+ */
+export async function createPageContext(options: { screenshot?: boolean } = {}): Promise<PageContext> {
+  const capture = await capturePage(options)
+  const name = toFileName(capture.title)
+  const createdAt = new Date().toISOString()
+  const files: FileMetadata[] = []
+
+  // The renderer reads attachments as id + ext
+  const id = crypto.randomUUID()
+  const content = formatPageCapture(capture)
+  await window.api.file.writeWithId(`${id}.md`, content)
+  files.push({
+    id,
+    name: `${id}.md`,
+    origin_name: `${name}.md`,
+    path: `${id}.md`,
+    size: new Blob([content]).size,
+    ext: '.md',
+    type: FileTypes.TEXT,
+    created_at: createdAt,
+    count: 1,
+    tokens: estimateTextTokens(content)
+  })
+
+  if (capture.screenshot) {
+    // Stored under the bare id so the blob keeps its image type
+    const imageId: string = await window.api.file.saveBase64Image(capture.screenshot)
+    const { size } = await fetch(capture.screenshot).then((response) => response.blob())
+    const image: FileMetadata = {
+      id: imageId,
+      name: imageId,
+      origin_name: `${name}.png`,
+      path: imageId,
+      size,
+      ext: '',
+      type: FileTypes.IMAGE,
+      created_at: createdAt,
+      count: 1
+    }
+    files.push({ ...image, tokens: estimateImageTokens(image) })
+  }
+
+  return { capture, files, tokens: files.reduce((total, file) => total + (file.tokens ?? 0), 0) }
+}
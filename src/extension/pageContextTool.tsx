@@ -0,0 +1,82 @@
+/**
+ * Page Context Tool
+ *
+ * Inputbar tool for the extension: attaches the active tab ("Chat with this page") to the
+ * next message, optionally with a screenshot of the visible part of the page.
+ */
+
+import { loggerService } from '@logger'
+import { ActionIconButton } from '@renderer/components/Buttons'
+import { defineTool, registerTool, TopicType } from '@renderer/pages/home/Inputbar/types'
+import { Dropdown, Tooltip } from 'antd'
+import { FileText } from 'lucide-react'
+import { useCallback, useState } from 'react'
+
+import { createPageContext } from './pageContext'
+
+const logger = loggerService.withContext('PageContextTool')
+
+// Above this estimate the user is warned that the page takes a large share of the context
+const LARGE_PAGE_TOKENS = 32_000
+
+const pageContextTool = defineTool({
+  key: 'page_context',
+  label: (t) => t('chat.input.page_context.label'),
+
+  visibleInScopes: [TopicType.Chat],
+
+  dependencies: {
+    actions: ['setFiles'] as const
+  },
+
+  render: function PageContextToolRender(context) {
+    const { actions, t } = context
+    const [loading, setLoading] = useState(false)
+
+    const attachPage = useCallback(
+      async (screenshot: boolean) => {
+        setLoading(true)
+        try {
+          const { capture, files, tokens } = await createPageContext({ screenshot })
+          actions.setFiles((prevFiles) => [...prevFiles, ...files])
+
+          const title = capture.title || capture.url
+          if (tokens > LARGE_PAGE_TOKENS) {
+            window.toast.warning(t('chat.input.page_context.large', { title, tokens }))
+          } else {
+            window.toast.success(t('chat.input.page_context.attached', { title, tokens }))
+          }
+        } catch (error) {
+          logger.error('Failed to attach the page', error as Error)
+          window.toast.error(t('chat.input.page_context.failed', { message: (error as Error).message }))
+        } finally {
+          setLoading(false)
+        }
+      },
+      [actions, t]
+    )
+
+    return (
+      <Dropdown
+        trigger={['click']}
+        disabled={loading}
+        menu={{
+          items: [
+            { key: 'page', label: t('chat.input.page_context.page') },
+            { key: 'screenshot', label: t('chat.input.page_context.with_screenshot') }
+          ],
+          onClick: ({ key }) => void attachPage(key === 'screenshot')
+        }}>
+        <Tooltip placement="top" title={t('chat.input.page_context.label')} mouseLeaveDelay={0} arrow>
+          <ActionIconButton loading={loading} aria-label={t('chat.input.page_context.label')}>
+            <FileText size={18} />
+          </ActionIconButton>
+        </Tooltip>
+      </Dropdown>
+    )
+  }
+})
+
+registerTool(pageContextTool)
+
+export default pageContextTool
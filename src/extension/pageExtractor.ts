@@ -0,0 +1,59 @@
+/**
+ * Page Extractor
+ *
+ * Runs in the content script: extracts the readable part of the page with Readability and
+ * converts it to markdown, together with the page metadata and the current selection.
+ */
+
+import { Readability } from '@mozilla/readability'
+import TurndownService from 'turndown'
+
+export interface PageCapture {
+  url: string
+  title: string
+  /** Main article content as markdown (the whole body when no article is found) */
+  markdown: string
+  excerpt?: string
+  byline?: string
+  siteName?: string
+  lang?: string
+  publishedTime?: string
+  /** Text the user selected on the page */
+  selection?: string
+  /** PNG data URL of the visible part of the tab, added by the background worker */
+  screenshot?: string
+}
+
+const turndownService = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced' })
+turndownService.remove(['script', 'style', 'noscript', 'iframe'])
+
+const getMeta = (...names: string[]) => {
+  for (const name of names) {
+    const content = document
+      .querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+      ?.getAttribute('content')
+      ?.trim()
+    if (content) return content
+  }
+  return undefined
+}
+
+/**
+ * Extract the current page; Readability works on a clone so the page itself is left untouched
+ */
+export function extractPage(): PageCapture {
+  const article = new Readability(document.cloneNode(true) as Document).parse()
+  const html = article?.content || document.body?.innerHTML || ''
+
+  return {
+    url: window.location.href,
+    title: article?.title || document.title,
+    markdown: turndownService.turndown(html).trim(),
+    excerpt: article?.excerpt || getMeta('description', 'og:description'),
+    byline: article?.byline || getMeta('author', 'article:author'),
+    siteName: article?.siteName || getMeta('og:site_name'),
+    lang: article?.lang || document.documentElement.lang || undefined,
+    publishedTime: article?.publishedTime || getMeta('article:published_time'),
+    selection: window.getSelection()?.toString().trim() || undefined
+  }
+}
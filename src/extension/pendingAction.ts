@@ -0,0 +1,147 @@
+/**
+ * Pending Actions
+ *
+ * The context menu, the popup and the selection toolbar store a `pendingAction` in
+ * chrome.storage.session and open the side panel. The side panel turns it into a prompt
+ * and sends it to the active assistant, or quotes the text into the input bar.
+ */
+
+import { loggerService } from '@logger'
+import { EXPLAIN_PROMPT, PAGE_SUMMARIZE_PROMPT } from '@renderer/config/prompts'
+import { LanguagesEnum } from '@renderer/config/translate'
+import { getUserMessage } from '@renderer/services/MessagesService'
+import store, { useAppDispatch } from '@renderer/store'
+import { sendMessage } from '@renderer/store/thunk/messageThunk'
+import type { Assistant, Topic } from '@renderer/types'
+import { getTranslateOptions } from '@renderer/utils/translate'
+import { IpcChannel } from '@shared/IpcChannel'
+import { useEffect } from 'react'
+
+import { ExtensionBrowserAgent } from './ExtensionBrowserAgent'
+
+const logger = loggerService.withContext('PendingAction')
+
+export type PendingActionType = 'ask' | 'explain' | 'translate' | 'summarize' | 'quote'
+
+export interface PendingAction {
+  type: PendingActionType
+  text: string
+  url?: string
+  title?: string
+}
+
+// Page text sent for "Summarize Page" when nothing is selected
+const MAX_PAGE_TEXT_LENGTH = 20000
+
+// Reads are chained so two consumers (e.g. StrictMode effects) never get the same action
+let lastTake: Promise<PendingAction | undefined> = Promise.resolve(undefined)
+
+/**
+ * Read and remove the pending action
+ */
+export function takePendingAction(): Promise<PendingAction | undefined> {
+  lastTake = lastTake
+    .catch(() => undefined)
+    .then(async () => {
+      const { pendingAction } = await chrome.storage.session.get('pendingAction')
+      if (!pendingAction) return undefined
+      await chrome.storage.session.remove('pendingAction')
+      return pendingAction as PendingAction
+    })
+  return lastTake
+}
+
+/**
+ * Call the listener whenever a new pending action is stored
+ */
+export function onPendingAction(listener: () => void): () => void {
+  const handleChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+    if (changes.pendingAction?.newValue) listener()
+  }
+  chrome.storage.session.onChanged.addListener(handleChange)
+  return () => chrome.storage.session.onChanged.removeListener(handleChange)
+}
+
+const getTargetLanguage = async () => {
+  const { targetLanguage } = store.getState().settings
+  const languages = await getTranslateOptions()
+  return languages.find((language) => language.langCode === targetLanguage) ?? LanguagesEnum.enUS
+}
+
+const getPageText = async () => {
+  try {
+    const text = await new ExtensionBrowserAgent().getText('body')
+    return text.length > MAX_PAGE_TEXT_LENGTH ? `${text.slice(0, MAX_PAGE_TEXT_LENGTH)}...` : text
+  } catch (error) {
+    // The model still gets the URL and can read the page with browser tools
+    logger.warn('Failed to read the page text', error as Error)
+    return ''
+  }
+}
+
+/**
+ * Build the message for a pending action, with the page it came from as context
+ */
+export async function buildPendingActionPrompt(action: PendingAction): Promise<string> {
+  const { language, translateModelPrompt } = store.getState().settings
+  let prompt: string
+
+  switch (action.type) {
+    case 'translate': {
+      const targetLanguage = await getTargetLanguage()
+      prompt = translateModelPrompt.replaceAll('{{target_language}}', targetLanguage.value)
+      break
+    }
+    case 'explain':
+      prompt = EXPLAIN_PROMPT.replaceAll('{{language}}', language)
+      break
+    case 'summarize':
+      prompt = PAGE_SUMMARIZE_PROMPT.replaceAll('{{language}}', language)
+      break
+    default:
+      prompt = '{{text}}'
+  }
+
+  const text = action.type === 'summarize' && !action.text ? await getPageText() : action.text
+  const context = [action.title && `Page: ${action.title}`, action.url && `URL: ${action.url}`].filter(Boolean)
+
+  return [prompt.replaceAll('{{text}}', () => text), ...(context.length ? ['---', ...context] : [])].join('\n\n')
+}
+
+/**
+ * Send pending actions to the given assistant and topic, on mount and whenever a new one arrives
+ */
+export function usePendingAction(assistant: Assistant | undefined, topic: Topic | undefined) {
+  const dispatch = useAppDispatch()
+
+  useEffect(() => {
+    if (!assistant || !topic) return
+
+    const handle = async () => {
+      try {
+        const action = await takePendingAction()
+        if (!action) return
+
+        if (action.type === 'quote') {
+          // Same event the desktop main window gets from quoteToMainWindow
+          window.dispatchEvent(
+            new CustomEvent('ipc-message', {
+              detail: { channel: IpcChannel.App_QuoteToMain, args: [null, action.text] }
+            })
+          )
+          return
+        }
+
+        logger.info('Sending pending action', { type: action.type, url: action.url })
+        const content = await buildPendingActionPrompt(action)
+        const { message, blocks } = getUserMessage({ assistant, topic, content })
+        dispatch(sendMessage(message, blocks, assistant, topic.id))
+      } catch (error) {
+        logger.error('Failed to handle pending action', error as Error)
+      }
+    }
+
+    void handle()
+    return onPendingAction(() => void handle())
+  }, [assistant, topic, dispatch])
+}
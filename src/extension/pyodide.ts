@@ -0,0 +1,19 @@
+/**
+ * Pyodide Sandbox Entry Point
+ *
+ * Runs the renderer's Pyodide worker in a sandboxed page, which unlike the other extension
+ * pages may load Pyodide from the CDN, and relays its messages to the ExtensionPyodideWorker
+ * in the embedding page.
+ */
+
+import PyodideWorker from '@renderer/workers/pyodide.worker?worker&inline'
+
+// Inlined as a blob: the opaque origin of a sandboxed page can't load worker scripts by URL
+const worker = new PyodideWorker()
+
+worker.onmessage = (event) => window.parent.postMessage(event.data, '*')
+
+window.addEventListener('message', (event) => {
+  if (event.source !== window.parent) return
+  worker.postMessage(event.data)
+})
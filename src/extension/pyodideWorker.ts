@@ -0,0 +1,47 @@
+/**
+ * Extension Pyodide Worker
+ *
+ * Extension pages may not load remote code, so the renderer's Pyodide worker can't fetch
+ * Pyodide from the CDN. It runs inside the sandboxed pyodide.html page instead, whose CSP
+ * allows the CDN; this class stands in for the Worker and relays messages to a hidden frame.
+ */
+
+const SANDBOX_PATH = 'src/extension/pyodide.html'
+
+export class ExtensionPyodideWorker extends EventTarget {
+  onmessage: ((event: MessageEvent) => void) | null = null
+
+  private frame: HTMLIFrameElement
+  private frameWindow: Promise<Window>
+
+  constructor() {
+    super()
+    this.frame = document.createElement('iframe')
+    this.frame.src = chrome.runtime.getURL(SANDBOX_PATH)
+    this.frame.hidden = true
+    this.frameWindow = new Promise((resolve) => {
+      this.frame.addEventListener('load', () => resolve(this.frame.contentWindow as Window), { once: true })
+    })
+
+    window.addEventListener('message', this.handleFrameMessage)
+    document.body.appendChild(this.frame)
+  }
+
+  private handleFrameMessage = (event: MessageEvent) => {
+    if (event.source !== this.frame.contentWindow) return
+
+    const message = new MessageEvent('message', { data: event.data })
+    this.onmessage?.(message)
+    this.dispatchEvent(message)
+  }
+
+  postMessage(message: unknown): void {
+    // The sandboxed page has an opaque origin
+    void this.frameWindow.then((target) => target.postMessage(message, '*'))
+  }
+
+  terminate(): void {
+    window.removeEventListener('message', this.handleFrameMessage)
+    this.frame.remove()
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Extension Python Server
+ *
+ * Browser-side replacement for window.api.python and the built-in @cherry/python MCP server,
+ * which on desktop reach the renderer's PyodideService through the main process. Here the
+ * calls go to PyodideService directly, with its worker hosted in a sandboxed page (see
+ * ExtensionPyodideWorker). Matplotlib figures are returned as image content.
+ */
+
+import { loggerService } from '@logger'
+import { pyodideService } from '@renderer/services/PyodideService'
+import type { MCPCallToolResponse, MCPServer, MCPTool } from '@renderer/types'
+import { BuiltinMCPServerNames } from '@renderer/types'
+import { buildFunctionCallToolName } from '@shared/mcp'
+
+import { ExtensionPyodideWorker } from './pyodideWorker'
+
+const logger = loggerService.withContext('ExtensionPythonServer')
+
+// Same default as the desktop PythonService
+const DEFAULT_TIMEOUT = 60000
+
+const PYTHON_EXECUTE_TOOL = 'python_execute'
+
+// Same tool definition as the desktop python MCP server
+const PYTHON_EXECUTE_DEFINITION = {
+  name: PYTHON_EXECUTE_TOOL,
+  description: `Execute Python code using Pyodide in a sandboxed environment. Supports most Python standard library and scientific packages.
+The code will be executed with Python 3.12.
+Dependencies may be defined via PEP 723 script metadata, e.g. to install "pydantic", the script should start
+with a comment of the form:
+# /// script
+# dependencies = ['pydantic']
+# ///
+print('python code here')`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      code: {
+        type: 'string',
+        description: 'The Python code to execute'
+      },
+      context: {
+        type: 'object',
+        description: 'Optional context variables to pass to the Python execution environment',
+        additionalProperties: true
+      },
+      timeout: {
+        type: 'number',
+        description: 'Timeout in milliseconds (default: 60000)',
+        default: DEFAULT_TIMEOUT
+      }
+    },
+    required: ['code']
+  }
+}
+
+export function isPythonServer(server: MCPServer): boolean {
+  return server.type === 'inMemory' && server.name === BuiltinMCPServerNames.python
+}
+
+export class ExtensionPythonServer {
+  constructor() {
+    pyodideService.setWorkerFactory(() => new ExtensionPyodideWorker())
+  }
+
+  /**
+   * window.api.python.execute: the formatted output, like the desktop PythonService
+   */
+  execute = async (script: string, context: Record<string, any> = {}, timeout = DEFAULT_TIMEOUT): Promise<string> => {
+    const { text } = await pyodideService.runScript(script, context, timeout)
+    return text
+  }
+
+  listTools = async (server: MCPServer): Promise<MCPTool[]> => [
+    {
+      ...PYTHON_EXECUTE_DEFINITION,
+      id: buildFunctionCallToolName(server.name, PYTHON_EXECUTE_TOOL),
+      serverId: server.id,
+      serverName: server.name,
+      type: 'mcp'
+    }
+  ]
+
+  callTool = async ({
+    name,
+    args
+  }: {
+    server: MCPServer
+    name: string
+    args: unknown
+  }): Promise<MCPCallToolResponse> => {
+    if (name !== PYTHON_EXECUTE_TOOL) {
+      throw new Error(`Tool ${name} not found`)
+    }
+
+    const {
+      code,
+      context = {},
+      timeout = DEFAULT_TIMEOUT
+    } = (typeof args === 'string' ? JSON.parse(args || '{}') : args) as {
+      code: string
+      context?: Record<string, any>
+      timeout?: number
+    }
+
+    if (!code || typeof code !== 'string') {
+      throw new Error('Code parameter is required and must be a string')
+    }
+
+    logger.debug('Executing Python code via Pyodide')
+
+    const { text, image } = await pyodideService.runScript(code, context, timeout)
+    const content: MCPCallToolResponse['content'] = [{ type: 'text', text }]
+    if (image) {
+      // The worker returns figures as PNG data URLs
+      content.push({ type: 'image', data: image.replace(/^data:image\/png;base64,/, ''), mimeType: 'image/png' })
+    }
+
+    return { content }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Extension S3 Storage
+ *
+ * Fetch-based S3 client for the background service worker, with requests signed using
+ * AWS Signature Version 4 through WebCrypto. Mirrors the desktop S3Storage: keys are placed
+ * under the optional root folder and path-style addressing is used except for AWS and the
+ * providers that require virtual-hosted style.
+ */
+
+import type { S3Config } from '@renderer/types'
+
+// Providers that require virtual-hosted style, as in the desktop S3Storage
+const VIRTUAL_HOST_SUFFIXES = ['aliyuncs.com', 'myqcloud.com', 'volces.com']
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const sha256Hex = async (data: string | Uint8Array) =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data))
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string) => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+// RFC 3986 encoding as required by SigV4
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+const isIpAddress = (hostname: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.startsWith('[')
+
+const xmlValues = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g')), (match) => match[1])
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+export class ExtensionS3Storage {
+  private endpoint: URL
+  private usePathStyle: boolean
+  private region: string
+  private root: string
+
+  constructor(private config: S3Config) {
+    this.region = config.region || 'us-east-1'
+    this.endpoint = new URL(config.endpoint || `https://s3.${this.region}.amazonaws.com`)
+    this.root = config.root?.replace(/^\/+/g, '').replace(/\/+$/g, '') || ''
+
+    const { hostname } = this.endpoint
+    this.usePathStyle =
+      !!config.endpoint &&
+      (hostname === 'localhost' ||
+        isIpAddress(hostname) ||
+        !VIRTUAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix)))
+  }
+
+  /**
+   * Object key with the root folder prepended
+   */
+  private buildKey(key: string): string {
+    if (!this.root) return key
+    return key.startsWith(`${this.root}/`) ? key : `${this.root}/${key}`
+  }
+
+  private buildUrl(key: string, query: Record<string, string | undefined>): URL {
+    const url = new URL(this.endpoint.toString())
+    const basePath = url.pathname.replace(/\/+$/, '')
+    const encodedKey = key ? `/${key.split('/').map(encodeRfc3986).join('/')}` : ''
+
+    if (this.usePathStyle) {
+      url.pathname = `${basePath}/${encodeRfc3986(this.config.bucket)}${encodedKey}`
+    } else {
+      url.hostname = `${this.config.bucket}.${url.hostname}`
+      url.pathname = `${basePath}${encodedKey}` || '/'
+    }
+
+    const entries = Object.entries(query).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    url.search = entries
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&')
+    return url
+  }
+
+  /**
+   * Send a SigV4-signed request; throws on non-2xx responses with the S3 error code
+   */
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE' | 'HEAD',
+    key: string,
+    {
+      query = {},
+      body,
+      contentType
+    }: { query?: Record<string, string | undefined>; body?: Uint8Array; contentType?: string } = {}
+  ): Promise<Response> {
+    const url = this.buildUrl(key, query)
+    const now = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const date = now.slice(0, 8)
+    const payloadHash = await sha256Hex(body ?? '')
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': now,
+      ...(contentType && { 'content-type': contentType })
+    }
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n')
+
+    const scope = `${date}/${this.region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', now, scope, await sha256Hex(canonicalRequest)].join('\n')
+    let signingKey = await hmac(encoder.encode(`AWS4${this.config.secretAccessKey}`), date)
+    for (const part of [this.region, 's3', 'aws4_request']) {
+      signingKey = await hmac(signingKey, part)
+    }
+    const signature = toHex(await hmac(signingKey, stringToSign))
+
+    // fetch sets Host itself from the URL, which is the value that was signed
+    const requestHeaders: Record<string, string> = {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+    }
+    delete requestHeaders.host
+    const response = await fetch(url, { method, headers: requestHeaders, ...(method === 'PUT' && { body }) })
+
+    if (!response.ok) {
+      const text = method === 'HEAD' ? '' : await response.text()
+      const code = xmlValues(text, 'Code')[0]
+      const message = xmlValues(text, 'Message')[0]
+      throw new Error(
+        `S3 ${method} failed: HTTP ${response.status}${code ? ` ${code}` : ''}${message ? `: ${message}` : ''}`
+      )
+    }
+    return response
+  }
+
+  async putFileContents(key: string, data: string): Promise<void> {
+    const contentType = key.endsWith('.json')
+      ? 'application/json'
+      : key.endsWith('.zip')
+        ? 'application/zip'
+        : 'application/octet-stream'
+    await this.request('PUT', this.buildKey(key), { body: encoder.encode(data), contentType })
+  }
+
+  async getFileContents(key: string): Promise<string> {
+    const response = await this.request('GET', this.buildKey(key))
+    return response.text()
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    const variations = new Set([this.buildKey(key), key.replace(/^\//, '')])
+    for (const variation of variations) {
+      try {
+        await this.request('DELETE', variation)
+      } catch {
+        // Ignore failures, like the desktop S3Storage
+      }
+    }
+  }
+
+  /**
+   * List the objects under the prefix (all objects by default)
+   */
+  async listFiles(prefix = ''): Promise<Array<{ key: string; lastModified?: string; size: number }>> {
+    const files: Array<{ key: string; lastModified?: string; size: number }> = []
+    const fullPrefix = this.buildKey(prefix)
+    let continuationToken: string | undefined
+
+    do {
+      const response = await this.request('GET', '', {
+        query: {
+          'list-type': '2',
+          prefix: fullPrefix || undefined,
+          'continuation-token': continuationToken
+        }
+      })
+      const xml = await response.text()
+
+      for (const contents of xmlValues(xml, 'Contents')) {
+        const key = xmlValues(contents, 'Key')[0]
+        if (!key) continue
+        const lastModified = xmlValues(contents, 'LastModified')[0]
+        files.push({
+          key: decodeXml(key),
+          lastModified: lastModified ? new Date(lastModified).toISOString() : undefined,
+          size: Number(xmlValues(contents, 'Size')[0] ?? 0)
+        })
+      }
+
+      continuationToken =
+        xmlValues(xml, 'IsTruncated')[0] === 'true'
+          ? decodeXml(xmlValues(xml, 'NextContinuationToken')[0] ?? '') || undefined
+          : undefined
+    } while (continuationToken)
+
+    return files
+  }
+
+  /**
+   * HeadBucket to check the credentials and the network
+   */
+  async checkConnection(): Promise<boolean> {
+    await this.request('HEAD', '')
+    return true
+  }
+}
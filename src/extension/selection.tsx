@@ -0,0 +1,128 @@
+/**
+ * Selection Action Entry Point
+ *
+ * Runs the desktop selection action window (SelectionActionApp) inside the overlay the
+ * content script's selection toolbar embeds in web pages. The action comes from session
+ * storage, where the background worker put it; window controls are posted to the page.
+ */
+
+// Load full shim to replace stubs with real implementations
+import './shim'
+import '@renderer/databases'
+import '@renderer/assets/styles/index.css'
+import '@renderer/assets/styles/tailwind.css'
+import '@ant-design/v5-patch-for-react-19'
+
+import KeyvStorage from '@kangfenmao/keyv-storage'
+import { loggerService } from '@logger'
+import { getToastUtilities } from '@renderer/components/TopView/toast'
+import AntdProvider from '@renderer/context/AntdProvider'
+import { CodeStyleProvider } from '@renderer/context/CodeStyleProvider'
+import { ThemeProvider } from '@renderer/context/ThemeProvider'
+import storeSyncService from '@renderer/services/StoreSyncService'
+import store, { persistor } from '@renderer/store'
+import type { ActionItem } from '@renderer/types/selectionTypes'
+import SelectionActionApp from '@renderer/windows/selection/action/SelectionActionApp'
+import { IpcChannel } from '@shared/IpcChannel'
+import type { FC } from 'react'
+import { useEffect } from 'react'
+import { createRoot } from 'react-dom/client'
+import { Provider } from 'react-redux'
+import { PersistGate } from 'redux-persist/integration/react'
+
+import type { SelectionOverlayMessage } from './selectionToolbar'
+
+const logger = loggerService.withContext('SelectionOverlay')
+
+// Height of the SelectionActionApp title bar, which moves the overlay when dragged
+const TITLE_BAR_HEIGHT = 32
+
+loggerService.initWindowSource('SelectionOverlay')
+
+// fetchChatCompletion depends on keyv
+window.keyv = new KeyvStorage()
+window.keyv.init()
+
+storeSyncService.subscribe()
+
+const postToPage = (message: Omit<SelectionOverlayMessage, 'source'>) => {
+  window.parent.postMessage({ source: 'cherry-studio-selection', ...message }, '*')
+}
+
+// There is no action window to manage: closing or minimizing removes the overlay
+window.api.selection.closeActionWindow = async () => postToPage({ type: 'close' })
+window.api.selection.minimizeActionWindow = async () => postToPage({ type: 'close' })
+
+// -webkit-app-region has no effect in an iframe, so the title bar drag is done by the page
+document.addEventListener('mousedown', (event) => {
+  const target = event.target as HTMLElement
+  if (event.button !== 0 || event.clientY > TITLE_BAR_HEIGHT || target.closest('button, .ant-slider')) return
+
+  let lastX = event.screenX
+  let lastY = event.screenY
+  const handleMouseMove = (moveEvent: MouseEvent) => {
+    postToPage({ type: 'move', deltaX: moveEvent.screenX - lastX, deltaY: moveEvent.screenY - lastY })
+    lastX = moveEvent.screenX
+    lastY = moveEvent.screenY
+  }
+  const handleMouseUp = () => {
+    window.removeEventListener('mousemove', handleMouseMove)
+    window.removeEventListener('mouseup', handleMouseUp)
+  }
+  window.addEventListener('mousemove', handleMouseMove)
+  window.addEventListener('mouseup', handleMouseUp)
+})
+
+/**
+ * Hand the action to SelectionActionApp, which listens for Selection_UpdateActionData.
+ * Rendered after it so its listener is registered first.
+ */
+const ActionLoader: FC = () => {
+  useEffect(() => {
+    const load = async () => {
+      const id = new URLSearchParams(window.location.search).get('id')
+      const key = `selectionAction:${id}`
+      const { [key]: action } = await chrome.storage.session.get(key)
+      if (!action) {
+        logger.warn('Selection action not found', { id })
+        postToPage({ type: 'close' })
+        return
+      }
+      await chrome.storage.session.remove(key)
+
+      window.dispatchEvent(
+        new CustomEvent('ipc-message', {
+          detail: { channel: IpcChannel.Selection_UpdateActionData, args: [null, action as ActionItem] }
+        })
+      )
+    }
+
+    load().catch((error) => logger.error('Failed to load the selection action', error as Error))
+  }, [])
+
+  return null
+}
+
+const App: FC = () => {
+  useEffect(() => {
+    window.toast = getToastUtilities()
+  }, [])
+
+  return (
+    <Provider store={store}>
+      <ThemeProvider>
+        <AntdProvider>
+          <CodeStyleProvider>
+            <PersistGate loading={null} persistor={persistor}>
+              <SelectionActionApp />
+              <ActionLoader />
+            </PersistGate>
+          </CodeStyleProvider>
+        </AntdProvider>
+      </ThemeProvider>
+    </Provider>
+  )
+}
+
+const root = createRoot(document.getElementById('root') as HTMLElement)
+root.render(<App />)
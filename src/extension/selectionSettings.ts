@@ -0,0 +1,89 @@
+/**
+ * Selection Settings
+ *
+ * Mirrors the selectionStore to chrome.storage.local for the selection toolbar in the
+ * content script, which has no redux store of its own. Action names are translated and
+ * their lucide icons rendered to SVG here, so the content script stays free of React.
+ */
+
+import { loggerService } from '@logger'
+import i18n from '@renderer/i18n'
+import store from '@renderer/store'
+import type { ActionItem, SelectionState } from '@renderer/types/selectionTypes'
+import dynamicIconImports from 'lucide-react/dynamicIconImports'
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+
+import { SELECTION_SETTINGS_KEY, type SelectionToolbarAction, type SelectionToolbarSettings } from './selectionToolbar'
+
+const logger = loggerService.withContext('SelectionSettings')
+
+// Same fallback icon as the desktop toolbar
+const FALLBACK_ICON = 'message-square-heart'
+
+const iconCache = new Map<string, string>()
+
+const renderIcon = async (name = FALLBACK_ICON): Promise<string> => {
+  const cached = iconCache.get(name)
+  if (cached) return cached
+
+  const load = dynamicIconImports[name as keyof typeof dynamicIconImports] ?? dynamicIconImports[FALLBACK_ICON]
+  const { default: Icon } = await load()
+  const svg = renderToStaticMarkup(createElement(Icon, { size: 16 }))
+  iconCache.set(name, svg)
+  return svg
+}
+
+const toToolbarAction = async (action: ActionItem): Promise<SelectionToolbarAction> => ({
+  ...action,
+  label: action.isBuiltIn ? i18n.t(action.name) : action.name,
+  iconSvg: await renderIcon(action.icon)
+})
+
+/**
+ * Keep chrome.storage.local in sync with the selectionStore; returns the unsubscribe function
+ */
+export function syncSelectionSettings(): () => void {
+  let lastState: SelectionState | undefined
+  // Icons load asynchronously; only the latest state may be written
+  let version = 0
+
+  const write = async (state: SelectionState) => {
+    const current = ++version
+    const settings: SelectionToolbarSettings = {
+      enabled: state.selectionEnabled,
+      triggerMode: state.triggerMode,
+      isCompact: state.isCompact,
+      isFollowToolbar: state.isFollowToolbar,
+      isRemeberWinSize: state.isRemeberWinSize,
+      filterMode: state.filterMode,
+      filterList: state.filterList,
+      actions: await Promise.all(state.actionItems.map(toToolbarAction)),
+      handoffLabel: i18n.t('selection.action.window.open_side_panel')
+    }
+    if (current === version) {
+      await chrome.storage.local.set({ [SELECTION_SETTINGS_KEY]: settings })
+    }
+  }
+
+  const handleChange = (force = false) => {
+    const state = store.getState()
+    // Writing before rehydration would replace the stored settings with the defaults
+    if (!(state as { _persist?: { rehydrated: boolean } })._persist?.rehydrated) return
+    if (!force && state.selectionStore === lastState) return
+
+    lastState = state.selectionStore
+    write(state.selectionStore).catch((error) => logger.error('Failed to mirror selection settings', error as Error))
+  }
+
+  const handleLanguageChanged = () => handleChange(true)
+
+  handleChange()
+  const unsubscribe = store.subscribe(() => handleChange())
+  i18n.on('languageChanged', handleLanguageChanged)
+
+  return () => {
+    unsubscribe()
+    i18n.off('languageChanged', handleLanguageChanged)
+  }
+}
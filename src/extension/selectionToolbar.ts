@@ -0,0 +1,440 @@
+/**
+ * Selection Toolbar
+ *
+ * Runs in the content script: the extension's counterpart of the desktop SelectionService
+ * and toolbar window. A toolbar with the user's selection actions appears over selected
+ * text, rendered in a closed shadow root so page styles can't reach it. Actions that need
+ * a model open a small overlay with the extension's selection page in an iframe, which
+ * runs the desktop action window (SelectionActionApp) and streams the result.
+ *
+ * Settings come from the app's selectionStore, mirrored to chrome.storage.local by the
+ * extension views (see selectionSettings.ts). The filter list holds site host names.
+ */
+
+import type { ActionItem, FilterMode, TriggerMode } from '@renderer/types/selectionTypes'
+
+export const SELECTION_SETTINGS_KEY = 'selectionToolbar'
+const OVERLAY_SIZE_KEY = 'selectionOverlaySize'
+
+export interface SelectionToolbarAction extends ActionItem {
+  /** Display name, translated for built-in actions */
+  label: string
+  /** Lucide icon rendered to SVG markup */
+  iconSvg?: string
+}
+
+export interface SelectionToolbarSettings {
+  enabled: boolean
+  triggerMode: TriggerMode
+  isCompact: boolean
+  isFollowToolbar: boolean
+  isRemeberWinSize: boolean
+  filterMode: FilterMode
+  filterList: string[]
+  actions: SelectionToolbarAction[]
+  /** Translated label of the overlay's "continue in side panel" button */
+  handoffLabel: string
+}
+
+/** Messages the selection page in the overlay posts to the content script */
+export type SelectionOverlayMessage =
+  | { source: 'cherry-studio-selection'; type: 'close' }
+  | { source: 'cherry-studio-selection'; type: 'move'; deltaX: number; deltaY: number }
+
+// Holding Ctrl this long with text selected shows the toolbar in 'ctrlkey' mode
+const CTRLKEY_HOLD_MS = 300
+const TOOLBAR_OFFSET = 8
+const DEFAULT_OVERLAY_SIZE = { width: 420, height: 480 }
+const OVERLAY_MARGIN = 16
+
+const STYLES = `
+  :host { all: initial; }
+  .toolbar {
+    position: absolute;
+    display: inline-flex;
+    align-items: stretch;
+    height: 36px;
+    padding: 3px;
+    gap: 2px;
+    box-sizing: border-box;
+    border-radius: 10px;
+    border: 1px solid rgba(0, 0, 0, 0.08);
+    background: #fff;
+    box-shadow: 0 2px 12px rgba(0, 0, 0, 0.15);
+    font: 13px/1 system-ui, -apple-system, sans-serif;
+    color: #333;
+    user-select: none;
+    pointer-events: auto;
+  }
+  .toolbar button {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 0 8px;
+    border: none;
+    border-radius: 7px;
+    background: transparent;
+    color: inherit;
+    font: inherit;
+    cursor: pointer;
+  }
+  .toolbar button:hover { background: rgba(0, 0, 0, 0.06); }
+  .toolbar button.done { color: #52c41a; }
+  .toolbar .logo { padding: 0 4px; }
+  .toolbar .logo img { width: 22px; height: 22px; border-radius: 6px; }
+  .toolbar svg { width: 16px; height: 16px; flex-shrink: 0; }
+  .overlay {
+    position: fixed;
+    display: flex;
+    flex-direction: column;
+    min-width: 280px;
+    min-height: 200px;
+    overflow: hidden;
+    resize: both;
+    border-radius: 10px;
+    box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+    background: #fff;
+    pointer-events: auto;
+  }
+  .overlay iframe { flex: 1; width: 100%; border: none; }
+  .overlay .footer {
+    display: flex;
+    justify-content: flex-end;
+    padding: 4px 8px;
+    border-top: 1px solid rgba(0, 0, 0, 0.08);
+  }
+  .overlay .footer button {
+    padding: 4px 10px;
+    border: none;
+    border-radius: 6px;
+    background: #7c3aed;
+    color: #fff;
+    font: 12px system-ui, -apple-system, sans-serif;
+    cursor: pointer;
+  }
+  @media (prefers-color-scheme: dark) {
+    .toolbar { background: #2a2a2a; border-color: rgba(255, 255, 255, 0.1); color: #eee; }
+    .toolbar button:hover { background: rgba(255, 255, 255, 0.1); }
+    .overlay { background: #1a1a1a; }
+    .overlay .footer { border-color: rgba(255, 255, 255, 0.1); }
+  }
+`
+
+const isUrl = (text: string) => !/\s/.test(text) && /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(text)
+
+/**
+ * Prompt for the side panel, built like the desktop action window builds custom prompts
+ */
+const buildPrompt = (action: ActionItem, text: string) => {
+  if (!action.prompt) return text
+  if (action.prompt.includes('{{text}}')) return action.prompt.replaceAll('{{text}}', text)
+  return `${action.prompt}\n\n${text}`
+}
+
+export class SelectionToolbar {
+  private settings: SelectionToolbarSettings | null = null
+  private root: ShadowRoot
+  private toolbar: HTMLElement | null = null
+  private overlay: { element: HTMLElement; iframe: HTMLIFrameElement; resizeObserver?: ResizeObserver } | null = null
+  private overlaySize = DEFAULT_OVERLAY_SIZE
+  private selectedText = ''
+  private ctrlkeyTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor() {
+    const host = document.createElement('cherry-studio-selection')
+    host.style.cssText = 'position: absolute; top: 0; left: 0; width: 0; height: 0; z-index: 2147483647;'
+    this.root = host.attachShadow({ mode: 'closed' })
+    const style = document.createElement('style')
+    style.textContent = STYLES
+    this.root.appendChild(style)
+    document.documentElement.appendChild(host)
+  }
+
+  async init(): Promise<void> {
+    const stored = await chrome.storage.local.get([SELECTION_SETTINGS_KEY, OVERLAY_SIZE_KEY])
+    this.settings = stored[SELECTION_SETTINGS_KEY] ?? null
+    this.overlaySize = stored[OVERLAY_SIZE_KEY] ?? DEFAULT_OVERLAY_SIZE
+
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area !== 'local' || !changes[SELECTION_SETTINGS_KEY]) return
+      this.settings = changes[SELECTION_SETTINGS_KEY].newValue ?? null
+      if (!this.isActive()) this.hideToolbar()
+    })
+
+    document.addEventListener('mouseup', this.handleMouseUp)
+    document.addEventListener('mousedown', this.handleMouseDown)
+    document.addEventListener('keydown', this.handleKeyDown)
+    document.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('message', this.handleOverlayMessage)
+  }
+
+  /**
+   * Show the toolbar for the current selection (the 'shortcut' trigger mode)
+   */
+  showForSelection(): void {
+    if (!this.isActive()) return
+
+    const selection = this.readSelection()
+    if (!selection) {
+      this.hideToolbar()
+      return
+    }
+    this.selectedText = selection.text
+    this.renderToolbar(selection.rect)
+  }
+
+  private isActive(): boolean {
+    const settings = this.settings
+    if (!settings?.enabled) return false
+    if (settings.filterMode === 'default' || settings.filterList.length === 0) return true
+
+    const hostname = window.location.hostname.toLowerCase()
+    const listed = settings.filterList.some((entry) => {
+      const site = entry.trim().toLowerCase()
+      return !!site && (hostname === site || hostname.endsWith(`.${site}`))
+    })
+    return settings.filterMode === 'whitelist' ? listed : !listed
+  }
+
+  /**
+   * Selected text and its position; text fields keep their selection outside window.getSelection()
+   */
+  private readSelection(): { text: string; rect: DOMRect } | null {
+    const active = document.activeElement
+    if (active instanceof HTMLTextAreaElement || active instanceof HTMLInputElement) {
+      const { selectionStart, selectionEnd, value } = active
+      const text =
+        selectionStart !== null && selectionEnd !== null ? value.slice(selectionStart, selectionEnd).trim() : ''
+      return text ? { text, rect: active.getBoundingClientRect() } : null
+    }
+
+    const selection = window.getSelection()
+    const text = selection?.toString().trim()
+    if (!selection || !text || selection.rangeCount === 0) return null
+    return { text, rect: selection.getRangeAt(0).getBoundingClientRect() }
+  }
+
+  private isOwnEvent(event: Event): boolean {
+    return event.composedPath().includes(this.root.host)
+  }
+
+  private handleMouseUp = (event: MouseEvent) => {
+    if (this.isOwnEvent(event) || this.settings?.triggerMode !== 'selected') return
+    // The selection is updated after mouseup
+    setTimeout(() => this.showForSelection(), 0)
+  }
+
+  private handleMouseDown = (event: MouseEvent) => {
+    if (!this.isOwnEvent(event)) this.hideToolbar()
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      this.hideToolbar()
+      return
+    }
+    this.clearCtrlkeyTimer()
+    if (event.key !== 'Control' || event.repeat || this.settings?.triggerMode !== 'ctrlkey') return
+    this.ctrlkeyTimer = setTimeout(() => this.showForSelection(), CTRLKEY_HOLD_MS)
+  }
+
+  private handleKeyUp = () => {
+    this.clearCtrlkeyTimer()
+  }
+
+  private clearCtrlkeyTimer() {
+    if (this.ctrlkeyTimer) {
+      clearTimeout(this.ctrlkeyTimer)
+      this.ctrlkeyTimer = null
+    }
+  }
+
+  private renderToolbar(rect: DOMRect) {
+    const settings = this.settings
+    if (!settings) return
+    this.hideToolbar()
+
+    const toolbar = document.createElement('div')
+    toolbar.className = 'toolbar'
+
+    // The logo quotes the selection into the side panel, like the desktop quote action
+    const logo = document.createElement('button')
+    logo.className = 'logo'
+    logo.title = settings.handoffLabel
+    const image = document.createElement('img')
+    image.src = chrome.runtime.getURL('assets/images/logo.png')
+    logo.appendChild(image)
+    logo.addEventListener('click', () => this.handOff({ type: 'quote', text: this.selectedText }))
+    toolbar.appendChild(logo)
+
+    for (const action of settings.actions.filter((item) => item.enabled)) {
+      const button = document.createElement('button')
+      button.title = action.label
+      // Trusted markup rendered by the extension from the lucide icon set
+      if (action.iconSvg) button.innerHTML = action.iconSvg
+      if (!settings.isCompact) {
+        const label = document.createElement('span')
+        label.textContent = action.label
+        button.appendChild(label)
+      }
+      button.addEventListener('click', () => this.handleAction(action, button))
+      toolbar.appendChild(button)
+    }
+
+    this.root.appendChild(toolbar)
+    this.toolbar = toolbar
+
+    // Below the selection, or above it when there is no room, kept inside the viewport
+    const { offsetWidth: width, offsetHeight: height } = toolbar
+    const below = rect.bottom + TOOLBAR_OFFSET + height <= window.innerHeight
+    const top = below ? rect.bottom + TOOLBAR_OFFSET : Math.max(rect.top - TOOLBAR_OFFSET - height, 0)
+    const left = Math.min(Math.max(rect.left, 0), Math.max(window.innerWidth - width - TOOLBAR_OFFSET, 0))
+    toolbar.style.top = `${top + window.scrollY}px`
+    toolbar.style.left = `${left + window.scrollX}px`
+  }
+
+  private hideToolbar() {
+    this.toolbar?.remove()
+    this.toolbar = null
+  }
+
+  private handleAction(action: SelectionToolbarAction, button: HTMLElement) {
+    const text = this.selectedText
+    switch (action.id) {
+      case 'copy':
+        void navigator.clipboard.writeText(text).then(() => {
+          button.classList.add('done')
+          setTimeout(() => this.hideToolbar(), 600)
+        })
+        return
+      case 'search': {
+        const url = isUrl(text)
+          ? text
+          : action.searchEngine?.split('|')[1]?.replace('{{queryString}}', encodeURIComponent(text))
+        if (url) window.open(url, '_blank', 'noopener')
+        break
+      }
+      case 'quote':
+        this.handOff({ type: 'quote', text })
+        break
+      default:
+        void this.openOverlay({ ...action, selectedText: text })
+    }
+    this.hideToolbar()
+  }
+
+  /**
+   * Continue in the side panel through a pending action
+   */
+  private handOff(action: { type: string; text: string }) {
+    this.hideToolbar()
+    chrome.runtime
+      .sendMessage({
+        type: 'selection:handoff',
+        payload: { ...action, url: window.location.href, title: document.title }
+      })
+      .catch(() => {
+        // Extension context may be invalidated, ignore
+      })
+  }
+
+  private handOffAction(action: ActionItem) {
+    const text = action.selectedText ?? ''
+    switch (action.id) {
+      case 'translate':
+      case 'explain':
+        this.handOff({ type: action.id, text })
+        break
+      case 'summary':
+        this.handOff({ type: 'summarize', text })
+        break
+      default:
+        this.handOff({ type: 'ask', text: buildPrompt(action, text) })
+    }
+  }
+
+  private async openOverlay(action: ActionItem) {
+    this.closeOverlay()
+    // Read before the toolbar is hidden
+    const anchor = this.toolbar?.getBoundingClientRect()
+    // The selection page picks the action up from session storage by id
+    const { id } = await chrome.runtime.sendMessage({ type: 'selection:action', payload: action })
+
+    const element = document.createElement('div')
+    element.className = 'overlay'
+    element.style.width = `${this.overlaySize.width}px`
+    element.style.height = `${this.overlaySize.height}px`
+    this.positionOverlay(element, anchor)
+
+    const iframe = document.createElement('iframe')
+    iframe.src = chrome.runtime.getURL(`src/extension/selection.html?id=${encodeURIComponent(id)}`)
+    iframe.allow = 'clipboard-write'
+    element.appendChild(iframe)
+
+    const footer = document.createElement('div')
+    footer.className = 'footer'
+    const handoff = document.createElement('button')
+    handoff.textContent = this.settings?.handoffLabel ?? ''
+    handoff.addEventListener('click', () => {
+      this.handOffAction(action)
+      this.closeOverlay()
+    })
+    footer.appendChild(handoff)
+    element.appendChild(footer)
+
+    let resizeObserver: ResizeObserver | undefined
+    if (this.settings?.isRemeberWinSize) {
+      resizeObserver = new ResizeObserver(() => {
+        const size = { width: element.offsetWidth, height: element.offsetHeight }
+        // Detached elements report 0×0, which must not replace the remembered size
+        if (!size.width || !size.height) return
+        this.overlaySize = size
+        void chrome.storage.local.set({ [OVERLAY_SIZE_KEY]: size })
+      })
+      resizeObserver.observe(element)
+    }
+
+    this.root.appendChild(element)
+    this.overlay = { element, iframe, resizeObserver }
+  }
+
+  /**
+   * Next to the toolbar when following it, otherwise at the top right of the viewport
+   */
+  private positionOverlay(element: HTMLElement, anchor?: DOMRect) {
+    const { width, height } = this.overlaySize
+    let top = OVERLAY_MARGIN
+    let left = window.innerWidth - width - OVERLAY_MARGIN
+
+    if (this.settings?.isFollowToolbar && anchor) {
+      top = anchor.bottom + TOOLBAR_OFFSET
+      left = anchor.left
+    }
+    element.style.top = `${Math.max(Math.min(top, window.innerHeight - height - OVERLAY_MARGIN), OVERLAY_MARGIN)}px`
+    element.style.left = `${Math.max(Math.min(left, window.innerWidth - width - OVERLAY_MARGIN), OVERLAY_MARGIN)}px`
+  }
+
+  private closeOverlay() {
+    this.overlay?.resizeObserver?.disconnect()
+    this.overlay?.element.remove()
+    this.overlay = null
+  }
+
+  private handleOverlayMessage = (event: MessageEvent<SelectionOverlayMessage>) => {
+    const overlay = this.overlay
+    if (!overlay || event.source !== overlay.iframe.contentWindow) return
+    if (event.data?.source !== 'cherry-studio-selection') return
+
+    switch (event.data.type) {
+      case 'close':
+        this.closeOverlay()
+        break
+      case 'move': {
+        const { element } = overlay
+        element.style.top = `${element.offsetTop + event.data.deltaY}px`
+        element.style.left = `${element.offsetLeft + event.data.deltaX}px`
+        break
+      }
+    }
+  }
+}
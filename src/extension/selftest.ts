@@ -0,0 +1,23 @@
+/**
+ * Self-Test Page
+ *
+ * Behaviour of the browser self-test page. Content scripts are not injected into
+ * extension pages, so the page runs the content script itself to answer BTCP commands.
+ * Its steps check the command relay only; injection is checked on SELF_TEST_INJECTION_PAGE_URL.
+ */
+
+import './content'
+
+const name = document.getElementById('name') as HTMLInputElement
+const status = document.getElementById('status') as HTMLParagraphElement
+const delayed = document.getElementById('delayed') as HTMLParagraphElement
+
+document.getElementById('form')?.addEventListener('submit', (event) => event.preventDefault())
+document.getElementById('submit')?.addEventListener('click', () => {
+  status.textContent = `Hello, ${name.value}`
+})
+
+// Shown late so browser_wait has something to wait for
+setTimeout(() => {
+  delayed.style.display = 'block'
+}, 300)
@@ -7,6 +7,12 @@
  */
 
 import type { WindowApiType } from '../preload'
+import { ExtensionDesktopCompanion } from './desktopCompanion'
+import { ExtensionKnowledgeBase } from './knowledgeBase'
+import { ExtensionMemoryStore } from './memoryStore'
+import { ExtensionOcr } from './ocr'
+import { ExtensionPythonServer, isPythonServer } from './pythonServer'
+import { ExtensionStoreSync } from './storeSync'
 
 // Message types for background communication
 type MessageType =
@@ -14,6 +20,13 @@ type MessageType =
   | 'storage:set'
   | 'mcp:listTools'
   | 'mcp:callTool'
+  | 'mcp:abortTool'
+  | 'mcp:listPrompts'
+  | 'mcp:getPrompt'
+  | 'mcp:listResources'
+  | 'mcp:getResource'
+  | 'mcp:checkConnectivity'
+  | 'mcp:getServerVersion'
   | 'mcp:connect'
   | 'mcp:disconnect'
   | 'backup:webdav'
@@ -31,6 +44,15 @@ async function sendToBackground<T>(type: MessageType, payload?: unknown): Promis
   return chrome.runtime.sendMessage({ type, payload })
 }
 
+// Like sendToBackground, but rejects when the background answers with { error }
+async function requestBackground<T>(type: MessageType, payload?: unknown): Promise<T> {
+  const response = await sendToBackground<T | { error: string }>(type, payload)
+  if (response && typeof response === 'object' && !Array.isArray(response) && 'error' in response) {
+    throw new Error(response.error)
+  }
+  return response as T
+}
+
 // IndexedDB wrapper for file storage (reuses existing Dexie schema)
 class ExtensionFileStorage {
   private dbName = 'CherryStudioExtension'
@@ -90,6 +112,12 @@ class ExtensionFileStorage {
 }
 
 const fileStorage = new ExtensionFileStorage()
+const knowledgeBase = new ExtensionKnowledgeBase((id) => fileStorage.get(id))
+const memoryStore = new ExtensionMemoryStore()
+const ocr = new ExtensionOcr((id) => fileStorage.get(id))
+const storeSync = new ExtensionStoreSync()
+const pythonServer = new ExtensionPythonServer()
+const desktopCompanion = new ExtensionDesktopCompanion()
 
 // No-op function for unsupported features
 const noop = () => Promise.resolve()
@@ -265,11 +293,11 @@ const extensionApi: WindowApiType = {
     listLocalBackupFiles: noopReturn([]),
     deleteLocalBackupFile: noop,
     checkWebdavConnection: (config) => sendToBackground('backup:webdav', { action: 'check', config }),
-    backupToS3: (data, config) => sendToBackground('backup:s3', { action: 'backup', data, config }),
-    restoreFromS3: (config) => sendToBackground('backup:s3', { action: 'restore', config }),
-    listS3Files: (config) => sendToBackground('backup:s3', { action: 'list', config }),
-    deleteS3File: (fileName, config) => sendToBackground('backup:s3', { action: 'delete', fileName, config }),
-    checkS3Connection: (config) => sendToBackground('backup:s3', { action: 'check', config }),
+    backupToS3: (data, config) => requestBackground('backup:s3', { action: 'backup', data, config }),
+    restoreFromS3: (config) => requestBackground('backup:s3', { action: 'restore', config }),
+    listS3Files: (config) => requestBackground('backup:s3', { action: 'list', config }),
+    deleteS3File: (fileName, config) => requestBackground('backup:s3', { action: 'delete', fileName, config }),
+    checkS3Connection: (config) => requestBackground('backup:s3', { action: 'check', config }),
     createLanTransferBackup: noopReturn(''),
     deleteTempBackup: noopReturn(true)
   },
@@ -488,30 +516,30 @@ const extensionApi: WindowApiType = {
     update: noop
   },
 
-  // ===== Knowledge Base (limited in extension) =====
+  // ===== Knowledge Base (chunks and vectors in IndexedDB) =====
   knowledgeBase: {
-    create: noopReturn({ success: true }),
-    reset: noop,
-    delete: noop,
-    add: noop,
-    remove: noop,
-    search: noopReturn([]),
-    rerank: noopReturn([]),
+    create: knowledgeBase.create,
+    reset: knowledgeBase.reset,
+    delete: knowledgeBase.delete,
+    add: knowledgeBase.add,
+    remove: knowledgeBase.remove,
+    search: knowledgeBase.search,
+    rerank: knowledgeBase.rerank,
     checkQuota: noopReturn({ withinQuota: true })
   },
 
-  // ===== Memory (use chrome.storage) =====
+  // ===== Memory (IndexedDB) =====
   memory: {
-    add: noop,
-    search: noopReturn([]),
-    list: noopReturn([]),
-    delete: noop,
-    update: noop,
-    get: noopReturn(null),
-    setConfig: noop,
-    deleteUser: noop,
-    deleteAllMemoriesForUser: noop,
-    getUsersList: noopReturn([]),
+    add: memoryStore.add,
+    search: memoryStore.search,
+    list: memoryStore.list,
+    delete: memoryStore.delete,
+    update: memoryStore.update,
+    get: memoryStore.get,
+    setConfig: memoryStore.setConfig,
+    deleteUser: memoryStore.deleteUser,
+    deleteAllMemoriesForUser: memoryStore.deleteAllMemoriesForUser,
+    getUsersList: memoryStore.getUsersList,
     migrateMemoryDb: noop
   },
 
@@ -592,28 +620,51 @@ const extensionApi: WindowApiType = {
     }
   },
 
-  // ===== MCP (HTTP/SSE only in extension) =====
+  // ===== MCP (HTTP/SSE in the background, plus the built-in python server in the page) =====
   mcp: {
-    removeServer: (server) => sendToBackground('mcp:disconnect', { serverId: server.id }),
-    restartServer: (server) => sendToBackground('mcp:connect', server),
-    stopServer: (server) => sendToBackground('mcp:disconnect', { serverId: server.id }),
-    listTools: (server) => sendToBackground('mcp:listTools', { serverId: server.id }),
-    callTool: ({ server, name, args }) => sendToBackground('mcp:callTool', { serverId: server.id, name, args }),
-    listPrompts: noopReturn([]),
-    getPrompt: noopReturn({ messages: [] }),
-    listResources: noopReturn([]),
-    getResource: noopReturn({ contents: [] }),
+    removeServer: async (server) =>
+      isPythonServer(server) ? undefined : requestBackground('mcp:disconnect', { serverId: server.id }),
+    restartServer: async (server) => (isPythonServer(server) ? undefined : requestBackground('mcp:connect', server)),
+    stopServer: async (server) =>
+      isPythonServer(server) ? undefined : requestBackground('mcp:disconnect', { serverId: server.id }),
+    listTools: (server) =>
+      isPythonServer(server) ? pythonServer.listTools(server) : requestBackground('mcp:listTools', { server }),
+    callTool: ({ server, name, args, callId }) =>
+      isPythonServer(server)
+        ? pythonServer.callTool({ server, name, args })
+        : requestBackground('mcp:callTool', { server, name, args, callId }),
+    listPrompts: async (server) => (isPythonServer(server) ? [] : requestBackground('mcp:listPrompts', { server })),
+    getPrompt: ({ server, name, args }) => requestBackground('mcp:getPrompt', { server, name, args }),
+    listResources: async (server) => (isPythonServer(server) ? [] : requestBackground('mcp:listResources', { server })),
+    getResource: ({ server, uri }) => requestBackground('mcp:getResource', { server, uri }),
     getInstallInfo: noopReturn({ installed: false }),
-    checkMcpConnectivity: noopReturn({ connected: false }),
+    checkMcpConnectivity: async (server) =>
+      isPythonServer(server) ? true : requestBackground('mcp:checkConnectivity', { server }),
     uploadDxt: noopReturn({ success: false }),
-    abortTool: noop,
-    getServerVersion: noopReturn(null),
+    abortTool: (callId) => requestBackground('mcp:abortTool', { callId }),
+    getServerVersion: async (server) =>
+      isPythonServer(server) ? '1.0.0' : requestBackground('mcp:getServerVersion', { server }),
     getServerLogs: noopReturn([]),
     onServerLog: () => () => {}
   },
 
   python: {
-    execute: noopReturn({ success: false, error: 'Not supported in extension' })
+    execute: pythonServer.execute
+  },
+
+  // Browser profiles belong to the desktop browser MCP server
+  browserProfile: {
+    list: noopReturn([]),
+    clear: noop,
+    delete: noop
+  },
+
+  // The Hub MCP server and its saved scripts only exist in the desktop app
+  hubScript: {
+    list: noopReturn([]),
+    save: () => Promise.reject(new Error('Hub scripts are not supported in the browser extension')),
+    restore: () => Promise.reject(new Error('Hub scripts are not supported in the browser extension')),
+    delete: noop
   },
 
   shell: {
@@ -662,9 +713,9 @@ const extensionApi: WindowApiType = {
   },
 
   storeSync: {
-    subscribe: noop,
-    unsubscribe: noop,
-    onUpdate: noop
+    subscribe: async () => storeSync.subscribe(),
+    unsubscribe: async () => storeSync.unsubscribe(),
+    onUpdate: async (action) => storeSync.onUpdate(action)
   },
 
   selection: {
@@ -729,9 +780,10 @@ const extensionApi: WindowApiType = {
     removeCustomTerminalPath: noop
   },
 
+  // ===== OCR (Tesseract WASM) =====
   ocr: {
-    ocr: noopReturn({ text: '', error: 'Not supported' }),
-    listProviders: noopReturn([])
+    ocr: ocr.ocr,
+    listProviders: ocr.listProviders
   },
 
   cherryai: {
@@ -747,12 +799,13 @@ const extensionApi: WindowApiType = {
     onMaximizedChange: () => () => {}
   },
 
+  // ===== API server: connection to the desktop app's API server =====
   apiServer: {
-    getStatus: noopReturn({ running: false, port: 0 }),
-    start: noopReturn({ success: false }),
-    restart: noopReturn({ success: false }),
-    stop: noopReturn({ success: true }),
-    onReady: () => () => {}
+    getStatus: desktopCompanion.getStatus,
+    start: desktopCompanion.start,
+    restart: desktopCompanion.restart,
+    stop: desktopCompanion.stop,
+    onReady: desktopCompanion.onReady
   },
 
   claudeCodePlugin: {
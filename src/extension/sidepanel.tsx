@@ -20,6 +20,7 @@ import '@ant-design/v5-patch-for-react-19'
 
 // Initialize logger
 import { loggerService } from '@logger'
+import { setBrowserUseAgent } from '@renderer/aiCore/plugins/browserUsePlugin'
 import { QuickPanelProvider } from '@renderer/components/QuickPanel'
 import AntdProvider from '@renderer/context/AntdProvider'
 import { CodeStyleProvider } from '@renderer/context/CodeStyleProvider'
@@ -27,6 +28,7 @@ import { NotificationProvider } from '@renderer/context/NotificationProvider'
 // Context providers
 import StyleSheetManager from '@renderer/context/StyleSheetManager'
 import { ThemeProvider } from '@renderer/context/ThemeProvider'
+import storeSyncService from '@renderer/services/StoreSyncService'
 // Redux store
 import store, { persistor } from '@renderer/store'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
@@ -46,11 +48,28 @@ const queryClient = new QueryClient({
   }
 })
 
+// "Chat with this page" Inputbar tool
+import './pageContextTool'
+
+// Browser tools drive the user's active tab through the content script
+import { ExtensionBrowserAgent, SELF_TEST_INJECTION_PAGE_URL, SELF_TEST_PAGE_URL } from './ExtensionBrowserAgent'
 // Minimal chat component (conversation only)
 import MinimalChat from './MinimalChat'
+import { syncSelectionSettings } from './selectionSettings'
 
 loggerService.initWindowSource('sidepanel')
 
+setBrowserUseAgent(new ExtensionBrowserAgent(), {
+  selfTestPageUrl: SELF_TEST_PAGE_URL,
+  selfTestInjectionPageUrl: SELF_TEST_INJECTION_PAGE_URL
+})
+
+// Receive assistant, provider and settings changes made in the other extension views
+storeSyncService.subscribe()
+
+// Selection toolbar settings for the content script
+syncSelectionSettings()
+
 // Initialize KeyvStorage
 ;(async () => {
   try {
@@ -0,0 +1,58 @@
+/**
+ * Extension Store Sync
+ *
+ * Stands in for the main process StoreSyncService. Each extension view that runs the app (side
+ * panel, window) has its own redux store, so whitelisted actions are relayed between all open
+ * views over a BroadcastChannel and handed to the renderer StoreSyncService as
+ * StoreSync_BroadcastSync events.
+ */
+
+import { IpcChannel } from '@shared/IpcChannel'
+import type { StoreSyncAction } from '@types'
+
+const CHANNEL_NAME = 'cherry-studio:store-sync'
+
+export class ExtensionStoreSync {
+  private viewId = crypto.randomUUID()
+  private channel: BroadcastChannel | null = null
+  private subscribed = false
+
+  private getChannel(): BroadcastChannel {
+    if (this.channel) return this.channel
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME)
+    this.channel.onmessage = (event: MessageEvent<StoreSyncAction>) => {
+      if (!this.subscribed) return
+      // Same event the ipcRenderer stub listens to, so the renderer dispatches it unchanged
+      window.dispatchEvent(
+        new CustomEvent('ipc-message', {
+          detail: { channel: IpcChannel.StoreSync_BroadcastSync, args: [null, event.data] }
+        })
+      )
+    }
+    return this.channel
+  }
+
+  subscribe(): void {
+    this.subscribed = true
+    this.getChannel()
+  }
+
+  unsubscribe(): void {
+    this.subscribed = false
+  }
+
+  /**
+   * Broadcast an action to the other views; a BroadcastChannel never receives its own messages
+   */
+  onUpdate(action: StoreSyncAction): void {
+    this.getChannel().postMessage({
+      ...action,
+      meta: {
+        ...action.meta,
+        fromSync: true,
+        source: `view:${this.viewId}`
+      }
+    })
+  }
+}
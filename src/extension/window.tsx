@@ -11,6 +11,22 @@ import './shim'
 // Now load the existing renderer initialization
 import '@renderer/init'
 import '@renderer/entryPoint'
+// "Chat with this page" Inputbar tool
+import './pageContextTool'
+
+import { setBrowserUseAgent } from '@renderer/aiCore/plugins/browserUsePlugin'
+
+import { ExtensionBrowserAgent, SELF_TEST_INJECTION_PAGE_URL, SELF_TEST_PAGE_URL } from './ExtensionBrowserAgent'
+import { syncSelectionSettings } from './selectionSettings'
+
+// Browser tools drive the user's active tab through the content script
+setBrowserUseAgent(new ExtensionBrowserAgent(), {
+  selfTestPageUrl: SELF_TEST_PAGE_URL,
+  selfTestInjectionPageUrl: SELF_TEST_INJECTION_PAGE_URL
+})
+
+// Selection toolbar settings for the content script
+syncSelectionSettings()
 
 // Remove loading spinner once React is ready
 const spinner = document.getElementById('spinner')
@@ -22,32 +38,3 @@ if (spinner) {
     setTimeout(() => spinner.remove(), 300)
   }, 100)
 }
-
-// Handle pending actions from context menu
-async function handlePendingAction() {
-  const { pendingAction } = await chrome.storage.session.get('pendingAction')
-  if (pendingAction) {
-    // Clear it so it doesn't trigger again
-    await chrome.storage.session.remove('pendingAction')
-
-    // Wait for app to be ready
-    await new Promise((resolve) => setTimeout(resolve, 500))
-
-    // Dispatch custom event that the app can listen to
-    window.dispatchEvent(
-      new CustomEvent('cherry:action', {
-        detail: pendingAction
-      })
-    )
-  }
-}
-
-// Check for pending actions when loaded
-handlePendingAction()
-
-// Listen for new actions while panel is open
-chrome.storage.session.onChanged.addListener((changes) => {
-  if (changes.pendingAction?.newValue) {
-    handlePendingAction()
-  }
-})
@@ -0,0 +1,119 @@
+import type { KnowledgeBaseParams } from '@types'
+import type { Request, Response } from 'express'
+import express from 'express'
+
+import KnowledgeService from '../../services/KnowledgeService'
+import { loggerService } from '../../services/LoggerService'
+
+const logger = loggerService.withContext('ApiServerKnowledgeRoutes')
+
+const router = express.Router()
+
+/**
+ * @swagger
+ * /v1/knowledge/search:
+ *   post:
+ *     summary: Search a knowledge base
+ *     description: Search a knowledge base indexed by this app, with the same parameters the app uses internally
+ *     tags: [Knowledge]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [search, base]
+ *             properties:
+ *               search:
+ *                 type: string
+ *                 description: Search query
+ *               base:
+ *                 type: object
+ *                 description: Knowledge base parameters, including the base id and its embedding model
+ *     responses:
+ *       200:
+ *         description: Search results, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       pageContent:
+ *                         type: string
+ *                       score:
+ *                         type: number
+ *                       metadata:
+ *                         type: object
+ *       400:
+ *         description: Invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Knowledge base not indexed by this app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Service unavailable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/search', async (req: Request, res: Response) => {
+  const { search, base } = (req.body ?? {}) as { search?: string; base?: KnowledgeBaseParams }
+  if (typeof search !== 'string' || !base?.id) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: 'search and base are required',
+        type: 'invalid_request_error',
+        code: 'invalid_parameters'
+      }
+    })
+  }
+
+  // Searching an unknown base would create an empty store for it on disk
+  if (!KnowledgeService.hasKnowledgeBase(base.id)) {
+    logger.warn('Knowledge base not found', { baseId: base.id })
+    return res.status(404).json({
+      success: false,
+      error: {
+        message: 'Knowledge base not found',
+        type: 'not_found',
+        code: 'knowledge_base_not_found'
+      }
+    })
+  }
+
+  try {
+    logger.debug('Knowledge search request received', { baseId: base.id })
+    const results = await KnowledgeService.search(null as unknown as Electron.IpcMainInvokeEvent, { search, base })
+    return res.json({
+      success: true,
+      data: results
+    })
+  } catch (error: any) {
+    logger.error('Error searching knowledge base', { error, baseId: base.id })
+    return res.status(503).json({
+      success: false,
+      error: {
+        message: `Failed to search knowledge base: ${error.message}`,
+        type: 'service_unavailable',
+        code: 'knowledge_unavailable'
+      }
+    })
+  }
+})
+
+export { router as knowledgeRoutes }
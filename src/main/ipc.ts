@@ -24,6 +24,7 @@ import type { PluginError } from '@types'
 import type {
   AgentPersistedMessage,
   FileMetadata,
+  HubScriptInput,
   Notification,
   OcrProvider,
   Provider,
@@ -36,6 +37,8 @@ import type { ProxyConfig } from 'electron'
 import { BrowserWindow, dialog, ipcMain, session, shell, systemPreferences, webContents } from 'electron'
 import fontList from 'font-list'
 
+import { browserProfiles } from './mcpServers/browser/profiles'
+import { hubScripts } from './mcpServers/hub/scripts'
 import { agentMessageRepository } from './services/agents/database'
 import { PluginService } from './services/agents/plugins/PluginService'
 import { apiServerService } from './services/ApiServerService'
@@ -827,6 +830,17 @@ export async function registerIpc(mainWindow: BrowserWindow, app: Electron.App)
     }
   )
 
+  // Browser profiles of the built-in browser MCP server
+  ipcMain.handle(IpcChannel.BrowserProfile_List, () => browserProfiles.list())
+  ipcMain.handle(IpcChannel.BrowserProfile_Clear, (_, name: string) => browserProfiles.clear(name))
+  ipcMain.handle(IpcChannel.BrowserProfile_Delete, (_, name: string) => browserProfiles.delete(name))
+
+  // Saved scripts of the Hub MCP server
+  ipcMain.handle(IpcChannel.HubScript_List, () => hubScripts.list())
+  ipcMain.handle(IpcChannel.HubScript_Save, (_, script: HubScriptInput) => hubScripts.save(script))
+  ipcMain.handle(IpcChannel.HubScript_Restore, (_, name: string, version: number) => hubScripts.restore(name, version))
+  ipcMain.handle(IpcChannel.HubScript_Delete, (_, name: string) => hubScripts.delete(name))
+
   ipcMain.handle(IpcChannel.App_IsBinaryExist, (_, name: string) => isBinaryExists(name))
   ipcMain.handle(IpcChannel.App_GetBinaryPath, (_, name: string) => getBinaryPath(name))
   ipcMain.handle(IpcChannel.App_InstallUvBinary, () => runInstallScript('install-uv.js'))
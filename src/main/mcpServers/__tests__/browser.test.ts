@@ -1,4 +1,5 @@
-import { describe, expect, it, vi } from 'vitest'
+import * as electron from 'electron'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 vi.mock('node:fs', () => ({
   default: {
@@ -116,6 +117,7 @@ vi.mock('electron', () => {
 })
 
 import { CdpBrowserController } from '../browser'
+import { saveCapture } from '../browser/tools/utils'
 
 describe('CdpBrowserController', () => {
   it('executes single-line code via Runtime.evaluate', async () => {
@@ -216,6 +218,20 @@ describe('CdpBrowserController', () => {
     })
   })
 
+  describe('Profiles', () => {
+    it('rejects invalid profile names', () => {
+      expect(() => new CdpBrowserController({ profile: 'Bad Name' })).toThrow('Invalid browser profile name')
+    })
+
+    it('opens pages with a profile', async () => {
+      const controller = new CdpBrowserController({ profile: 'work' })
+      const result = await controller.open('https://example.com/', 5000, false)
+
+      expect(result.tabId).toBeDefined()
+      await controller.reset()
+    })
+  })
+
   describe('Tab management', () => {
     it('lists tabs in a window', async () => {
       const controller = new CdpBrowserController()
@@ -369,4 +385,117 @@ describe('CdpBrowserController', () => {
       expect(normalTabs.length).toBe(0)
     })
   })
+
+  describe('Page interaction', () => {
+    const sendCommand = (electron as any).__mockSendCommand as ReturnType<typeof vi.fn>
+    let defaultImplementation: ((...args: any[]) => any) | undefined
+
+    const axTree = {
+      nodes: [
+        { nodeId: '1', ignored: false, role: { value: 'RootWebArea' }, name: { value: 'Login' }, childIds: ['2'] },
+        { nodeId: '2', parentId: '1', ignored: false, role: { value: 'generic' }, childIds: ['3', '5'] },
+        {
+          nodeId: '3',
+          parentId: '2',
+          ignored: false,
+          role: { value: 'button' },
+          name: { value: 'Sign in' },
+          childIds: ['4'],
+          backendDOMNodeId: 30
+        },
+        { nodeId: '4', parentId: '3', ignored: false, role: { value: 'StaticText' }, name: { value: 'Sign in' } },
+        {
+          nodeId: '5',
+          parentId: '2',
+          ignored: false,
+          role: { value: 'textbox' },
+          name: { value: 'Email' },
+          value: { value: 'me@example.com' },
+          backendDOMNodeId: 50
+        }
+      ]
+    }
+
+    beforeEach(() => {
+      defaultImplementation = sendCommand.getMockImplementation()
+      sendCommand.mockImplementation(async (command: string) => {
+        if (command === 'Accessibility.getFullAXTree') return axTree
+        if (command === 'DOM.resolveNode') return { object: { objectId: 'element' } }
+        if (command === 'DOM.getContentQuads') return { quads: [[10, 20, 30, 20, 30, 40, 10, 40]] }
+        if (command === 'Page.getLayoutMetrics') return { cssLayoutViewport: { pageX: 0, pageY: 100 } }
+        if (command === 'Page.captureScreenshot') return { data: 'aW1hZ2U=' }
+        return {}
+      })
+    })
+
+    afterEach(() => {
+      sendCommand.mockImplementation(defaultImplementation!)
+    })
+
+    it('renders an accessibility snapshot with element refs', async () => {
+      const controller = new CdpBrowserController()
+      const { page } = await controller.getPage()
+      const result = await page.snapshot()
+
+      expect(result.snapshot).toBe('- button "Sign in" @ref:1\n- textbox "Email": me@example.com @ref:2')
+      expect(result.refs['@ref:1']).toEqual({ role: 'button', name: 'Sign in' })
+    })
+
+    it('keeps refs stable across snapshots of the same tab', async () => {
+      const controller = new CdpBrowserController()
+      const first = await (await controller.getPage()).page.snapshot()
+      const second = await (await controller.getPage()).page.snapshot({ interactiveOnly: true })
+
+      expect(Object.keys(second.refs)).toEqual(Object.keys(first.refs))
+    })
+
+    it('clicks a ref at the center of the element', async () => {
+      const controller = new CdpBrowserController()
+      const { page } = await controller.getPage()
+      await page.snapshot()
+      await page.click('@ref:1')
+
+      expect(sendCommand).toHaveBeenCalledWith('DOM.resolveNode', { backendNodeId: 30 })
+      expect(sendCommand).toHaveBeenCalledWith(
+        'Input.dispatchMouseEvent',
+        expect.objectContaining({ type: 'mousePressed', x: 20, y: 30, button: 'left' })
+      )
+    })
+
+    it('rejects refs that were not returned by a snapshot', async () => {
+      const controller = new CdpBrowserController()
+      const { page } = await controller.getPage()
+
+      await expect(page.click('@ref:99')).rejects.toThrow('Unknown element reference @ref:99')
+    })
+
+    it('keeps saved captures inside the captures directory', async () => {
+      await expect(saveCapture('../outside.png', 'aW1hZ2U=')).rejects.toThrow('Invalid capture path')
+      await expect(saveCapture('/etc/outside.png', 'aW1hZ2U=')).rejects.toThrow('Invalid capture path')
+    })
+
+    it('captures an element screenshot clipped in document coordinates', async () => {
+      const controller = new CdpBrowserController()
+      const { page } = await controller.getPage()
+      await page.snapshot()
+      const data = await page.screenshot({ selector: '@ref:1' })
+
+      expect(data).toBe('aW1hZ2U=')
+      expect(sendCommand).toHaveBeenCalledWith(
+        'Page.captureScreenshot',
+        expect.objectContaining({ clip: { x: 10, y: 120, width: 20, height: 20, scale: 1 } })
+      )
+    })
+
+    it('presses keys with modifiers without inserting text', async () => {
+      const controller = new CdpBrowserController()
+      const { page } = await controller.getPage()
+      await page.press('Control+a')
+
+      expect(sendCommand).toHaveBeenCalledWith(
+        'Input.dispatchKeyEvent',
+        expect.objectContaining({ type: 'rawKeyDown', key: 'a', modifiers: 2, text: undefined })
+      )
+    })
+  })
 })
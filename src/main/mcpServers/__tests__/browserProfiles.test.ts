@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const files = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: vi.fn(async (file: string) => {
+      const content = files.get(file)
+      if (content === undefined) throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' })
+      return content
+    }),
+    writeFile: vi.fn(async (file: string, content: string) => {
+      files.set(file, content)
+    })
+  }
+}))
+
+import type { browserProfiles as BrowserProfiles } from '../browser/profiles'
+
+describe('browser profiles', () => {
+  let browserProfiles: typeof BrowserProfiles
+
+  beforeEach(async () => {
+    files.clear()
+    vi.resetModules()
+    browserProfiles = (await import('../browser/profiles')).browserProfiles
+  })
+
+  it('records used profiles', async () => {
+    await browserProfiles.touch('work')
+    await browserProfiles.touch('personal')
+
+    const [file] = files.values()
+    expect(JSON.parse(file).map((record: { name: string }) => record.name)).toEqual(['work', 'personal'])
+  })
+
+  it('does not overwrite an unreadable profiles file', async () => {
+    await browserProfiles.touch('work')
+    const [file] = files.keys()
+    files.set(file, '{ not json')
+    vi.resetModules()
+    browserProfiles = (await import('../browser/profiles')).browserProfiles
+
+    await expect(browserProfiles.touch('personal')).rejects.toThrow('Failed to read browser profiles')
+    expect(files.get(file)).toBe('{ not json')
+  })
+})
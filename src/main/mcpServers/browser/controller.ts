@@ -5,6 +5,8 @@ import { app, BrowserView, BrowserWindow, nativeTheme } from 'electron'
 import TurndownService from 'turndown'
 
 import { SESSION_KEY_DEFAULT, SESSION_KEY_PRIVATE, TAB_BAR_HEIGHT } from './constants'
+import { CdpPage, createElementRefs } from './page'
+import { getProfilePartition, validateProfileName } from './profiles'
 import { TAB_BAR_HTML } from './tabbar-html'
 import { logger, type TabInfo, userAgent, type WindowInfo } from './types'
 
@@ -13,16 +15,20 @@ import { logger, type TabInfo, userAgent, type WindowInfo } from './types'
  * Supports two modes: normal (persistent) and private (ephemeral).
  * Normal mode persists user data (cookies, localStorage, etc.) globally across all clients.
  * Private mode is ephemeral - data is cleared when the window closes.
+ * With a profile, normal mode persists to that profile's own partition instead of the global one.
  */
 export class CdpBrowserController {
   private windows: Map<string, WindowInfo> = new Map()
   private readonly maxWindows: number
   private readonly idleTimeoutMs: number
   private readonly turndownService: TurndownService
+  private readonly profile?: string
 
-  constructor(options?: { maxWindows?: number; idleTimeoutMs?: number }) {
+  constructor(options?: { maxWindows?: number; idleTimeoutMs?: number; profile?: string }) {
+    if (options?.profile) validateProfileName(options.profile)
     this.maxWindows = options?.maxWindows ?? 5
     this.idleTimeoutMs = options?.idleTimeoutMs ?? 5 * 60 * 1000
+    this.profile = options?.profile
     this.turndownService = new TurndownService()
 
     // Listen for theme changes and update all tab bars
@@ -43,6 +49,10 @@ export class CdpBrowserController {
   }
 
   private getPartition(privateMode: boolean): string {
+    if (this.profile) {
+      // Private windows of a profile are still isolated from those of other profiles
+      return privateMode ? `${SESSION_KEY_PRIVATE}-${this.profile}` : getProfilePartition(this.profile)
+    }
     return privateMode ? SESSION_KEY_PRIVATE : `persist:${SESSION_KEY_DEFAULT}`
   }
 
@@ -99,6 +109,8 @@ export class CdpBrowserController {
         dbg.attach('1.3')
         await dbg.sendCommand('Page.enable')
         await dbg.sendCommand('Runtime.enable')
+        await dbg.sendCommand('DOM.enable')
+        await dbg.sendCommand('Accessibility.enable')
         logger.info('Debugger attached and domains enabled')
       } catch (error) {
         logger.error('Failed to attach debugger', { error })
@@ -662,25 +674,50 @@ export class CdpBrowserController {
     // Update tab info
     tab.url = currentUrl
     tab.title = title
+    // Element references pointed into the previous document
+    tab.elementRefs = undefined
 
     return { currentUrl, title, tabId: actualTabId }
   }
 
   /**
-   * Executes JavaScript code in the page context using Chrome DevTools Protocol.
-   * @param code - JavaScript code to evaluate in the page
-   * @param timeout - Execution timeout in milliseconds (default: 5000)
+   * Gets a tab with the debugger attached, for CDP commands
    * @param privateMode - If true, targets the private browsing window (default: false)
    * @param tabId - Optional specific tab ID to target; if omitted, uses the active tab
-   * @returns The result value from the evaluated code, or null if no value returned
    */
-  public async execute(code: string, timeout = 5000, privateMode = false, tabId?: string) {
+  private async getDebugger(privateMode: boolean, tabId?: string) {
     const { tabId: actualTabId, tab } = await this.getTab(privateMode, tabId)
     const windowKey = this.getWindowKey(privateMode)
     this.touchTab(windowKey, actualTabId)
     const dbg = tab.view.webContents.debugger
 
     await this.ensureDebuggerAttached(dbg, windowKey)
+    return { tabId: actualTabId, tab, dbg }
+  }
+
+  /**
+   * Gets the page of a tab for snapshots, input events (click, fill, press, scroll, wait) and captures.
+   * Element references from snapshots are kept per tab.
+   * @param privateMode - If true, targets the private browsing window (default: false)
+   * @param tabId - Optional specific tab ID to target; if omitted, uses the active tab
+   * @returns The page, the ID of the tab it belongs to and its current URL
+   */
+  public async getPage(privateMode = false, tabId?: string): Promise<{ tabId: string; page: CdpPage; url: string }> {
+    const { tabId: actualTabId, tab, dbg } = await this.getDebugger(privateMode, tabId)
+    tab.elementRefs ??= createElementRefs()
+    return { tabId: actualTabId, page: new CdpPage(dbg, tab.elementRefs), url: tab.view.webContents.getURL() }
+  }
+
+  /**
+   * Executes JavaScript code in the page context using Chrome DevTools Protocol.
+   * @param code - JavaScript code to evaluate in the page
+   * @param timeout - Execution timeout in milliseconds (default: 5000)
+   * @param privateMode - If true, targets the private browsing window (default: false)
+   * @param tabId - Optional specific tab ID to target; if omitted, uses the active tab
+   * @returns The result value from the evaluated code, or null if no value returned
+   */
+  public async execute(code: string, timeout = 5000, privateMode = false, tabId?: string) {
+    const { dbg } = await this.getDebugger(privateMode, tabId)
 
     let timeoutHandle: ReturnType<typeof setTimeout> | undefined
     const evalPromise = dbg.sendCommand('Runtime.evaluate', {
@@ -0,0 +1,438 @@
+import type { ElementRefs } from './types'
+
+// Same roles the BTCP snapshot treats as interactive
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem'
+])
+
+// Layout-only nodes; their children are rendered in their place
+const TRANSPARENT_ROLES = new Set(['none', 'presentation', 'generic', 'InlineTextBox', 'LineBreak'])
+
+const REF_PATTERN = /^@ref:\d+$/
+const MAX_SNAPSHOT_LENGTH = 50000
+const DEFAULT_SCROLL_AMOUNT = 400
+const WAIT_POLL_INTERVAL = 100
+
+// Modifier bits of Input.dispatchKeyEvent
+const MODIFIERS: Record<string, number> = { Alt: 1, Control: 2, Ctrl: 2, Meta: 4, Command: 4, Shift: 8 }
+
+const KEY_DEFINITIONS: Record<string, { code: string; keyCode: number; text?: string }> = {
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Space: { code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 }
+}
+
+interface AXValue {
+  value?: unknown
+}
+
+interface AXNode {
+  nodeId: string
+  ignored: boolean
+  role?: AXValue
+  name?: AXValue
+  value?: AXValue
+  childIds?: string[]
+  parentId?: string
+  backendDOMNodeId?: number
+}
+
+export interface SnapshotOptions {
+  selector?: string
+  maxDepth?: number
+  interactiveOnly?: boolean
+}
+
+export interface SnapshotResult {
+  snapshot: string
+  refs: Record<string, { role: string; name?: string }>
+  _truncated?: boolean
+  _message?: string
+}
+
+export interface ScreenshotOptions {
+  selector?: string
+  fullPage?: boolean
+  format?: 'png' | 'jpeg'
+  quality?: number
+}
+
+export interface PdfOptions {
+  landscape?: boolean
+  printBackground?: boolean
+  scale?: number
+  pageRanges?: string
+}
+
+export type ElementState = 'attached' | 'visible' | 'hidden'
+
+export function createElementRefs(): ElementRefs {
+  return { nodes: new Map(), refs: new Map(), next: 1 }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Accessibility snapshots, input events and captures for one tab, over CDP.
+ * Elements are targeted by CSS selector or by the @ref:N references of a snapshot, which map to
+ * DOM backend node ids and stay the same for an element across snapshots.
+ */
+export class CdpPage {
+  constructor(
+    private readonly dbg: Electron.Debugger,
+    private readonly elementRefs: ElementRefs
+  ) {}
+
+  private send<T = any>(method: string, params?: Record<string, unknown>): Promise<T> {
+    return this.dbg.sendCommand(method, params)
+  }
+
+  private refFor(backendNodeId: number): string {
+    let ref = this.elementRefs.refs.get(backendNodeId)
+    if (!ref) {
+      ref = `@ref:${this.elementRefs.next++}`
+      this.elementRefs.refs.set(backendNodeId, ref)
+      this.elementRefs.nodes.set(ref, backendNodeId)
+    }
+    return ref
+  }
+
+  /**
+   * Remote object id of the element matching a CSS selector or snapshot ref
+   */
+  private async resolve(selector: string): Promise<string> {
+    const ref = selector.trim()
+    if (REF_PATTERN.test(ref)) {
+      const backendNodeId = this.elementRefs.nodes.get(ref)
+      if (!backendNodeId) {
+        throw new Error(`Unknown element reference ${ref}, take a snapshot first`)
+      }
+      try {
+        const { object } = await this.send('DOM.resolveNode', { backendNodeId })
+        return object.objectId
+      } catch {
+        throw new Error(`Element ${ref} is no longer in the page, take a new snapshot`)
+      }
+    }
+
+    const { result, exceptionDetails } = await this.send('Runtime.evaluate', {
+      expression: `document.querySelector(${JSON.stringify(selector)})`
+    })
+    if (exceptionDetails) throw new Error(`Invalid selector: ${selector}`)
+    if (!result?.objectId) throw new Error(`No element matches ${selector}`)
+    return result.objectId
+  }
+
+  private async callOn<T>(objectId: string, functionDeclaration: string): Promise<T> {
+    const { result, exceptionDetails } = await this.send('Runtime.callFunctionOn', {
+      objectId,
+      functionDeclaration,
+      returnByValue: true
+    })
+    if (exceptionDetails) {
+      throw new Error(exceptionDetails.exception?.description || 'Unknown script error')
+    }
+    return result?.value as T
+  }
+
+  /**
+   * Scrolls the element into view and returns its center in viewport coordinates
+   */
+  private async center(objectId: string): Promise<{ x: number; y: number }> {
+    await this.send('DOM.scrollIntoViewIfNeeded', { objectId })
+    const { quads } = await this.send<{ quads: number[][] }>('DOM.getContentQuads', { objectId })
+    if (!quads?.length) throw new Error('Element is not visible')
+    const [x1, y1, x2, y2, x3, y3, x4, y4] = quads[0]
+    return { x: (x1 + x2 + x3 + x4) / 4, y: (y1 + y2 + y3 + y4) / 4 }
+  }
+
+  private async viewportCenter(): Promise<{ x: number; y: number }> {
+    const { cssLayoutViewport } = await this.send('Page.getLayoutMetrics')
+    return { x: cssLayoutViewport.clientWidth / 2, y: cssLayoutViewport.clientHeight / 2 }
+  }
+
+  /**
+   * Accessibility tree as indented text, one node per line: - role "name": value @ref:N
+   */
+  public async snapshot(options: SnapshotOptions = {}): Promise<SnapshotResult> {
+    const { selector, maxDepth, interactiveOnly = false } = options
+    const { nodes } = await this.send<{ nodes: AXNode[] }>('Accessibility.getFullAXTree')
+    const byId = new Map(nodes.map((node) => [node.nodeId, node]))
+
+    let root = nodes.find((node) => !node.parentId)
+    if (selector) {
+      const objectId = await this.resolve(selector)
+      const { node } = await this.send('DOM.describeNode', { objectId })
+      root = nodes.find((candidate) => candidate.backendDOMNodeId === node.backendNodeId)
+      if (!root) throw new Error(`${selector} is not part of the accessibility tree`)
+    }
+
+    const lines: string[] = []
+    const refs: SnapshotResult['refs'] = {}
+
+    const visit = (node: AXNode, depth: number, parentName: string) => {
+      const role = String(node.role?.value ?? '')
+      const name = String(node.name?.value ?? '').trim()
+      const interactive = INTERACTIVE_ROLES.has(role)
+      const isText = role === 'StaticText'
+
+      let rendered = !node.ignored && !TRANSPARENT_ROLES.has(role) && role !== 'RootWebArea'
+      if (interactiveOnly && !interactive) rendered = false
+      // Text that only repeats the name of its element
+      if (isText && (!name || name === parentName)) rendered = false
+
+      let childDepth = depth
+      if (rendered) {
+        if (maxDepth !== undefined && depth > maxDepth) return
+
+        let line = `${'  '.repeat(depth)}- ${isText ? 'text' : role}`
+        if (name) line += ` ${JSON.stringify(name)}`
+        const value = node.value?.value
+        if (value !== undefined && value !== '') line += `: ${String(value)}`
+        if (node.backendDOMNodeId && !isText && (interactive || name)) {
+          const ref = this.refFor(node.backendDOMNodeId)
+          line += ` ${ref}`
+          refs[ref] = { role, ...(name && { name }) }
+        }
+        lines.push(line)
+        childDepth = depth + 1
+      }
+
+      for (const childId of node.childIds ?? []) {
+        const child = byId.get(childId)
+        if (child) visit(child, childDepth, rendered ? name : parentName)
+      }
+    }
+
+    if (root) visit(root, 0, '')
+
+    const snapshot = lines.join('\n')
+    if (snapshot.length <= MAX_SNAPSHOT_LENGTH) {
+      return { snapshot, refs }
+    }
+    return {
+      snapshot: snapshot.slice(0, snapshot.lastIndexOf('\n', MAX_SNAPSHOT_LENGTH)),
+      refs,
+      _truncated: true,
+      _message: `Snapshot exceeds ${MAX_SNAPSHOT_LENGTH} chars, scope it with selector or set interactiveOnly`
+    }
+  }
+
+  public async click(selector: string, options: { button?: 'left' | 'right' | 'middle'; clickCount?: number } = {}) {
+    const { button = 'left', clickCount = 1 } = options
+    const { x, y } = await this.center(await this.resolve(selector))
+
+    await this.send('Input.dispatchMouseEvent', { type: 'mouseMoved', x, y })
+    for (let count = 1; count <= clickCount; count++) {
+      await this.send('Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button, clickCount: count })
+      await this.send('Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button, clickCount: count })
+    }
+  }
+
+  /**
+   * Replaces the value of an input, textarea or contenteditable element as if typed
+   */
+  public async fill(selector: string, value: string) {
+    const objectId = await this.resolve(selector)
+    await this.send('DOM.focus', { objectId })
+    // Select the current content so the inserted text replaces it
+    await this.callOn(
+      objectId,
+      `function () {
+        if (typeof this.select === 'function') {
+          this.select()
+        } else if (this.isContentEditable) {
+          const range = document.createRange()
+          range.selectNodeContents(this)
+          const selection = window.getSelection()
+          selection.removeAllRanges()
+          selection.addRange(range)
+        }
+      }`
+    )
+    if (value) {
+      await this.send('Input.insertText', { text: value })
+    } else {
+      await this.press('Delete')
+    }
+    await this.callOn(objectId, `function () { this.dispatchEvent(new Event('change', { bubbles: true })) }`)
+  }
+
+  /**
+   * Presses a key, optionally with modifiers (e.g. "Control+A"), on the focused element
+   */
+  public async press(key: string, selector?: string) {
+    if (selector) {
+      await this.send('DOM.focus', { objectId: await this.resolve(selector) })
+    }
+
+    const parts = key.split('+')
+    const mainKey = parts.pop() || key
+    const modifiers = parts.reduce((bits, part) => {
+      const bit = MODIFIERS[part]
+      if (bit === undefined) throw new Error(`Unsupported modifier: ${part}`)
+      return bits | bit
+    }, 0)
+
+    const definition =
+      KEY_DEFINITIONS[mainKey] ??
+      (mainKey.length === 1 ? { code: '', keyCode: mainKey.toUpperCase().charCodeAt(0), text: mainKey } : undefined)
+    if (!definition) throw new Error(`Unsupported key: ${mainKey}`)
+
+    // Shortcuts such as Control+A must not insert text
+    const text = modifiers & ~MODIFIERS.Shift ? undefined : definition.text
+    const event = { key: mainKey, code: definition.code, windowsVirtualKeyCode: definition.keyCode, modifiers }
+    await this.send('Input.dispatchKeyEvent', { ...event, type: text ? 'keyDown' : 'rawKeyDown', text })
+    await this.send('Input.dispatchKeyEvent', { ...event, type: 'keyUp' })
+  }
+
+  /**
+   * Scrolls with the mouse wheel over the element, or over the middle of the viewport
+   */
+  public async scroll(options: {
+    direction?: 'up' | 'down' | 'left' | 'right'
+    selector?: string
+    x?: number
+    y?: number
+  }) {
+    const { direction, selector } = options
+    const amountX = Math.abs(options.x ?? DEFAULT_SCROLL_AMOUNT)
+    const amountY = Math.abs(options.y ?? DEFAULT_SCROLL_AMOUNT)
+
+    let deltaX = 0
+    let deltaY = 0
+    switch (direction) {
+      case 'up':
+        deltaY = -amountY
+        break
+      case 'down':
+        deltaY = amountY
+        break
+      case 'left':
+        deltaX = -amountX
+        break
+      case 'right':
+        deltaX = amountX
+        break
+      default:
+        deltaX = options.x ?? 0
+        deltaY = options.y ?? (options.x === undefined ? DEFAULT_SCROLL_AMOUNT : 0)
+    }
+
+    const point = selector ? await this.center(await this.resolve(selector)) : await this.viewportCenter()
+    await this.send('Input.dispatchMouseEvent', { type: 'mouseWheel', ...point, deltaX, deltaY })
+  }
+
+  private async isVisible(selector: string): Promise<boolean | null> {
+    let objectId: string
+    try {
+      objectId = await this.resolve(selector)
+    } catch {
+      return null
+    }
+    return this.callOn<boolean>(
+      objectId,
+      `function () {
+        const rect = this.getBoundingClientRect()
+        const style = getComputedStyle(this)
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none'
+      }`
+    )
+  }
+
+  /**
+   * Polls until the element is attached, visible or hidden (detached counts as hidden)
+   */
+  public async waitFor(selector: string, options: { timeout?: number; state?: ElementState } = {}) {
+    const { timeout = 5000, state = 'visible' } = options
+    const deadline = Date.now() + timeout
+
+    for (;;) {
+      const visible = await this.isVisible(selector)
+      const reached =
+        state === 'attached' ? visible !== null : state === 'visible' ? visible === true : visible !== true
+      if (reached) return
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${timeout}ms waiting for ${selector} to be ${state}`)
+      }
+      await sleep(WAIT_POLL_INTERVAL)
+    }
+  }
+
+  /**
+   * Captures the viewport, the full page or one element; returns base64 image data
+   */
+  public async screenshot(options: ScreenshotOptions = {}): Promise<string> {
+    const { selector, fullPage = false, format = 'png', quality } = options
+
+    let clip: { x: number; y: number; width: number; height: number; scale: number } | undefined
+    if (selector) {
+      const objectId = await this.resolve(selector)
+      await this.send('DOM.scrollIntoViewIfNeeded', { objectId })
+      const { quads } = await this.send<{ quads: number[][] }>('DOM.getContentQuads', { objectId })
+      if (!quads?.length) throw new Error('Element is not visible')
+      const xs = quads[0].filter((_, index) => index % 2 === 0)
+      const ys = quads[0].filter((_, index) => index % 2 === 1)
+      // Quads are relative to the viewport, clips to the document
+      const { cssLayoutViewport } = await this.send('Page.getLayoutMetrics')
+      clip = {
+        x: Math.min(...xs) + cssLayoutViewport.pageX,
+        y: Math.min(...ys) + cssLayoutViewport.pageY,
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys),
+        scale: 1
+      }
+    } else if (fullPage) {
+      const { cssContentSize } = await this.send('Page.getLayoutMetrics')
+      clip = { x: 0, y: 0, width: cssContentSize.width, height: cssContentSize.height, scale: 1 }
+    }
+
+    const { data } = await this.send<{ data: string }>('Page.captureScreenshot', {
+      format,
+      ...(format === 'jpeg' && quality !== undefined && { quality }),
+      ...(clip && { clip, captureBeyondViewport: true })
+    })
+    return data
+  }
+
+  /**
+   * Prints the page to PDF; returns base64 PDF data
+   */
+  public async pdf(options: PdfOptions = {}): Promise<string> {
+    const { landscape = false, printBackground = true, scale, pageRanges } = options
+    const { data } = await this.send<{ data: string }>('Page.printToPDF', {
+      landscape,
+      printBackground,
+      ...(scale !== undefined && { scale }),
+      ...(pageRanges && { pageRanges })
+    })
+    return data
+  }
+}
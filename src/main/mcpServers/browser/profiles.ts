@@ -0,0 +1,122 @@
+import { getDataPath } from '@main/utils'
+import type { BrowserProfile } from '@types'
+import { session } from 'electron'
+import fs from 'fs/promises'
+import path from 'path'
+
+import { logger } from './types'
+
+// Lowercase only: Electron names partition directories after the partition
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+type ProfileRecord = Omit<BrowserProfile, 'cookies'>
+
+export function validateProfileName(name: string) {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid browser profile name "${name}": use up to 64 lowercase letters, digits, "-" or "_", starting with a letter or digit`
+    )
+  }
+}
+
+export function getProfilePartition(name: string) {
+  return `persist:browser-profile-${name}`
+}
+
+/**
+ * Named browser profiles, each with its own persistent partition.
+ * Profiles are created on first use by the browser MCP server and recorded in a registry file,
+ * so settings can list them, clear their cookies and storage, or delete them.
+ */
+class BrowserProfileRegistry {
+  private records: Promise<Map<string, ProfileRecord>> | null = null
+  private removedListeners = new Set<(name: string) => void>()
+
+  private get filePath() {
+    return path.join(getDataPath(), 'browser-profiles.json')
+  }
+
+  /**
+   * Reads the registry file. Only a missing file counts as no profiles: any other failure is thrown
+   * and not cached, so an unreadable file is never overwritten and is read again on the next call.
+   */
+  private load(): Promise<Map<string, ProfileRecord>> {
+    this.records ??= fs
+      .readFile(this.filePath, 'utf-8')
+      .then((content) => {
+        const records = JSON.parse(content) as ProfileRecord[]
+        return new Map(records.map((record) => [record.name, record]))
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return new Map<string, ProfileRecord>()
+        }
+        this.records = null
+        logger.error('Failed to read browser profiles, leaving the file unchanged', { error })
+        throw new Error(`Failed to read browser profiles from ${this.filePath}: ${error.message}`)
+      })
+    return this.records
+  }
+
+  private async save(records: Map<string, ProfileRecord>) {
+    await fs.writeFile(this.filePath, JSON.stringify([...records.values()], null, 2))
+  }
+
+  /**
+   * Records that a profile was used, creating it if needed
+   */
+  public async touch(name: string) {
+    validateProfileName(name)
+    const records = await this.load()
+    const now = Date.now()
+    records.set(name, { name, createdAt: records.get(name)?.createdAt ?? now, lastUsedAt: now })
+    try {
+      await this.save(records)
+    } catch (error) {
+      logger.warn('Failed to save browser profiles', { error, name })
+    }
+  }
+
+  public async list(): Promise<BrowserProfile[]> {
+    const records = await this.load()
+    return Promise.all(
+      [...records.values()]
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+        .map(async (record) => {
+          const cookies = await session.fromPartition(getProfilePartition(record.name)).cookies.get({})
+          return { ...record, cookies: cookies.length }
+        })
+    )
+  }
+
+  /**
+   * Clears cookies, storage and cache of a profile, keeping the profile
+   */
+  public async clear(name: string) {
+    validateProfileName(name)
+    const profileSession = session.fromPartition(getProfilePartition(name))
+    await profileSession.clearStorageData()
+    await profileSession.clearCache()
+    logger.info('Cleared browser profile', { name })
+  }
+
+  /**
+   * Closes the profile's windows, clears its data and removes it from the registry
+   */
+  public async delete(name: string) {
+    validateProfileName(name)
+    for (const listener of this.removedListeners) listener(name)
+    await this.clear(name)
+    const records = await this.load()
+    records.delete(name)
+    await this.save(records)
+    logger.info('Deleted browser profile', { name })
+  }
+
+  public onRemoved(listener: (name: string) => void): () => void {
+    this.removedListeners.add(listener)
+    return () => this.removedListeners.delete(listener)
+  }
+}
+
+export const browserProfiles = new BrowserProfileRegistry()
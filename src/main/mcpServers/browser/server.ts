@@ -4,13 +4,19 @@ import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprot
 import { app } from 'electron'
 
 import { CdpBrowserController } from './controller'
+import { browserProfiles } from './profiles'
 import { toolDefinitions, toolHandlers } from './tools'
+import { errorResponse } from './tools/utils'
 
 export class BrowserServer {
   public server: Server
-  private controller = new CdpBrowserController()
+  // One controller per profile, keyed by profile name ('' for the default profile)
+  private controllers = new Map<string, CdpBrowserController>()
 
-  constructor() {
+  /**
+   * @param defaultProfile - Profile used when a tool call doesn't name one (default: the shared default profile)
+   */
+  constructor(private readonly defaultProfile?: string) {
     const server = new MCServer(
       {
         name: '@cherry/browser',
@@ -36,15 +42,43 @@ export class BrowserServer {
       if (!handler) {
         throw new Error('Tool not found')
       }
-      return handler(this.controller, args)
+      const profile = (typeof args?.profile === 'string' && args.profile) || this.defaultProfile
+      let controller: CdpBrowserController
+      try {
+        controller = await this.getController(profile)
+      } catch (error) {
+        return errorResponse(error as Error)
+      }
+      return handler(controller, args)
+    })
+
+    browserProfiles.onRemoved((profile) => {
+      const controller = this.controllers.get(profile)
+      if (controller) {
+        this.controllers.delete(profile)
+        void controller.reset()
+      }
     })
 
     app.on('before-quit', () => {
-      void this.controller.reset()
+      for (const controller of this.controllers.values()) {
+        void controller.reset()
+      }
     })
 
     this.server = server
   }
+
+  private async getController(profile?: string): Promise<CdpBrowserController> {
+    const key = profile ?? ''
+    let controller = this.controllers.get(key)
+    if (!controller) {
+      controller = new CdpBrowserController({ profile })
+      this.controllers.set(key, controller)
+    }
+    if (profile) await browserProfiles.touch(profile)
+    return controller
+  }
 }
 
 export default BrowserServer
@@ -0,0 +1,57 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const ClickSchema = z.object({
+  selector: z.string().describe('CSS selector or element reference (@ref:N)'),
+  button: z.enum(['left', 'right', 'middle']).optional().describe('Mouse button (default: left)'),
+  clickCount: z.number().int().min(1).optional().describe('Number of clicks (2 for double-click)'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const clickToolDefinition = {
+  name: 'browser_click',
+  description: 'Click an element with real mouse events. The element is scrolled into view first.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) from browser_snapshot'
+      },
+      button: {
+        type: 'string',
+        enum: ['left', 'right', 'middle'],
+        description: 'Mouse button (default: left)'
+      },
+      clickCount: {
+        type: 'number',
+        description: 'Number of clicks (2 for double-click)'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    },
+    required: ['selector']
+  }
+}
+
+export async function handleClick(controller: CdpBrowserController, args: unknown) {
+  const { selector, button, clickCount, privateMode, tabId } = ClickSchema.parse(args)
+  try {
+    const { page } = await controller.getPage(privateMode ?? false, tabId)
+    await page.click(selector, { button, clickCount })
+    return successResponse(JSON.stringify({ success: true, selector }))
+  } catch (error) {
+    logger.error('Click failed', { error, selector, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
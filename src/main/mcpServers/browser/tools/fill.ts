@@ -0,0 +1,52 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const FillSchema = z.object({
+  selector: z.string().describe('CSS selector or element reference (@ref:N)'),
+  value: z.string().describe('Value to fill'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const fillToolDefinition = {
+  name: 'browser_fill',
+  description:
+    'Fill an input, textarea or contenteditable element, replacing its current value. Fires input and change events like typing would.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) from browser_snapshot'
+      },
+      value: {
+        type: 'string',
+        description: 'Value to fill'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    },
+    required: ['selector', 'value']
+  }
+}
+
+export async function handleFill(controller: CdpBrowserController, args: unknown) {
+  const { selector, value, privateMode, tabId } = FillSchema.parse(args)
+  try {
+    const { page } = await controller.getPage(privateMode ?? false, tabId)
+    await page.fill(selector, value)
+    return successResponse(JSON.stringify({ success: true }))
+  } catch (error) {
+    logger.error('Fill failed', { error, selector, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
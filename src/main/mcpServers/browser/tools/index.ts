@@ -1,22 +1,68 @@
+export { ClickSchema, clickToolDefinition, handleClick } from './click'
 export { ExecuteSchema, executeToolDefinition, handleExecute } from './execute'
+export { FillSchema, fillToolDefinition, handleFill } from './fill'
 export { handleOpen, OpenSchema, openToolDefinition } from './open'
+export { handlePdf, PdfSchema, pdfToolDefinition } from './pdf'
+export { handlePress, PressSchema, pressToolDefinition } from './press'
 export { handleReset, resetToolDefinition } from './reset'
+export { handleScreenshot, ScreenshotSchema, screenshotToolDefinition } from './screenshot'
+export { handleScroll, ScrollSchema, scrollToolDefinition } from './scroll'
+export { handleSnapshot, SnapshotSchema, snapshotToolDefinition } from './snapshot'
+export { handleWait, WaitSchema, waitToolDefinition } from './wait'
 
 import type { CdpBrowserController } from '../controller'
+import { clickToolDefinition, handleClick } from './click'
 import { executeToolDefinition, handleExecute } from './execute'
+import { fillToolDefinition, handleFill } from './fill'
 import { handleOpen, openToolDefinition } from './open'
+import { handlePdf, pdfToolDefinition } from './pdf'
+import { handlePress, pressToolDefinition } from './press'
 import { handleReset, resetToolDefinition } from './reset'
+import { handleScreenshot, screenshotToolDefinition } from './screenshot'
+import { handleScroll, scrollToolDefinition } from './scroll'
+import { handleSnapshot, snapshotToolDefinition } from './snapshot'
+import type { ToolResponse } from './utils'
+import { handleWait, waitToolDefinition } from './wait'
 
-export const toolDefinitions = [openToolDefinition, executeToolDefinition, resetToolDefinition]
+// Every tool can target a named profile; the server picks the controller before calling the handler
+const profileProperty = {
+  type: 'string',
+  description:
+    'Named browser profile with its own cookies and storage, e.g. "work-github" (lowercase letters, digits, - and _). Created on first use. Omit for the default profile.'
+}
+
+export const toolDefinitions = [
+  openToolDefinition,
+  executeToolDefinition,
+  resetToolDefinition,
+  snapshotToolDefinition,
+  clickToolDefinition,
+  fillToolDefinition,
+  pressToolDefinition,
+  scrollToolDefinition,
+  waitToolDefinition,
+  screenshotToolDefinition,
+  pdfToolDefinition
+].map((definition) => ({
+  ...definition,
+  inputSchema: {
+    ...definition.inputSchema,
+    properties: { ...definition.inputSchema.properties, profile: profileProperty }
+  }
+}))
+
+type ToolHandler = (controller: CdpBrowserController, args: unknown) => Promise<ToolResponse>
 
-export const toolHandlers: Record<
-  string,
-  (
-    controller: CdpBrowserController,
-    args: unknown
-  ) => Promise<{ content: { type: string; text: string }[]; isError: boolean }>
-> = {
+export const toolHandlers: Record<string, ToolHandler> = {
   open: handleOpen,
   execute: handleExecute,
-  reset: handleReset
+  reset: handleReset,
+  browser_snapshot: handleSnapshot,
+  browser_click: handleClick,
+  browser_fill: handleFill,
+  browser_press: handlePress,
+  browser_scroll: handleScroll,
+  browser_wait: handleWait,
+  browser_screenshot: handleScreenshot,
+  browser_pdf: handlePdf
 }
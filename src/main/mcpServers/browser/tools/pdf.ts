@@ -0,0 +1,75 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, saveCapture, successResponse, type ToolResponse } from './utils'
+
+export const PdfSchema = z.object({
+  path: z.string().optional().describe('File name to save the PDF to, relative to the browser captures directory'),
+  landscape: z.boolean().optional().describe('Landscape orientation (default: false)'),
+  printBackground: z.boolean().optional().describe('Print background graphics (default: true)'),
+  scale: z.number().min(0.1).max(2).optional().describe('Scale of the page rendering (default: 1)'),
+  pageRanges: z.string().optional().describe('Pages to print, e.g. "1-5, 8"'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const pdfToolDefinition = {
+  name: 'browser_pdf',
+  description:
+    'Print the current page to PDF, to archive it. With path, saves the file and returns its path and size; otherwise returns the PDF as an embedded resource.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File name to save the PDF to, relative to the browser captures directory'
+      },
+      landscape: {
+        type: 'boolean',
+        description: 'Landscape orientation (default: false)'
+      },
+      printBackground: {
+        type: 'boolean',
+        description: 'Print background graphics (default: true)'
+      },
+      scale: {
+        type: 'number',
+        description: 'Scale of the page rendering, 0.1-2 (default: 1)'
+      },
+      pageRanges: {
+        type: 'string',
+        description: 'Pages to print, e.g. "1-5, 8" (default: all)'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    }
+  }
+}
+
+export async function handlePdf(controller: CdpBrowserController, args: unknown): Promise<ToolResponse> {
+  const { path, landscape, printBackground, scale, pageRanges, privateMode, tabId } = PdfSchema.parse(args)
+  try {
+    const { tabId: actualTabId, page, url } = await controller.getPage(privateMode ?? false, tabId)
+    const data = await page.pdf({ landscape, printBackground, scale, pageRanges })
+
+    if (path) {
+      const saved = await saveCapture(path, data)
+      return successResponse(JSON.stringify({ tabId: actualTabId, ...saved }))
+    }
+
+    return {
+      content: [{ type: 'resource', resource: { uri: url, mimeType: 'application/pdf', blob: data } }],
+      isError: false
+    }
+  } catch (error) {
+    logger.error('PDF failed', { error, path, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
@@ -0,0 +1,51 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const PressSchema = z.object({
+  key: z.string().describe('Key to press, optionally with modifiers'),
+  selector: z.string().optional().describe('Element to focus before pressing'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const pressToolDefinition = {
+  name: 'browser_press',
+  description: 'Press a keyboard key (Enter, Tab, Escape, ArrowDown, etc.) on the focused element.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      key: {
+        type: 'string',
+        description: 'Key to press, e.g. Enter, Tab, Escape, ArrowDown, a, or a combination like Control+A'
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) of the element to focus before pressing'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    },
+    required: ['key']
+  }
+}
+
+export async function handlePress(controller: CdpBrowserController, args: unknown) {
+  const { key, selector, privateMode, tabId } = PressSchema.parse(args)
+  try {
+    const { page } = await controller.getPage(privateMode ?? false, tabId)
+    await page.press(key, selector)
+    return successResponse(JSON.stringify({ success: true }))
+  } catch (error) {
+    logger.error('Press failed', { error, key, selector, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
@@ -0,0 +1,75 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, saveCapture, type ToolResponse } from './utils'
+
+export const ScreenshotSchema = z.object({
+  selector: z.string().optional().describe('CSS selector or element reference (@ref:N) of the element to capture'),
+  fullPage: z.boolean().optional().describe('Capture the full scrollable page (default: false)'),
+  format: z.enum(['png', 'jpeg']).optional().describe('Image format (default: png)'),
+  quality: z.number().min(0).max(100).optional().describe('JPEG quality 0-100'),
+  path: z.string().optional().describe('File name to also save the image to, relative to the browser captures directory'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const screenshotToolDefinition = {
+  name: 'browser_screenshot',
+  description:
+    'Take a screenshot of the current page: the viewport, the full page, or one element. Returns the image, so you can see how the page is rendered.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) of the element to capture'
+      },
+      fullPage: {
+        type: 'boolean',
+        description: 'Capture the full scrollable page instead of the viewport (default: false)'
+      },
+      format: {
+        type: 'string',
+        enum: ['png', 'jpeg'],
+        description: 'Image format (default: png)'
+      },
+      quality: {
+        type: 'number',
+        description: 'JPEG quality 0-100'
+      },
+      path: {
+        type: 'string',
+        description: 'File name to also save the image to, relative to the browser captures directory'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    }
+  }
+}
+
+export async function handleScreenshot(controller: CdpBrowserController, args: unknown): Promise<ToolResponse> {
+  const { selector, fullPage, format, quality, path, privateMode, tabId } = ScreenshotSchema.parse(args)
+  try {
+    const { tabId: actualTabId, page } = await controller.getPage(privateMode ?? false, tabId)
+    const data = await page.screenshot({ selector, fullPage, format, quality })
+    const saved = path ? await saveCapture(path, data) : undefined
+
+    return {
+      content: [
+        { type: 'image', data, mimeType: `image/${format ?? 'png'}` },
+        { type: 'text', text: JSON.stringify({ tabId: actualTabId, ...(saved && { path: saved.path }) }) }
+      ],
+      isError: false
+    }
+  } catch (error) {
+    logger.error('Screenshot failed', { error, selector, fullPage, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
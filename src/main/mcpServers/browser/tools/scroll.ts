@@ -0,0 +1,62 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const ScrollSchema = z.object({
+  direction: z.enum(['up', 'down', 'left', 'right']).optional().describe('Scroll direction'),
+  selector: z.string().optional().describe('Element to scroll within'),
+  x: z.number().optional().describe('Horizontal scroll amount in px'),
+  y: z.number().optional().describe('Vertical scroll amount in px'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const scrollToolDefinition = {
+  name: 'browser_scroll',
+  description:
+    'Scroll the page or a specific element with the mouse wheel. Without direction, x and y are signed amounts; without any, scrolls down.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      direction: {
+        type: 'string',
+        enum: ['up', 'down', 'left', 'right'],
+        description: 'Scroll direction'
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) of the element to scroll within'
+      },
+      x: {
+        type: 'number',
+        description: 'Horizontal scroll amount in px (default: 400)'
+      },
+      y: {
+        type: 'number',
+        description: 'Vertical scroll amount in px (default: 400)'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    }
+  }
+}
+
+export async function handleScroll(controller: CdpBrowserController, args: unknown) {
+  const { direction, selector, x, y, privateMode, tabId } = ScrollSchema.parse(args)
+  try {
+    const { page } = await controller.getPage(privateMode ?? false, tabId)
+    await page.scroll({ direction, selector, x, y })
+    return successResponse(JSON.stringify({ success: true }))
+  } catch (error) {
+    logger.error('Scroll failed', { error, direction, selector, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
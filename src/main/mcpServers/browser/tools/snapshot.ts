@@ -0,0 +1,56 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const SnapshotSchema = z.object({
+  selector: z.string().optional().describe('CSS selector or element reference (@ref:N) to scope the snapshot'),
+  maxDepth: z.number().optional().describe('Max tree depth'),
+  interactiveOnly: z.boolean().optional().describe('Only include interactive elements (default: false)'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const snapshotToolDefinition = {
+  name: 'browser_snapshot',
+  description:
+    'Get an accessibility snapshot of the current page with element references (@ref:N). Call this after open to understand page structure and get stable element refs for browser_click, browser_fill and the other interaction tools. On large pages, scope it with selector or set interactiveOnly.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) to scope the snapshot'
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Max tree depth'
+      },
+      interactiveOnly: {
+        type: 'boolean',
+        description: 'Only include interactive elements (buttons, links, inputs, ...)'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    }
+  }
+}
+
+export async function handleSnapshot(controller: CdpBrowserController, args: unknown) {
+  const { selector, maxDepth, interactiveOnly, privateMode, tabId } = SnapshotSchema.parse(args)
+  try {
+    const { tabId: actualTabId, page } = await controller.getPage(privateMode ?? false, tabId)
+    const result = await page.snapshot({ selector, maxDepth, interactiveOnly })
+    return successResponse(JSON.stringify({ tabId: actualTabId, ...result }))
+  } catch (error) {
+    logger.error('Snapshot failed', { error, selector, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
@@ -1,14 +1,59 @@
-export function successResponse(text: string) {
+import { getDataPath } from '@main/utils'
+import fs from 'fs/promises'
+import path from 'path'
+
+type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; blob: string } }
+
+export type ToolResponse = {
+  content: ToolContent[]
+  isError: boolean
+}
+
+export function successResponse(text: string): ToolResponse {
   return {
     content: [{ type: 'text', text }],
     isError: false
   }
 }
 
-export function errorResponse(error: Error | string) {
+export function errorResponse(error: Error | string): ToolResponse {
   const message = error instanceof Error ? error.message : error
   return {
     content: [{ type: 'text', text: message }],
     isError: true
   }
 }
+
+export function getCapturesDir() {
+  return path.join(getDataPath(), 'BrowserCaptures')
+}
+
+/**
+ * Writes base64 capture data to a new file in the captures directory.
+ * The model chooses the name, so it may not leave that directory or replace an existing file.
+ */
+export async function saveCapture(name: string, data: string): Promise<{ path: string; size: number }> {
+  if (path.isAbsolute(name) || name.split(/[\\/]/).includes('..')) {
+    throw new Error(`Invalid capture path "${name}": use a relative file name inside the captures directory`)
+  }
+  const capturesDir = getCapturesDir()
+  const filePath = path.resolve(capturesDir, name)
+  if (!filePath.startsWith(capturesDir + path.sep)) {
+    throw new Error(`Invalid capture path "${name}": use a relative file name inside the captures directory`)
+  }
+
+  const buffer = Buffer.from(data, 'base64')
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  try {
+    await fs.writeFile(filePath, buffer, { flag: 'wx' })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`Capture file already exists: ${name}`)
+    }
+    throw error
+  }
+  return { path: filePath, size: buffer.length }
+}
@@ -0,0 +1,60 @@
+import * as z from 'zod'
+
+import type { CdpBrowserController } from '../controller'
+import { logger } from '../types'
+import { errorResponse, successResponse } from './utils'
+
+export const WaitSchema = z.object({
+  timeout: z.number().optional().describe('Time to wait in ms, or the maximum wait with selector (default: 5000)'),
+  selector: z.string().optional().describe('Element to wait for'),
+  state: z.enum(['attached', 'visible', 'hidden']).optional().describe('Element state to wait for (default: visible)'),
+  privateMode: z.boolean().optional().describe('Target private session (default: false)'),
+  tabId: z.string().optional().describe('Target specific tab by ID')
+})
+
+export const waitToolDefinition = {
+  name: 'browser_wait',
+  description: 'Wait for an element to be attached, visible or hidden, or for a fixed time when no selector is given.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      timeout: {
+        type: 'number',
+        description: 'Time to wait in ms; with selector, the maximum time to wait (default: 5000)'
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector or element reference (@ref:N) to wait for'
+      },
+      state: {
+        type: 'string',
+        enum: ['attached', 'visible', 'hidden'],
+        description: 'Element state to wait for (default: visible)'
+      },
+      privateMode: {
+        type: 'boolean',
+        description: 'Target private session (default: false)'
+      },
+      tabId: {
+        type: 'string',
+        description: 'Target specific tab by ID (from open response)'
+      }
+    }
+  }
+}
+
+export async function handleWait(controller: CdpBrowserController, args: unknown) {
+  const { timeout, selector, state, privateMode, tabId } = WaitSchema.parse(args)
+  try {
+    if (selector) {
+      const { page } = await controller.getPage(privateMode ?? false, tabId)
+      await page.waitFor(selector, { timeout, state })
+    } else if (timeout) {
+      await new Promise((resolve) => setTimeout(resolve, timeout))
+    }
+    return successResponse(JSON.stringify({ success: true }))
+  } catch (error) {
+    logger.error('Wait failed', { error, selector, state, privateMode, tabId })
+    return errorResponse(error as Error)
+  }
+}
@@ -11,6 +11,16 @@ export interface TabInfo {
   url: string
   title: string
   lastActive: number
+  elementRefs?: ElementRefs
+}
+
+/**
+ * Snapshot element references (@ref:N) of a tab and the DOM backend node ids they point to
+ */
+export interface ElementRefs {
+  nodes: Map<string, number>
+  refs: Map<number, string>
+  next: number
 }
 
 export interface WindowInfo {
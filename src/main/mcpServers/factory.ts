@@ -51,7 +51,7 @@ export function createInMemoryMCPServer(
       return new DiDiMcpServer(apiKey).server
     }
     case BuiltinMCPServerNames.browser: {
-      return new BrowserServer().server
+      return new BrowserServer(envs.BROWSER_PROFILE).server
     }
     case BuiltinMCPServerNames.hub: {
       return new HubServer().server
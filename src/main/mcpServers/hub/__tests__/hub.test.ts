@@ -77,6 +77,42 @@ vi.mock('@main/services/MCPService', () => ({
   }
 }))
 
+const memoryConfig = vi.hoisted(() => ({ current: null as Record<string, unknown> | null }))
+
+vi.mock('@main/services/memory/MemoryService', () => ({
+  default: {
+    getInstance: () => ({ getConfig: () => memoryConfig.current })
+  }
+}))
+
+// One dimension per topic, enough to tell the mock tools apart
+vi.mock('@main/knowledge/embedjs/embeddings/Embeddings', () => {
+  const embed = (text: string) => [/repo/i, /user|profile/i, /database|sql/i].map((topic) => (topic.test(text) ? 1 : 0))
+  return {
+    default: class {
+      init = vi.fn(async () => {})
+      embedDocuments = vi.fn(async (texts: string[]) => texts.map(embed))
+      embedQuery = vi.fn(async (text: string) => embed(text))
+    }
+  }
+})
+
+vi.mock('fs/promises', () => {
+  const files = new Map<string, string>()
+  return {
+    default: {
+      readFile: vi.fn(async (file: string) => {
+        const content = files.get(file)
+        if (content === undefined) throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' })
+        return content
+      }),
+      writeFile: vi.fn(async (file: string, content: string) => {
+        files.set(file, content)
+      })
+    }
+  }
+})
+
 import mcpService from '@main/services/MCPService'
 
 describe('HubServer Integration', () => {
@@ -136,6 +172,91 @@ describe('HubServer Integration', () => {
     })
   })
 
+  describe('semantic search', () => {
+    beforeEach(() => {
+      memoryConfig.current = {
+        embeddingModel: { id: 'text-embedding-3-small', provider: 'openai' },
+        embeddingApiClient: { model: 'text-embedding-3-small', provider: 'openai', apiKey: 'key', baseURL: 'url' }
+      }
+      hubServer.invalidateCache()
+    })
+
+    afterEach(() => {
+      memoryConfig.current = null
+    })
+
+    it('finds tools by meaning when no keyword matches', async () => {
+      const searchResult = await (hubServer as any).handleSearch({ query: 'run some sql' })
+
+      const searchText = JSON.parse(searchResult.content[0].text)
+      expect(searchText.mode).toBe('hybrid')
+      expect(searchText.total).toBe(1)
+      expect(searchText.tools).toContain('database_query')
+      expect(searchText.scores).toEqual({ database_query: 0.6 })
+    })
+
+    it('embeds only tools without a vector when the tools refresh', async () => {
+      await (hubServer as any).handleSearch({ query: 'run some sql' })
+      const { embedDocuments } = (hubServer as any).toolIndex.embeddings
+      expect(embedDocuments).toHaveBeenCalledTimes(1)
+
+      hubServer.invalidateCache()
+      await (hubServer as any).handleSearch({ query: 'run some sql' })
+      expect(embedDocuments).toHaveBeenCalledTimes(1)
+
+      await (hubServer as any).handleSaveScript({
+        name: 'list_profiles',
+        description: 'List user profiles',
+        code: 'return []'
+      })
+      await (hubServer as any).handleSearch({ query: 'run some sql' })
+      expect(embedDocuments).toHaveBeenCalledTimes(2)
+      expect(embedDocuments).toHaveBeenLastCalledWith(['scripts list profiles: List user profiles (saved script, v1)'])
+    })
+
+    it('uses keywords only without an embedding model', async () => {
+      memoryConfig.current = null
+
+      const searchResult = await (hubServer as any).handleSearch({ query: 'run some sql' })
+
+      const searchText = JSON.parse(searchResult.content[0].text)
+      expect(searchText.mode).toBe('keyword')
+      expect(searchText.total).toBe(0)
+    })
+  })
+
+  describe('saved scripts', () => {
+    it('saves a script that search finds and exec calls with params', async () => {
+      const saveResult = await (hubServer as any).handleSaveScript({
+        name: 'count_repos',
+        description: 'Count GitHub repositories about a topic',
+        code: 'const r = await github_searchRepos({ query: params.topic }); return r.repos.length',
+        inputSchema: { type: 'object', properties: { topic: { type: 'string' } }, required: ['topic'] }
+      })
+      const saved = JSON.parse(saveResult.content[0].text)
+      expect(saved).toEqual({ name: 'count_repos', version: 1, functionName: 'scripts_countRepos' })
+
+      const searchResult = await (hubServer as any).handleSearch({ query: 'count' })
+      expect(JSON.parse(searchResult.content[0].text).tools).toContain('@param {string} params.topic')
+
+      const execResult = await (hubServer as any).handleExec({
+        code: 'return await scripts_countRepos({ topic: "react" })'
+      })
+      expect(JSON.parse(execResult.content[0].text).result).toBe(2)
+      expect(mcpService.callToolById).toHaveBeenCalledWith(
+        'github__search_repos',
+        { query: 'react' },
+        expect.any(String)
+      )
+    })
+
+    it('rejects invalid script names', async () => {
+      await expect(
+        (hubServer as any).handleSaveScript({ name: 'Count Repos', description: 'Count', code: 'return 1' })
+      ).rejects.toThrow('Invalid script name')
+    })
+  })
+
   describe('tools caching', () => {
     it('uses cached tools within TTL', async () => {
       await (hubServer as any).handleSearch({ query: 'github' })
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const files = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: vi.fn(async (file: string) => {
+      const content = files.get(file)
+      if (content === undefined) throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' })
+      return content
+    }),
+    writeFile: vi.fn(async (file: string, content: string) => {
+      files.set(file, content)
+    })
+  }
+}))
+
+import type { hubScripts as HubScripts } from '../scripts'
+import { toScriptTool } from '../scripts'
+
+describe('hub scripts', () => {
+  let hubScripts: typeof HubScripts
+
+  beforeEach(async () => {
+    files.clear()
+    vi.resetModules()
+    hubScripts = (await import('../scripts')).hubScripts
+  })
+
+  it('adds a version when a script changes', async () => {
+    await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 1' })
+    const unchanged = await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 1' })
+    expect(unchanged.version).toBe(1)
+
+    const script = await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 2' })
+
+    expect(script.version).toBe(2)
+    expect(script.code).toBe('return 2')
+    expect(script.history).toHaveLength(1)
+    expect(script.history[0]).toMatchObject({ version: 1, code: 'return 1' })
+  })
+
+  it('restores a previous version as a new one', async () => {
+    await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 1' })
+    await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 2' })
+
+    const script = await hubScripts.restore('sync_issues', 1)
+
+    expect(script.version).toBe(3)
+    expect(script.code).toBe('return 1')
+    expect(script.history.map((entry) => entry.version)).toEqual([2, 1])
+  })
+
+  it('persists scripts and notifies listeners', async () => {
+    const listener = vi.fn()
+    hubScripts.onChanged(listener)
+
+    await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 1' })
+    await hubScripts.delete('sync_issues')
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(JSON.parse([...files.values()][0])).toEqual([])
+  })
+
+  it('does not overwrite an unreadable scripts file', async () => {
+    await hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 1' })
+    const [file] = files.keys()
+    files.set(file, '{ not json')
+    vi.resetModules()
+    hubScripts = (await import('../scripts')).hubScripts
+
+    await expect(hubScripts.list()).rejects.toThrow('Failed to read saved scripts')
+    await expect(
+      hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: 'return 2' })
+    ).rejects.toThrow('Failed to read saved scripts')
+    expect(files.get(file)).toBe('{ not json')
+  })
+
+  it('rejects invalid scripts', async () => {
+    await expect(
+      hubScripts.save({ name: 'Sync Issues', description: 'Sync issues', code: 'return 1' })
+    ).rejects.toThrow('Invalid script name')
+    await expect(hubScripts.save({ name: 'sync_issues', description: 'Sync issues', code: ' ' })).rejects.toThrow(
+      'Script code is required'
+    )
+  })
+
+  it('converts a script to a tool of the scripts server', () => {
+    const tool = toScriptTool({
+      name: 'sync_issues',
+      description: 'Sync issues',
+      code: 'return 1',
+      version: 2,
+      savedAt: 0,
+      createdAt: 0,
+      history: []
+    })
+
+    expect(tool).toMatchObject({
+      name: 'sync_issues',
+      serverName: 'scripts',
+      description: 'Sync issues (saved script, v2)',
+      inputSchema: { type: 'object', properties: {}, required: [] }
+    })
+  })
+})
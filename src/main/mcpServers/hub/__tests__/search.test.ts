@@ -114,5 +114,39 @@ describe('search', () => {
 
       expect(result.tools).toContain('function search(')
     })
+
+    it('includes tools similar to the query without a keyword match', () => {
+      const tools = [
+        createMockTool({ toolName: 'create_event', functionName: 'calendar_createEvent' }),
+        createMockTool({ toolName: 'delete_file', functionName: 'fs_deleteFile' })
+      ]
+      const similarities = new Map([
+        ['calendar_createEvent', 0.8],
+        ['fs_deleteFile', 0.1]
+      ])
+
+      const result = searchTools(tools, { query: 'make a calendar event' }, similarities)
+
+      expect(result.mode).toBe('hybrid')
+      expect(result.total).toBe(1)
+      expect(result.tools).toContain('calendar_createEvent')
+      expect(result.scores).toEqual({ calendar_createEvent: 0.48 })
+    })
+
+    it('ranks keyword and semantic matches together', () => {
+      const tools = [
+        createMockTool({ toolName: 'event_log', functionName: 'logs_eventLog' }),
+        createMockTool({ toolName: 'create_event', functionName: 'calendar_createEvent' })
+      ]
+      const similarities = new Map([
+        ['logs_eventLog', 0.2],
+        ['calendar_createEvent', 0.9]
+      ])
+
+      const result = searchTools(tools, { query: 'event' }, similarities)
+
+      expect(result.total).toBe(2)
+      expect(Object.keys(result.scores ?? {})).toEqual(['calendar_createEvent', 'logs_eventLog'])
+    })
   })
 })
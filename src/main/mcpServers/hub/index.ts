@@ -6,8 +6,10 @@ import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } fr
 import { generateToolFunction } from './generator'
 import { callMcpTool, clearToolMap, listAllTools, syncToolMapFromGeneratedTools } from './mcp-bridge'
 import { Runtime } from './runtime'
+import { hubScripts, toScriptTool, validateScript } from './scripts'
 import { searchTools } from './search'
-import type { ExecInput, GeneratedTool, SearchQuery } from './types'
+import { ToolEmbeddingIndex } from './semantic'
+import type { ExecInput, GeneratedTool, SaveScriptInput, SearchQuery } from './types'
 
 const logger = loggerService.withContext('MCPServer:Hub')
 const TOOLS_CACHE_KEY = 'hub:tools'
@@ -21,16 +23,20 @@ const TOOLS_CACHE_TTL = 60 * 1000 // 1 minute
  * 2. It's designed for LLM "code mode" - enabling AI to discover and call tools programmatically
  * 3. It should be auto-enabled when code mode features are used, not manually installed by users
  *
- * The server exposes two tools:
- * - `search`: Find available tools by keywords, returns JS function signatures
+ * The server exposes three tools:
+ * - `search`: Find available tools by keywords (and embedding similarity when configured), returns JS function signatures
  * - `exec`: Execute JavaScript code that calls discovered tools
+ * - `save_script`: Save exec code as a named, parameterized script, advertised by `search` like any other tool
  */
 export class HubServer {
   public server: Server
   private runtime: Runtime
+  private toolIndex: ToolEmbeddingIndex
 
   constructor() {
     this.runtime = new Runtime()
+    this.toolIndex = new ToolEmbeddingIndex()
+    hubScripts.onChanged(() => this.invalidateCache())
 
     this.server = new Server(
       {
@@ -54,14 +60,14 @@ export class HubServer {
           {
             name: 'search',
             description:
-              'Search for available MCP tools by keywords. Use this FIRST to discover tools. Returns JavaScript async function declarations with JSDoc showing exact function names, parameters, and return types for use in `exec`.',
+              'Search for available MCP tools by keywords. Use this FIRST to discover tools. Returns JavaScript async function declarations with JSDoc showing exact function names, parameters, and return types for use in `exec`, plus a relevance score per tool.',
             inputSchema: {
               type: 'object',
               properties: {
                 query: {
                   type: 'string',
                   description:
-                    'Comma-separated search keywords. A tool matches if ANY keyword appears in its name, description, or server name. Example: "chrome,browser,tab" matches tools related to Chrome OR browser OR tabs.'
+                    'Comma-separated search keywords. A tool matches if ANY keyword appears in its name, description, or server name. Example: "chrome,browser,tab" matches tools related to Chrome OR browser OR tabs. When semantic search is available, tools similar in meaning also match, so a short description of the task works too.'
                 },
                 limit: {
                   type: 'number',
@@ -86,6 +92,35 @@ export class HubServer {
               },
               required: ['code']
             }
+          },
+          {
+            name: 'save_script',
+            description:
+              'Save JavaScript that worked in `exec` as a reusable tool. The script is then returned by `search` and called in `exec` like other tools, e.g. `await scripts_syncIssues({ repo: "x" })`. Saving an existing name creates a new version.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Script name in snake_case, e.g. "sync_issues"'
+                },
+                description: {
+                  type: 'string',
+                  description: 'What the script does, used by `search`'
+                },
+                code: {
+                  type: 'string',
+                  description:
+                    'JavaScript with the same rules as `exec`. Arguments are available as `params`. Scripts can call MCP tools, but not other saved scripts. You MUST `return` the result.'
+                },
+                inputSchema: {
+                  type: 'object',
+                  description:
+                    'JSON Schema of `params`, e.g. { "type": "object", "properties": { "repo": { "type": "string" } }, "required": ["repo"] }'
+                }
+              },
+              required: ['name', 'description', 'code']
+            }
           }
         ]
       }
@@ -104,6 +139,8 @@ export class HubServer {
             return await this.handleSearch(args as unknown as SearchQuery)
           case 'exec':
             return await this.handleExec(args as unknown as ExecInput)
+          case 'save_script':
+            return await this.handleSaveScript(args as unknown as SaveScriptInput)
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`)
         }
@@ -131,7 +168,14 @@ export class HubServer {
     logger.debug('Fetching fresh tools')
     const allTools = await listAllTools()
     const existingNames = new Set<string>()
-    const tools = allTools.map((tool) => generateToolFunction(tool, existingNames, callMcpTool))
+    const mcpTools = allTools.map((tool) => generateToolFunction(tool, existingNames, callMcpTool))
+    const scriptTools = (await hubScripts.list()).map((script) => ({
+      ...generateToolFunction(toScriptTool(script), existingNames, callMcpTool),
+      scriptName: script.name,
+      // Scripts only see MCP tools, so they cannot call each other
+      fn: (params: unknown) => this.runScript(script.name, params, mcpTools)
+    }))
+    const tools = [...mcpTools, ...scriptTools]
     CacheService.set(TOOLS_CACHE_KEY, tools, TOOLS_CACHE_TTL)
     syncToolMapFromGeneratedTools(tools)
     return tools
@@ -149,7 +193,8 @@ export class HubServer {
     }
 
     const tools = await this.fetchTools()
-    const result = searchTools(tools, query)
+    const similarities = await this.toolIndex.score(tools, query.query)
+    const result = searchTools(tools, query, similarities ?? undefined)
 
     return {
       content: [
@@ -161,6 +206,46 @@ export class HubServer {
     }
   }
 
+  private async runScript(name: string, params: unknown, tools: GeneratedTool[]): Promise<unknown> {
+    const script = await hubScripts.get(name)
+    if (!script) {
+      throw new Error(`Script not found: ${name}`)
+    }
+    const output = await this.runtime.execute(script.code, tools, params ?? {})
+    if (output.isError) {
+      throw new Error(`Script ${name} failed: ${output.error}`)
+    }
+    return output.result
+  }
+
+  private async handleSaveScript(input: SaveScriptInput) {
+    if (!input.name || !input.code || !input.description) {
+      throw new McpError(ErrorCode.InvalidParams, 'name, description and code parameters are required')
+    }
+    try {
+      validateScript(input)
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message)
+    }
+
+    const script = await hubScripts.save(input)
+    const tools = await this.fetchTools()
+    const tool = tools.find((candidate) => candidate.scriptName === script.name)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            { name: script.name, version: script.version, functionName: tool?.functionName },
+            null,
+            2
+          )
+        }
+      ]
+    }
+  }
+
   private async handleExec(input: ExecInput) {
     if (!input.code || typeof input.code !== 'string') {
       throw new McpError(ErrorCode.InvalidParams, 'code parameter is required and must be a string')
@@ -20,7 +20,9 @@ const MAX_LOGS = 1000
 const EXECUTION_TIMEOUT = 60000
 
 export class Runtime {
-  async execute(code: string, tools: GeneratedTool[]): Promise<ExecOutput> {
+  async execute(code: string, tools: GeneratedTool[], params?: unknown): Promise<ExecOutput> {
+    const scriptTools = new Map(tools.filter((tool) => tool.scriptName).map((tool) => [tool.functionName, tool]))
+
     return await new Promise<ExecOutput>((resolve) => {
       const logs: string[] = []
       const activeCallIds = new Map<string, string>()
@@ -73,7 +75,11 @@ export class Runtime {
         activeCallIds.set(message.requestId, callId)
 
         try {
-          const result = await callMcpTool(message.functionName, message.params, callId)
+          // Saved scripts run in their own worker rather than on an MCP server
+          const script = scriptTools.get(message.functionName)
+          const result = script
+            ? await script.fn(message.params)
+            : await callMcpTool(message.functionName, message.params, callId)
           if (finished || timedOut) {
             return
           }
@@ -162,7 +168,8 @@ export class Runtime {
       const execMessage: HubWorkerExecMessage = {
         type: 'exec',
         code,
-        tools: tools.map((tool) => ({ functionName: tool.functionName }))
+        tools: tools.map((tool) => ({ functionName: tool.functionName })),
+        params
       }
       worker.postMessage(execMessage)
     })
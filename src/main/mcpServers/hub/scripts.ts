@@ -0,0 +1,173 @@
+import { loggerService } from '@logger'
+import { getDataPath } from '@main/utils'
+import type { HubScript, HubScriptInput, MCPTool } from '@types'
+import fs from 'fs/promises'
+import path from 'path'
+
+const logger = loggerService.withContext('MCPServer:Hub:Scripts')
+
+// Snake case, so the generated function name stays readable
+const SCRIPT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/
+const MAX_HISTORY = 20
+
+export const SCRIPTS_SERVER_ID = 'hub-scripts'
+export const SCRIPTS_SERVER_NAME = 'scripts'
+
+export function validateScript(input: HubScriptInput) {
+  if (typeof input.name !== 'string' || !SCRIPT_NAME_PATTERN.test(input.name)) {
+    throw new Error(
+      `Invalid script name "${input.name}": use up to 64 lowercase letters, digits or "_", starting with a letter`
+    )
+  }
+  if (typeof input.code !== 'string' || !input.code.trim()) {
+    throw new Error('Script code is required')
+  }
+  if (typeof input.description !== 'string' || !input.description.trim()) {
+    throw new Error('Script description is required')
+  }
+  if (input.inputSchema !== undefined && input.inputSchema?.type !== 'object') {
+    throw new Error('Script inputSchema must be a JSON Schema of type "object"')
+  }
+}
+
+/**
+ * The script as an MCP tool, so the hub generates and advertises it like any other tool
+ */
+export function toScriptTool(script: HubScript): MCPTool {
+  return {
+    id: `${SCRIPTS_SERVER_ID}__${script.name}`,
+    name: script.name,
+    description: `${script.description} (saved script, v${script.version})`,
+    serverId: SCRIPTS_SERVER_ID,
+    serverName: SCRIPTS_SERVER_NAME,
+    inputSchema: { type: 'object', properties: {}, required: [], ...script.inputSchema },
+    type: 'mcp'
+  }
+}
+
+/**
+ * Composite tools saved from Hub exec code, kept in a JSON file with their previous versions.
+ * Saving under an existing name adds a version; settings can review, edit, restore or delete them.
+ */
+class HubScriptStore {
+  private scripts: Promise<Map<string, HubScript>> | null = null
+  private changedListeners = new Set<() => void>()
+
+  private get filePath() {
+    return path.join(getDataPath(), 'hub-scripts.json')
+  }
+
+  /**
+   * Reads the scripts file. Only a missing file counts as no scripts: any other failure is thrown
+   * and not cached, so an unreadable file is never overwritten and is read again on the next call.
+   */
+  private load(): Promise<Map<string, HubScript>> {
+    this.scripts ??= fs
+      .readFile(this.filePath, 'utf-8')
+      .then((content) => {
+        const scripts = JSON.parse(content) as HubScript[]
+        return new Map(scripts.map((script) => [script.name, script]))
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return new Map<string, HubScript>()
+        }
+        this.scripts = null
+        logger.error('Failed to read hub scripts, leaving the file unchanged', error)
+        throw new Error(`Failed to read saved scripts from ${this.filePath}: ${error.message}`)
+      })
+    return this.scripts
+  }
+
+  private async update(scripts: Map<string, HubScript>) {
+    await fs.writeFile(this.filePath, JSON.stringify([...scripts.values()], null, 2))
+    for (const listener of this.changedListeners) listener()
+  }
+
+  public async list(): Promise<HubScript[]> {
+    const scripts = await this.load()
+    return [...scripts.values()].sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  public async get(name: string): Promise<HubScript | undefined> {
+    const scripts = await this.load()
+    return scripts.get(name)
+  }
+
+  /**
+   * Saves a script, adding a version when it already exists and changed
+   */
+  public async save(input: HubScriptInput): Promise<HubScript> {
+    validateScript(input)
+    const scripts = await this.load()
+    const existing = scripts.get(input.name)
+    const now = Date.now()
+
+    if (
+      existing &&
+      existing.code === input.code &&
+      existing.description === input.description &&
+      JSON.stringify(existing.inputSchema) === JSON.stringify(input.inputSchema)
+    ) {
+      return existing
+    }
+
+    const script: HubScript = {
+      name: input.name,
+      description: input.description,
+      code: input.code,
+      inputSchema: input.inputSchema,
+      version: (existing?.version ?? 0) + 1,
+      savedAt: now,
+      createdAt: existing?.createdAt ?? now,
+      history: existing
+        ? [
+            {
+              version: existing.version,
+              description: existing.description,
+              code: existing.code,
+              inputSchema: existing.inputSchema,
+              savedAt: existing.savedAt
+            },
+            ...existing.history
+          ].slice(0, MAX_HISTORY)
+        : []
+    }
+    scripts.set(script.name, script)
+    await this.update(scripts)
+    logger.info('Saved hub script', { name: script.name, version: script.version })
+    return script
+  }
+
+  /**
+   * Saves a previous version again as the newest one
+   */
+  public async restore(name: string, version: number): Promise<HubScript> {
+    const script = await this.get(name)
+    const previous = script?.history.find((entry) => entry.version === version)
+    if (!script || !previous) {
+      throw new Error(`Version ${version} of script ${name} not found`)
+    }
+    return this.save({
+      name,
+      description: previous.description,
+      code: previous.code,
+      inputSchema: previous.inputSchema
+    })
+  }
+
+  public async delete(name: string) {
+    const scripts = await this.load()
+    if (scripts.delete(name)) {
+      await this.update(scripts)
+      logger.info('Deleted hub script', { name })
+    }
+  }
+
+  public onChanged(listener: () => void): () => void {
+    this.changedListeners.add(listener)
+    return () => this.changedListeners.delete(listener)
+  }
+}
+
+export const hubScripts = new HubScriptStore()
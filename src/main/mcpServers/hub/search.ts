@@ -4,7 +4,22 @@ import type { GeneratedTool, SearchQuery, SearchResult } from './types'
 const DEFAULT_LIMIT = 10
 const MAX_LIMIT = 50
 
-export function searchTools(tools: GeneratedTool[], query: SearchQuery): SearchResult {
+// Hybrid ranking: normalized keyword score and embedding similarity
+const KEYWORD_WEIGHT = 0.4
+const SEMANTIC_WEIGHT = 0.6
+// Tools without a keyword match need at least this similarity to be returned
+const MIN_SIMILARITY = 0.3
+
+/**
+ * Search tools by comma-separated keywords. With `similarities` (query-to-tool embedding similarity
+ * by function name), tools are ranked by keyword and semantic relevance together, so a query like
+ * "make a calendar event" also finds `create_event`.
+ */
+export function searchTools(
+  tools: GeneratedTool[],
+  query: SearchQuery,
+  similarities?: Map<string, number>
+): SearchResult {
   const { query: queryStr, limit = DEFAULT_LIMIT } = query
   const effectiveLimit = Math.min(Math.max(1, limit), MAX_LIMIT)
 
@@ -22,17 +37,39 @@ export function searchTools(tools: GeneratedTool[], query: SearchQuery): SearchR
     }
   }
 
-  const matchedTools = tools.filter((tool) => {
+  const keywordScores = new Map<GeneratedTool, number>()
+  for (const tool of tools) {
     const searchText = buildSearchText(tool).toLowerCase()
-    return keywords.some((keyword) => searchText.includes(keyword))
-  })
+    if (keywords.some((keyword) => searchText.includes(keyword))) {
+      keywordScores.set(tool, calculateScore(tool, keywords))
+    }
+  }
+
+  const maxKeywordScore = Math.max(1, ...keywordScores.values())
+  const scored: { tool: GeneratedTool; score: number }[] = []
+  for (const tool of tools) {
+    const keywordScore = keywordScores.get(tool)
+    const keyword = keywordScore === undefined ? 0 : keywordScore / maxKeywordScore
+
+    if (!similarities) {
+      if (keywordScore !== undefined) scored.push({ tool, score: keyword })
+      continue
+    }
+
+    const similarity = similarities.get(tool.functionName) ?? 0
+    if (keywordScore !== undefined || similarity >= MIN_SIMILARITY) {
+      scored.push({ tool, score: KEYWORD_WEIGHT * keyword + SEMANTIC_WEIGHT * similarity })
+    }
+  }
 
-  const rankedTools = rankTools(matchedTools, keywords)
-  const sliced = rankedTools.slice(0, effectiveLimit)
+  scored.sort((a, b) => b.score - a.score)
+  const sliced = scored.slice(0, effectiveLimit)
 
   return {
-    tools: generateToolsCode(sliced),
-    total: matchedTools.length
+    tools: generateToolsCode(sliced.map((s) => s.tool)),
+    total: scored.length,
+    scores: Object.fromEntries(sliced.map((s) => [s.tool.functionName, Math.round(s.score * 1000) / 1000])),
+    mode: similarities ? 'hybrid' : 'keyword'
   }
 }
 
@@ -49,17 +86,6 @@ function buildSearchText(tool: GeneratedTool): string {
   return parts.join(' ')
 }
 
-function rankTools(tools: GeneratedTool[], keywords: string[]): GeneratedTool[] {
-  const scored = tools.map((tool) => ({
-    tool,
-    score: calculateScore(tool, keywords)
-  }))
-
-  scored.sort((a, b) => b.score - a.score)
-
-  return scored.map((s) => s.tool)
-}
-
 function calculateScore(tool: GeneratedTool, keywords: string[]): number {
   let score = 0
   const toolName = tool.toolName.toLowerCase()
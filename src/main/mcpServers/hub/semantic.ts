@@ -0,0 +1,113 @@
+import { loggerService } from '@logger'
+import Embeddings from '@main/knowledge/embedjs/embeddings/Embeddings'
+import MemoryService from '@main/services/memory/MemoryService'
+
+import type { GeneratedTool } from './types'
+
+const logger = loggerService.withContext('MCPServer:Hub:Semantic')
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+function buildEmbeddingText(tool: GeneratedTool): string {
+  const name = `${tool.serverName} ${tool.toolName}`.replace(/[_-]+/g, ' ')
+  return tool.description ? `${name}: ${tool.description}` : name
+}
+
+/**
+ * Embedding index over the hub tools, using the embedding model configured in memory settings.
+ * Vectors are kept by embedding text for the configured model, so refreshing the tool list
+ * only embeds tools that are new or changed.
+ */
+export class ToolEmbeddingIndex {
+  private embeddings: Embeddings | null = null
+  private clientKey: string | null = null
+  private vectors = new Map<string, number[]>()
+  private embedding: Promise<void> | null = null
+
+  /**
+   * Embeddings client for the configured model, or null when none is configured
+   */
+  private getEmbeddings(): Embeddings | null {
+    const config = MemoryService.getInstance().getConfig()
+    const client = config?.embeddingApiClient
+    if (!config?.embeddingModel || !client) {
+      return null
+    }
+
+    const clientKey = `${client.provider}:${client.model}:${client.baseURL}:${config.embeddingDimensions ?? ''}`
+    if (!this.embeddings || this.clientKey !== clientKey) {
+      this.embeddings = new Embeddings({ embedApiClient: client, dimensions: config.embeddingDimensions })
+      this.clientKey = clientKey
+      // Vectors of another model are not comparable
+      this.vectors = new Map()
+    }
+    return this.embeddings
+  }
+
+  /**
+   * Vectors of the tools by embedding text, embedding only the texts without one
+   */
+  private async getToolVectors(tools: GeneratedTool[], embeddings: Embeddings): Promise<Map<string, number[]>> {
+    // One embedding request at a time, so concurrent searches don't embed the same tools twice
+    while (this.embedding) {
+      await this.embedding.catch(() => undefined)
+    }
+
+    const vectors = this.vectors
+    const texts = new Set(tools.map(buildEmbeddingText))
+    const missing = [...texts].filter((text) => !vectors.has(text))
+    if (missing.length > 0) {
+      // Drop the vectors of removed or changed tools
+      for (const text of vectors.keys()) {
+        if (!texts.has(text)) vectors.delete(text)
+      }
+      this.embedding = (async () => {
+        logger.debug('Embedding tools', { count: missing.length })
+        const documents = await embeddings.embedDocuments(missing)
+        missing.forEach((text, index) => vectors.set(text, documents[index]))
+      })().finally(() => {
+        this.embedding = null
+      })
+      await this.embedding
+    }
+    return vectors
+  }
+
+  /**
+   * Similarity of each tool to the query by function name, or null when semantic search is unavailable
+   */
+  public async score(tools: GeneratedTool[], query: string): Promise<Map<string, number> | null> {
+    const embeddings = this.getEmbeddings()
+    if (!embeddings || tools.length === 0 || !query.trim()) {
+      return null
+    }
+
+    try {
+      await embeddings.init()
+      const [vectors, queryVector] = await Promise.all([
+        this.getToolVectors(tools, embeddings),
+        embeddings.embedQuery(query)
+      ])
+      const scores = new Map<string, number>()
+      for (const tool of tools) {
+        const vector = vectors.get(buildEmbeddingText(tool))
+        if (vector) scores.set(tool.functionName, cosineSimilarity(queryVector, vector))
+      }
+      return scores
+    } catch (error) {
+      // Keyword search still works without embeddings
+      logger.warn('Semantic tool search failed, using keywords only', error as Error)
+      return null
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { MCPServer, MCPTool } from '@types'
+import type { HubScriptInput, MCPServer, MCPTool } from '@types'
 
 export interface GeneratedTool {
   serverId: string
@@ -10,6 +10,8 @@ export interface GeneratedTool {
   signature: string
   returns: string
   description?: string
+  /** Set for saved hub scripts, which run in the hub instead of an MCP server */
+  scriptName?: string
 }
 
 export interface SearchQuery {
@@ -20,12 +22,18 @@ export interface SearchQuery {
 export interface SearchResult {
   tools: string
   total: number
+  /** Relevance of each returned tool by function name, from 0 to 1 */
+  scores?: Record<string, number>
+  /** Whether embedding similarity was used for ranking */
+  mode?: 'keyword' | 'hybrid'
 }
 
 export interface ExecInput {
   code: string
 }
 
+export type SaveScriptInput = HubScriptInput
+
 export type ExecOutput = {
   result: unknown
   logs?: string[]
@@ -65,6 +73,8 @@ export type HubWorkerExecMessage = {
   type: 'exec'
   code: string
   tools: HubWorkerTool[]
+  /** Arguments of a saved script, available to the code as `params` */
+  params?: unknown
 }
 
 export type HubWorkerCallToolMessage = {
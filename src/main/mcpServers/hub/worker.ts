@@ -47,9 +47,10 @@ const callTool = (functionName, params) =>
     parentPort?.postMessage({ type: 'callTool', requestId, functionName, params })
   })
 
-const buildContext = (tools) => {
+const buildContext = (tools, params) => {
   const context = {
     __callTool: callTool,
+    params,
     parallel: (...promises) => Promise.all(promises),
     settle: (...promises) => Promise.allSettled(promises),
     console: capturedConsole
@@ -76,14 +77,14 @@ const runCode = async (code, context) => {
   return await fn(...contextValues)
 }
 
-const handleExec = async (code, tools) => {
+const handleExec = async (code, tools, params) => {
   if (isExecuting) {
     return
   }
   isExecuting = true
 
   try {
-    const context = buildContext(tools)
+    const context = buildContext(tools, params)
     const result = await runCode(code, context)
     parentPort?.postMessage({ type: 'result', result, logs: logs.length > 0 ? logs : undefined })
   } catch (error) {
@@ -118,7 +119,7 @@ parentPort?.on('message', (message) => {
   }
   switch (message.type) {
     case 'exec':
-      handleExec(message.code, message.tools ?? [])
+      handleExec(message.code, message.tools ?? [], message.params)
       break
     case 'toolResult':
       handleToolResult(message)
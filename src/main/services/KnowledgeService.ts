@@ -153,6 +153,13 @@ class KnowledgeService {
     return path.join(this.storageDir, sanitizeFilename(id, '_'))
   }
 
+  /**
+   * Whether the knowledge base has been indexed on this device
+   */
+  public hasKnowledgeBase = (id: string): boolean => {
+    return fs.existsSync(this.getDbPath(id))
+  }
+
   /**
    * Delete knowledge base file
    */
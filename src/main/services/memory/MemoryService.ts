@@ -696,6 +696,13 @@ export class MemoryService {
     this.embeddings = null
   }
 
+  /**
+   * Current configuration, including the embedding client resolved by the renderer
+   */
+  public getConfig(): MemoryConfig | null {
+    return this.config
+  }
+
   /**
    * Close database connection
    */
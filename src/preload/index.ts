@@ -19,10 +19,13 @@ import type { Notification } from '@types'
 import type {
   AddMemoryOptions,
   AssistantMessage,
+  BrowserProfile,
   FileListResponse,
   FileMetadata,
   FileUploadResponse,
   GetApiServerStatusResult,
+  HubScript,
+  HubScriptInput,
   KnowledgeBaseParams,
   KnowledgeItem,
   KnowledgeSearchResult,
@@ -406,6 +409,18 @@ const api = {
     execute: (script: string, context?: Record<string, any>, timeout?: number) =>
       ipcRenderer.invoke(IpcChannel.Python_Execute, script, context, timeout)
   },
+  browserProfile: {
+    list: (): Promise<BrowserProfile[]> => ipcRenderer.invoke(IpcChannel.BrowserProfile_List),
+    clear: (name: string): Promise<void> => ipcRenderer.invoke(IpcChannel.BrowserProfile_Clear, name),
+    delete: (name: string): Promise<void> => ipcRenderer.invoke(IpcChannel.BrowserProfile_Delete, name)
+  },
+  hubScript: {
+    list: (): Promise<HubScript[]> => ipcRenderer.invoke(IpcChannel.HubScript_List),
+    save: (script: HubScriptInput): Promise<HubScript> => ipcRenderer.invoke(IpcChannel.HubScript_Save, script),
+    restore: (name: string, version: number): Promise<HubScript> =>
+      ipcRenderer.invoke(IpcChannel.HubScript_Restore, name, version),
+    delete: (name: string): Promise<void> => ipcRenderer.invoke(IpcChannel.HubScript_Delete, name)
+  },
   shell: {
     openExternal: (url: string, options?: Electron.OpenExternalOptions) => shell.openExternal(url, options)
   },
@@ -18,6 +18,8 @@ import type { Chunk } from '@renderer/types/chunk'
 import { ChunkType } from '@renderer/types/chunk'
 import type { ToolSet, TypedToolCall, TypedToolError, TypedToolResult } from 'ai'
 
+import { isBrowserTool } from '../plugins/browserUsePlugin'
+
 const logger = loggerService.withContext('ToolCallChunkHandler')
 
 export type ToolcallsMap = {
@@ -222,6 +224,15 @@ export class ToolCallChunkHandler {
       //   return
       // }
       tool = mcpTool
+    } else if (isBrowserTool(toolName)) {
+      // 没有同名 MCP 工具时才视为 BTCP 浏览器工具，由 btcpBrowserPlugin 在客户端执行
+      logger.info(`[ToolCallChunkHandler] Handling browser tool: ${toolName}`)
+      tool = {
+        id: toolCallId,
+        name: toolName,
+        description: toolName,
+        type: 'builtin'
+      } as BaseTool
     } else {
       tool = {
         id: toolCallId,
@@ -364,6 +375,11 @@ function extractImagesFromToolOutput(output: unknown): string[] {
 
   const contents: unknown[] = []
 
+  if (isBrowserScreenshotResult(output)) {
+    const { image, format } = output
+    return [image.startsWith('data:') ? image : `data:image/${format};base64,${image}`]
+  }
+
   if (isMcpCallToolResponse(output)) {
     contents.push(...output.content)
   } else if (Array.isArray(output)) {
@@ -377,6 +393,15 @@ function extractImagesFromToolOutput(output: unknown): string[] {
     .map((content) => `data:${content.mimeType ?? 'image/png'};base64,${content.data}`)
 }
 
+function isBrowserScreenshotResult(value: unknown): value is { image: string; format: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { image?: unknown }).image === 'string' &&
+    typeof (value as { format?: unknown }).format === 'string'
+  )
+}
+
 function isMcpCallToolResponse(value: unknown): value is MCPCallToolResponse {
   return typeof value === 'object' && value !== null && Array.isArray((value as MCPCallToolResponse).content)
 }
@@ -5,6 +5,7 @@ import { getEnableDeveloperMode } from '@renderer/hooks/useSettings'
 import type { Assistant } from '@renderer/types'
 
 import type { AiSdkMiddlewareConfig } from '../middleware/AiSdkMiddlewareBuilder'
+import { createBrowserUsePlugin } from './browserUsePlugin'
 import { searchOrchestrationPlugin } from './searchOrchestrationPlugin'
 import { createTelemetryPlugin } from './telemetryPlugin'
 
@@ -69,6 +70,14 @@ export function buildPlugins(
     )
   }
 
+  // 5. 支持工具调用且助手开启了浏览器控制时添加 BTCP 浏览器插件
+  if (middlewareConfig.isSupportedToolUse || middlewareConfig.isPromptToolUse) {
+    const browserUsePlugin = createBrowserUsePlugin(middlewareConfig.assistant, middlewareConfig.onChunk)
+    if (browserUsePlugin) {
+      plugins.push(browserUsePlugin)
+    }
+  }
+
   // if (middlewareConfig.enableUrlContext && middlewareConfig.) {
   //   plugins.push(googleToolsPlugin({ urlContext: true }))
   // }
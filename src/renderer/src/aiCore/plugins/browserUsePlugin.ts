@@ -0,0 +1,180 @@
+/**
+ * Browser Use Plugin
+ *
+ * Builds the BTCP browser plugin for a single request from the effective
+ * per-assistant browser use settings, and reports tool progress to the
+ * message stream so browser steps show up as tool blocks. Mutating steps go
+ * through the site policy and, when required, the approval prompt. Replayable
+ * steps are recorded so the run can be saved as a macro.
+ */
+import type { AiPlugin } from '@cherrystudio/ai-core'
+import {
+  type BTCPAgent,
+  btcpBrowserPlugin,
+  type BTCPMacro,
+  type BTCPMacroResult,
+  type BTCPSelfTestReport,
+  type BTCPSelfTestStep,
+  type BTCPSelfTestStepResult,
+  createSelfTestSteps,
+  replayBTCPMacro,
+  runBTCPSelfTest
+} from '@cherrystudio/ai-core/built-in/plugins'
+import { loggerService } from '@logger'
+import { nanoid } from '@reduxjs/toolkit'
+import { recordBrowserMacroStep } from '@renderer/services/BrowserMacroService'
+import { requestBrowserToolApproval } from '@renderer/services/BrowserPermissionService'
+import store from '@renderer/store'
+import { selectBrowserUseSettingsForAssistant } from '@renderer/store/browserUse'
+import type { Assistant, BrowserMacro, NormalToolResponse } from '@renderer/types'
+import type { Chunk } from '@renderer/types/chunk'
+import { ChunkType } from '@renderer/types/chunk'
+
+const logger = loggerService.withContext('BrowserUsePlugin')
+
+export const BROWSER_TOOL_PREFIX = 'browser_'
+
+export const isBrowserTool = (toolName: string) => toolName.startsWith(BROWSER_TOOL_PREFIX)
+
+// Agent supplied by the host environment (e.g. the extension relays commands to the active tab).
+// When unset, the plugin launches its own BrowserAgent.
+let hostBrowserAgent: BTCPAgent | undefined
+// Self-test page shipped by the host, for agents that can't load the default data: URL page
+let hostSelfTestPageUrl: string | undefined
+// Web page where the self-test checks that the host injects its content script
+let hostSelfTestInjectionPageUrl: string | undefined
+
+export function setBrowserUseAgent(
+  agent: BTCPAgent | undefined,
+  options: { selfTestPageUrl?: string; selfTestInjectionPageUrl?: string } = {}
+) {
+  hostBrowserAgent = agent
+  hostSelfTestPageUrl = options.selfTestPageUrl
+  hostSelfTestInjectionPageUrl = options.selfTestInjectionPageUrl
+}
+
+/**
+ * Creates the browser use plugin for an assistant.
+ * Returns null when browser use is disabled globally or for the assistant.
+ */
+export function createBrowserUsePlugin(assistant: Assistant, onChunk?: (chunk: Chunk) => void): AiPlugin | null {
+  const state = store.getState()
+  const settings = selectBrowserUseSettingsForAssistant(state, assistant.id)
+
+  if (!settings.enabled) {
+    return null
+  }
+
+  const recordingId = nanoid()
+
+  return btcpBrowserPlugin({
+    enabled: true,
+    agent: hostBrowserAgent,
+    toolset: settings.toolset,
+    maxSnapshotSize: settings.maxSnapshotSize,
+    enableScreencast: settings.enableScreencast,
+    enableTracking: settings.enableTracking,
+    injectSystemPrompt: settings.injectSystemPrompt,
+    sitePolicy: state.browserUse.sitePolicy,
+    onApprovalRequest: requestBrowserToolApproval,
+    // Saved macros are persisted data: steps whose tool is not in the toolset fail when replayed
+    macros: assistant.browserMacros as BTCPMacro[] | undefined,
+    onMacroStep: (step) => recordBrowserMacroStep(assistant.id, recordingId, step),
+    onToolCall: (toolName, args, toolCallId) => {
+      logger.debug(`Browser tool called: ${toolName}`, { toolCallId, args })
+      if (!onChunk || !toolCallId) return
+
+      const toolResponse: NormalToolResponse = {
+        id: toolCallId,
+        tool: {
+          id: toolCallId,
+          name: toolName,
+          description: toolName,
+          type: 'builtin'
+        },
+        arguments: args as Record<string, unknown>,
+        status: 'invoking',
+        toolCallId
+      }
+      onChunk({
+        type: ChunkType.MCP_TOOL_IN_PROGRESS,
+        responses: [toolResponse]
+      })
+    },
+    onScreencastFrame: onChunk
+      ? (frame) => {
+          onChunk({
+            type: ChunkType.BROWSER_SCREENCAST_FRAME,
+            frame: `data:image/${frame.format};base64,${frame.image}`,
+            url: frame.url
+          })
+        }
+      : undefined,
+    onScreencastStop: onChunk ? () => onChunk({ type: ChunkType.BROWSER_SCREENCAST_COMPLETE }) : undefined,
+    onToolResult: (toolName, _result, toolCallId) => {
+      logger.debug(`Browser tool finished: ${toolName}`, { toolCallId })
+    },
+    onError: (toolName, error, toolCallId) => {
+      logger.error(`Browser tool failed: ${toolName}`, error, { toolCallId })
+    }
+  })
+}
+
+/**
+ * Replays a saved macro without the model, using the assistant's toolset and the site policy.
+ * The user starting the replay counts as approval for its steps; blocked and read-only
+ * origins still apply.
+ */
+export async function replayBrowserMacro(
+  assistant: Assistant,
+  macro: BrowserMacro,
+  params?: Record<string, string>
+): Promise<BTCPMacroResult> {
+  const state = store.getState()
+  if (!state.browserUse.globalSettings.enabled) {
+    throw new Error('Browser use is disabled')
+  }
+  const settings = selectBrowserUseSettingsForAssistant(state, assistant.id)
+
+  logger.info(`Replaying browser macro: ${macro.name}`, { steps: macro.steps.length })
+  return replayBTCPMacro(macro as BTCPMacro, params, {
+    agent: hostBrowserAgent,
+    toolset: settings.toolset,
+    maxSnapshotSize: settings.maxSnapshotSize,
+    sitePolicy: state.browserUse.sitePolicy,
+    onApprovalRequest: async () => true
+  })
+}
+
+/**
+ * Self-test steps runBrowserUseSelfTest will run, in order
+ */
+export function getBrowserUseSelfTestSteps(): BTCPSelfTestStep[] {
+  return createSelfTestSteps({
+    pageUrl: hostSelfTestPageUrl,
+    newTab: Boolean(hostBrowserAgent?.newTab && hostBrowserAgent.closeTab),
+    injectionPageUrl: hostSelfTestInjectionPageUrl
+  })
+}
+
+/**
+ * Runs the BTCP self-test against the bundled test page with the global toolset,
+ * through the same agent chat requests use.
+ */
+export function runBrowserUseSelfTest(options: {
+  onStep?: (result: BTCPSelfTestStepResult, index: number) => void
+  signal?: AbortSignal
+}): Promise<BTCPSelfTestReport> {
+  const { globalSettings } = store.getState().browserUse
+
+  logger.info('Running browser self-test', { toolset: globalSettings.toolset, hostAgent: !!hostBrowserAgent })
+  return runBTCPSelfTest(
+    {
+      agent: hostBrowserAgent,
+      toolset: globalSettings.toolset,
+      maxSnapshotSize: globalSettings.maxSnapshotSize,
+      enableTracking: globalSettings.enableTracking
+    },
+    { ...options, pageUrl: hostSelfTestPageUrl, injectionPageUrl: hostSelfTestInjectionPageUrl }
+  )
+}
@@ -11,6 +11,8 @@ export const platform = window.electron?.process?.platform
 export const isMac = platform === 'darwin'
 export const isWin = platform === 'win32' || platform === 'win64'
 export const isLinux = platform === 'linux'
+// Chrome extension build, where the window.electron stub reports the 'browser' platform
+export const isBrowserExtension = platform === 'browser'
 export const isDev = window.electron?.process?.env?.NODE_ENV === 'development'
 export const isProd = window.electron?.process?.env?.NODE_ENV === 'production'
 
@@ -13,25 +13,26 @@ export interface ToolInfo {
 const HUB_MODE_SYSTEM_PROMPT_BASE = `
 ## Hub MCP Tools – Code Execution Mode
 
-You can discover and call MCP tools through the hub server using **ONLY two meta-tools**: **search** and **exec**.
+You can discover and call MCP tools through the hub server using **ONLY three meta-tools**: **search**, **exec** and **save_script**.
 
-### ⚠️ IMPORTANT: You can ONLY call these two tools directly
+### ⚠️ IMPORTANT: You can ONLY call these three tools directly
 
 | Tool | Purpose |
 |------|---------|
 | \`search\` | Discover available tools and their signatures |
 | \`exec\` | Execute JavaScript code that calls the discovered tools |
+| \`save_script\` | Save working \`exec\` code as a reusable tool |
 
 **All other tools (listed in "Discoverable Tools" below) can ONLY be called from INSIDE \`exec\` code.**
 You CANNOT call them directly as tool calls. They are async functions available within the \`exec\` runtime.
 
 ### Critical Rules (Read First)
 
-1. **ONLY \`search\` and \`exec\` are callable as tools.** All other tools must be used inside \`exec\` code.
+1. **ONLY \`search\`, \`exec\` and \`save_script\` are callable as tools.** All other tools must be used inside \`exec\` code.
 2. You MUST explicitly \`return\` the final value from your \`exec\` code. If you do not return a value, the result will be \`undefined\`.
 3. All MCP tools inside \`exec\` are async functions. Always call them as \`await ToolName(params)\`.
 4. Use the exact function names and parameter shapes returned by \`search\`.
-5. You CANNOT call \`search\` or \`exec\` from inside \`exec\` code—use them only as direct tool calls.
+5. You CANNOT call \`search\`, \`exec\` or \`save_script\` from inside \`exec\` code—use them only as direct tool calls.
 6. \`console.log\` output is NOT the result. Logs are separate; the final answer must come from \`return\`.
 
 ### Workflow
@@ -56,6 +57,13 @@ You CANNOT call them directly as tool calls. They are async functions available
   - \`console.log/info/warn/error/debug\`
 - Returns JSON with: \`result\` (your returned value), \`logs\` (optional), \`error\` (optional), \`isError\` (optional).
 
+### What \`save_script\` Does
+
+- Saves JavaScript that worked in \`exec\` under a snake_case \`name\`, with a \`description\` and an optional JSON Schema \`inputSchema\`.
+- Inside the script, call arguments are available as \`params\`.
+- Saved scripts are returned by \`search\` (server \`scripts\`) and called in \`exec\` like any other tool, e.g. \`await scripts_syncIssues({ repo: "x" })\`.
+- Save a script when the user asks to keep a multi-step workflow; saving an existing name creates a new version.
+
 ### Example: Single Tool Call
 
 \`\`\`javascript
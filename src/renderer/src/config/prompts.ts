@@ -49,6 +49,12 @@ As [role name], with [list skills], strictly adhering to [list constraints], usi
 export const SUMMARIZE_PROMPT =
   "You are an assistant skilled in conversation. You need to summarize the user's conversation into a title within 10 words. The language of the title should be consistent with the user's primary language. Do not use punctuation marks or other special symbols"
 
+export const PAGE_SUMMARIZE_PROMPT =
+  'Summarize the web page content enclosed with <page_content>. Reply in {{language}}, keep the key points and facts, and give the summary directly without any explanation of this instruction.\n\n<page_content>\n{{text}}\n</page_content>'
+
+export const EXPLAIN_PROMPT =
+  'Explain the content enclosed with <explain_input>. Reply in {{language}} and give the explanation directly without any explanation of this instruction.\n\n<explain_input>\n{{text}}\n</explain_input>'
+
 // https://github.com/ItzCrazyKns/Perplexica/blob/master/src/lib/prompts/webSearch.ts
 export const SEARCH_SUMMARY_PROMPT = `
   You are an AI question rephraser. Your role is to rephrase follow-up queries from a conversation into standalone queries that can be used by another LLM to retrieve information, either through web search or from a knowledge base.
@@ -0,0 +1,91 @@
+import { loggerService } from '@logger'
+import { replayBrowserMacro } from '@renderer/aiCore/plugins/browserUsePlugin'
+import PromptPopup from '@renderer/components/Popups/PromptPopup'
+import { createBrowserMacro, getBrowserMacroRecording } from '@renderer/services/BrowserMacroService'
+import type { Assistant, BrowserMacro } from '@renderer/types'
+import { useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const logger = loggerService.withContext('useBrowserMacros')
+
+/**
+ * 助手的浏览器宏：保存最近一次浏览器操作、回放、重命名和删除
+ * onChange 接收更新后的宏列表，由调用方写回助手（普通助手或智能体预设）
+ */
+export function useBrowserMacros(assistant: Assistant, onChange: (macros: BrowserMacro[]) => void) {
+  const { t } = useTranslation()
+  const macros = useMemo(() => assistant.browserMacros ?? [], [assistant.browserMacros])
+
+  const promptName = useCallback(
+    async (defaultValue = '') => {
+      const name: string | undefined = await PromptPopup.show({
+        title: t('chat.input.browser_use.macro.name.title'),
+        message: t('chat.input.browser_use.macro.name.message'),
+        defaultValue,
+        inputPlaceholder: t('chat.input.browser_use.macro.name.placeholder')
+      })
+      const trimmed = name?.trim()
+      if (!trimmed || trimmed === defaultValue) return undefined
+
+      // 模型通过名称调用宏，名称需要唯一
+      if (macros.some((macro) => macro.name === trimmed)) {
+        window.toast.warning(t('chat.input.browser_use.macro.name.exists', { name: trimmed }))
+        return undefined
+      }
+      return trimmed
+    },
+    [macros, t]
+  )
+
+  const saveLastRun = useCallback(async () => {
+    const steps = getBrowserMacroRecording(assistant.id)
+    if (steps.length === 0) {
+      window.toast.warning(t('chat.input.browser_use.macro.save.empty'))
+      return
+    }
+
+    const name = await promptName()
+    if (!name) return
+
+    onChange([...macros, createBrowserMacro(name, steps)])
+    window.toast.success(t('chat.input.browser_use.macro.save.success', { name, count: steps.length }))
+  }, [assistant.id, macros, onChange, promptName, t])
+
+  const runMacro = useCallback(
+    async (macro: BrowserMacro) => {
+      window.toast.info(t('chat.input.browser_use.macro.run.started', { name: macro.name }))
+      try {
+        const result = await replayBrowserMacro(assistant, macro)
+        if (result.success) {
+          window.toast.success(
+            t('chat.input.browser_use.macro.run.success', { name: macro.name, count: result.completedSteps })
+          )
+        } else {
+          window.toast.error(t('chat.input.browser_use.macro.run.failed', { name: macro.name, error: result.error }))
+        }
+      } catch (error) {
+        logger.error(`Failed to replay browser macro: ${macro.name}`, error as Error)
+        window.toast.error(
+          t('chat.input.browser_use.macro.run.failed', { name: macro.name, error: (error as Error).message })
+        )
+      }
+    },
+    [assistant, t]
+  )
+
+  const renameMacro = useCallback(
+    async (macro: BrowserMacro) => {
+      const name = await promptName(macro.name)
+      if (!name) return
+      onChange(macros.map((item) => (item.id === macro.id ? { ...item, name } : item)))
+    },
+    [macros, onChange, promptName]
+  )
+
+  const deleteMacro = useCallback(
+    (macro: BrowserMacro) => onChange(macros.filter((item) => item.id !== macro.id)),
+    [macros, onChange]
+  )
+
+  return { macros, saveLastRun, runMacro, renameMacro, deleteMacro }
+}
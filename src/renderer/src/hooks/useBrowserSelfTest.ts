@@ -0,0 +1,100 @@
+/**
+ * Browser Self-Test Hook
+ *
+ * Runs every BTCP tool of the configured toolset against the bundled test page through
+ * the real agent, and tracks per-step status, timing and errors for the settings page.
+ */
+
+import type { BTCPSelfTestCapability, BTCPSelfTestStepResult } from '@cherrystudio/ai-core/built-in/plugins'
+import { loggerService } from '@logger'
+import { getBrowserUseSelfTestSteps, runBrowserUseSelfTest } from '@renderer/aiCore/plugins/browserUsePlugin'
+import { useCallback, useRef, useState } from 'react'
+
+const logger = loggerService.withContext('useBrowserSelfTest')
+
+export interface SelfTestStep extends Omit<BTCPSelfTestStepResult, 'status'> {
+  status: BTCPSelfTestStepResult['status'] | 'pending' | 'running'
+}
+
+const createPendingSteps = (): SelfTestStep[] =>
+  getBrowserUseSelfTestSteps().map(({ id, toolName, capability }) => ({ id, toolName, capability, status: 'pending' }))
+
+export interface UseBrowserSelfTestReturn {
+  steps: SelfTestStep[]
+  isRunning: boolean
+  currentStepIndex: number
+  brokenCapabilities: BTCPSelfTestCapability[]
+  runSelfTest: () => Promise<void>
+  stopSelfTest: () => void
+  resetSelfTest: () => void
+  error: string | null
+}
+
+export function useBrowserSelfTest(): UseBrowserSelfTestReturn {
+  const [steps, setSteps] = useState<SelfTestStep[]>(createPendingSteps)
+  const [isRunning, setIsRunning] = useState(false)
+  const [currentStepIndex, setCurrentStepIndex] = useState(-1)
+  const [brokenCapabilities, setBrokenCapabilities] = useState<BTCPSelfTestCapability[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const runSelfTest = useCallback(async () => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    setIsRunning(true)
+    setError(null)
+    setBrokenCapabilities([])
+    setSteps(createPendingSteps().map((step, index) => (index === 0 ? { ...step, status: 'running' } : step)))
+    setCurrentStepIndex(0)
+
+    try {
+      const report = await runBrowserUseSelfTest({
+        signal: abortController.signal,
+        onStep: (result, index) => {
+          setSteps((prev) =>
+            prev.map((step, i) => {
+              if (i === index) return { ...step, ...result }
+              // 下一步开始执行
+              if (i === index + 1) return { ...step, status: 'running' }
+              return step
+            })
+          )
+          setCurrentStepIndex(index + 1)
+        }
+      })
+      setBrokenCapabilities(report.brokenCapabilities)
+    } catch (err) {
+      logger.error('Browser self-test failed', err as Error)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      abortControllerRef.current = null
+      setIsRunning(false)
+      setCurrentStepIndex(-1)
+    }
+  }, [])
+
+  const stopSelfTest = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const resetSelfTest = useCallback(() => {
+    stopSelfTest()
+    setSteps(createPendingSteps())
+    setCurrentStepIndex(-1)
+    setBrokenCapabilities([])
+    setError(null)
+  }, [stopSelfTest])
+
+  return {
+    steps,
+    isRunning,
+    currentStepIndex,
+    brokenCapabilities,
+    runSelfTest,
+    stopSelfTest,
+    resetSelfTest,
+    error
+  }
+}
@@ -1,14 +1,17 @@
 import { useAppDispatch, useAppSelector } from '@renderer/store'
 import {
+  type BrowserUseSitePolicy,
   type BrowserUseToolset,
   clearBrowserUseForAssistant,
+  forgetSiteDecision,
   setBrowserUseEnabled,
   setBrowserUseForAssistant,
   setBrowserUseToolset,
   setEnableScreencast,
   setEnableTracking,
   setInjectSystemPrompt,
-  setMaxSnapshotSize
+  setMaxSnapshotSize,
+  setSitePolicy
 } from '@renderer/store/browserUse'
 import { useCallback } from 'react'
 
@@ -27,6 +30,22 @@ export function useBrowserUseSettings() {
   }
 }
 
+export function useBrowserUseSitePolicy() {
+  const dispatch = useAppDispatch()
+  const sitePolicy = useAppSelector((state) => state.browserUse.sitePolicy)
+  const siteDecisions = useAppSelector((state) => state.browserUse.siteDecisions)
+
+  return {
+    sitePolicy,
+    siteDecisions,
+    updateSitePolicy: useCallback(
+      (policy: Partial<BrowserUseSitePolicy>) => dispatch(setSitePolicy(policy)),
+      [dispatch]
+    ),
+    forgetDecision: useCallback((origin: string) => dispatch(forgetSiteDecision({ origin })), [dispatch])
+  }
+}
+
 export function useBrowserUseForAssistant(assistantId: string) {
   const dispatch = useAppDispatch()
   const globalSettings = useAppSelector((state) => state.browserUse.globalSettings)
@@ -362,3 +362,63 @@ export const getAgentTypeLabel = (key: AgentType) => {
       return 'Unknown Type'
   }
 }
+
+const browserSelfTestCapabilityKeyMap = {
+  navigation: 'settings.tool.browser_use.self_test.capability.navigation',
+  content_script: 'settings.tool.browser_use.self_test.capability.content_script',
+  injection: 'settings.tool.browser_use.self_test.capability.injection',
+  snapshot: 'settings.tool.browser_use.self_test.capability.snapshot',
+  inspection: 'settings.tool.browser_use.self_test.capability.inspection',
+  interaction: 'settings.tool.browser_use.self_test.capability.interaction',
+  locators: 'settings.tool.browser_use.self_test.capability.locators',
+  waiting: 'settings.tool.browser_use.self_test.capability.waiting',
+  frames: 'settings.tool.browser_use.self_test.capability.frames',
+  evaluate: 'settings.tool.browser_use.self_test.capability.evaluate',
+  screenshot: 'settings.tool.browser_use.self_test.capability.screenshot',
+  debugging: 'settings.tool.browser_use.self_test.capability.debugging',
+  tabs: 'settings.tool.browser_use.self_test.capability.tabs'
+} as const
+
+export const getBrowserSelfTestCapabilityLabel = (key: string): string => {
+  return getLabel(browserSelfTestCapabilityKeyMap, key)
+}
+
+const browserSelfTestHintKeyMap = {
+  navigation: 'settings.tool.browser_use.self_test.hint.navigation',
+  content_script: 'settings.tool.browser_use.self_test.hint.content_script',
+  injection: 'settings.tool.browser_use.self_test.hint.injection',
+  snapshot: 'settings.tool.browser_use.self_test.hint.snapshot',
+  inspection: 'settings.tool.browser_use.self_test.hint.inspection',
+  interaction: 'settings.tool.browser_use.self_test.hint.interaction',
+  locators: 'settings.tool.browser_use.self_test.hint.locators',
+  waiting: 'settings.tool.browser_use.self_test.hint.waiting',
+  frames: 'settings.tool.browser_use.self_test.hint.frames',
+  evaluate: 'settings.tool.browser_use.self_test.hint.evaluate',
+  screenshot: 'settings.tool.browser_use.self_test.hint.screenshot',
+  debugging: 'settings.tool.browser_use.self_test.hint.debugging',
+  tabs: 'settings.tool.browser_use.self_test.hint.tabs'
+} as const
+
+export const getBrowserSelfTestHintLabel = (key: string): string => {
+  return getLabel(browserSelfTestHintKeyMap, key)
+}
+
+const browserSitePolicyListLabelKeyMap = {
+  allowedOrigins: 'settings.tool.browser_use.site_policy.allowed_origins.label',
+  blockedOrigins: 'settings.tool.browser_use.site_policy.blocked_origins.label',
+  readOnlyOrigins: 'settings.tool.browser_use.site_policy.read_only_origins.label'
+} as const
+
+export const getBrowserSitePolicyListLabel = (key: string): string => {
+  return getLabel(browserSitePolicyListLabelKeyMap, key)
+}
+
+const browserSitePolicyListDescriptionKeyMap = {
+  allowedOrigins: 'settings.tool.browser_use.site_policy.allowed_origins.description',
+  blockedOrigins: 'settings.tool.browser_use.site_policy.blocked_origins.description',
+  readOnlyOrigins: 'settings.tool.browser_use.site_policy.read_only_origins.description'
+} as const
+
+export const getBrowserSitePolicyListDescription = (key: string): string => {
+  return getLabel(browserSitePolicyListDescriptionKeyMap, key)
+}
@@ -1,7 +1,10 @@
 import type { QuickPanelListItem } from '@renderer/components/QuickPanel'
+import { useAssistant } from '@renderer/hooks/useAssistant'
+import { useBrowserMacros } from '@renderer/hooks/useBrowserMacros'
 import { useBrowserUseForAssistant } from '@renderer/hooks/useBrowserUseSettings'
 import type { ToolRenderContext } from '@renderer/pages/home/Inputbar/types'
-import { Globe, Shield, Sparkles, Zap } from 'lucide-react'
+import type { BrowserMacro } from '@renderer/types'
+import { AppWindow, CirclePlay, Globe, Save, Shield, Sparkles, Zap } from 'lucide-react'
 import { useCallback, useEffect, useMemo } from 'react'
 
 interface ManagerProps {
@@ -11,6 +14,12 @@ interface ManagerProps {
 const BrowserUseQuickPanelManager = ({ context }: ManagerProps) => {
   const { assistant, quickPanel, quickPanelController, t } = context
   const { setEnabled, toolset: currentToolset } = useBrowserUseForAssistant(assistant.id)
+  const { updateAssistant } = useAssistant(assistant.id)
+  const onMacrosChange = useCallback(
+    (browserMacros: BrowserMacro[]) => updateAssistant({ browserMacros }),
+    [updateAssistant]
+  )
+  const { macros, saveLastRun, runMacro } = useBrowserMacros(assistant, onMacrosChange)
   const { registerRootMenu } = quickPanel
   const { isVisible, symbol, updateList } = quickPanelController
 
@@ -36,6 +45,16 @@ const BrowserUseQuickPanelManager = ({ context }: ManagerProps) => {
           quickPanelController.close()
         }
       },
+      {
+        label: t('chat.input.browser_use.toolset.tabs.label'),
+        description: t('chat.input.browser_use.toolset.tabs.description'),
+        icon: <AppWindow size={18} />,
+        isSelected: currentToolset === 'tabs',
+        action: () => {
+          setEnabled(true, 'tabs')
+          quickPanelController.close()
+        }
+      },
       {
         label: t('chat.input.browser_use.toolset.full.label'),
         description: t('chat.input.browser_use.toolset.full.description'),
@@ -45,9 +64,28 @@ const BrowserUseQuickPanelManager = ({ context }: ManagerProps) => {
           setEnabled(true, 'full')
           quickPanelController.close()
         }
-      }
+      },
+      {
+        label: t('chat.input.browser_use.macro.save.label'),
+        description: t('chat.input.browser_use.macro.save.description'),
+        icon: <Save size={18} />,
+        action: () => {
+          quickPanelController.close()
+          void saveLastRun()
+        }
+      },
+      ...macros.map((macro) => ({
+        label: t('chat.input.browser_use.macro.run.label', { name: macro.name }),
+        description: t('chat.input.browser_use.macro.steps', { count: macro.steps.length }),
+        filterText: macro.name,
+        icon: <CirclePlay size={18} />,
+        action: () => {
+          quickPanelController.close()
+          void runMacro(macro)
+        }
+      }))
     ],
-    [t, currentToolset, setEnabled, quickPanelController]
+    [t, currentToolset, setEnabled, quickPanelController, macros, saveLastRun, runMacro]
   )
 
   const openQuickPanel = useCallback(() => {
@@ -0,0 +1,99 @@
+import ImageViewer from '@renderer/components/ImageViewer'
+import { type BrowserScreencastMessageBlock, type Message, MessageBlockStatus } from '@renderer/types/newMessage'
+import { abortCompletion } from '@renderer/utils/abortController'
+import { Button } from 'antd'
+import { Globe, Square } from 'lucide-react'
+import React from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+interface Props {
+  block: BrowserScreencastMessageBlock
+  message: Message
+}
+
+const BrowserScreencastBlock: React.FC<Props> = ({ block, message }) => {
+  const { t } = useTranslation()
+  const isLive = block.status === MessageBlockStatus.STREAMING
+
+  if (!block.frame) return null
+
+  // 停止浏览器操作即中止整条回复，与输入框的暂停按钮一致
+  const handleStop = () => {
+    if (message.askId) {
+      abortCompletion(message.askId)
+    }
+  }
+
+  return (
+    <Container>
+      <Header>
+        {isLive ? <LiveDot /> : <Globe size={14} />}
+        <Title>
+          {isLive ? t('message.browser_use.screencast.live') : t('message.browser_use.screencast.last_frame')}
+        </Title>
+        {block.url && <PageUrl title={block.url}>{block.url}</PageUrl>}
+        {isLive && (
+          <Button size="small" danger icon={<Square size={12} />} onClick={handleStop}>
+            {t('message.browser_use.screencast.stop')}
+          </Button>
+        )}
+      </Header>
+      <ImageViewer src={block.frame} style={{ maxWidth: '100%', maxHeight: 'min(400px, 45vh)', padding: 0 }} />
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  max-width: 640px;
+  padding: 8px;
+  border: 0.5px solid var(--color-border);
+  border-radius: 8px;
+`
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  font-size: 13px;
+  color: var(--color-text-2);
+`
+
+const Title = styled.span`
+  font-weight: 500;
+  flex-shrink: 0;
+`
+
+const PageUrl = styled.span`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  color: var(--color-text-3);
+  font-family: var(--code-font-family);
+  font-size: 12px;
+`
+
+const LiveDot = styled.span`
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  background: var(--color-error);
+  animation: pulse 1.2s ease-in-out infinite;
+
+  @keyframes pulse {
+    0%,
+    100% {
+      opacity: 1;
+    }
+    50% {
+      opacity: 0.3;
+    }
+  }
+`
+
+export default React.memo(BrowserScreencastBlock)
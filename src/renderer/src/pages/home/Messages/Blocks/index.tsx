@@ -9,6 +9,7 @@ import React, { useMemo } from 'react'
 import { useSelector } from 'react-redux'
 import styled from 'styled-components'
 
+import BrowserScreencastBlock from './BrowserScreencastBlock'
 import CitationBlock from './CitationBlock'
 import CompactBlock from './CompactBlock'
 import ErrorBlock from './ErrorBlock'
@@ -204,6 +205,9 @@ const MessageBlockRenderer: React.FC<Props> = ({ blocks, message }) => {
           case MessageBlockType.COMPACT:
             blockComponent = <CompactBlock key={block.id} block={block} />
             break
+          case MessageBlockType.BROWSER_SCREENCAST:
+            blockComponent = <BrowserScreencastBlock key={block.id} block={block} message={message} />
+            break
           default:
             logger.warn('Unsupported block type in MessageBlockRenderer:', (block as any).type, block)
             break
@@ -0,0 +1,84 @@
+import { BROWSER_TOOL_PREFIX } from '@renderer/aiCore/plugins/browserUsePlugin'
+import Spinner from '@renderer/components/Spinner'
+import { useAppSelector } from '@renderer/store'
+import { selectPendingPermission } from '@renderer/store/toolPermissions'
+import type { NormalToolResponse } from '@renderer/types'
+import { Typography } from 'antd'
+import { CircleX, Globe } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import ToolPermissionRequestCard from './ToolPermissionRequestCard'
+
+const { Text } = Typography
+
+/**
+ * 从工具参数中取出最能说明这一步操作的值（URL、选择器、按键等）
+ */
+const getStepTarget = (args: NormalToolResponse['arguments']): string => {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return ''
+  const target = args.url ?? args.selector ?? args.role ?? args.text ?? args.label ?? args.key ?? args.action
+  return typeof target === 'string' ? target : ''
+}
+
+export const MessageBrowserToolTitle = ({ toolResponse }: { toolResponse: NormalToolResponse }) => {
+  const { t } = useTranslation()
+  const action = toolResponse.tool.name.slice(BROWSER_TOOL_PREFIX.length).replaceAll('_', ' ')
+  const target = getStepTarget(toolResponse.arguments)
+  const pendingPermission = useAppSelector((state) =>
+    selectPendingPermission(state.toolPermissions, toolResponse.toolCallId)
+  )
+
+  if (toolResponse.status === 'pending' || toolResponse.status === 'invoking') {
+    // 站点策略要求审批时，等待用户决定
+    if (pendingPermission && pendingPermission.status !== 'invoking') {
+      return <ToolPermissionRequestCard toolResponse={toolResponse} />
+    }
+
+    return (
+      <Spinner
+        text={
+          <BrowserToolTitleWrapper>
+            {t('message.browser_use.running', { action })}
+            <TargetText>{target}</TargetText>
+          </BrowserToolTitleWrapper>
+        }
+      />
+    )
+  }
+
+  const failed = toolResponse.status === 'error'
+
+  return (
+    <BrowserToolTitleTextWrapper type={failed ? 'danger' : 'secondary'}>
+      {failed ? <CircleX size={16} style={{ color: 'unset' }} /> : <Globe size={16} style={{ color: 'unset' }} />}
+      {failed ? t('message.browser_use.failed', { action }) : t('message.browser_use.done', { action })}
+      <TargetText>{target}</TargetText>
+    </BrowserToolTitleTextWrapper>
+  )
+}
+
+const BrowserToolTitleWrapper = styled.span`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  font-size: 14px;
+  padding: 5px;
+  padding-left: 0;
+`
+
+const BrowserToolTitleTextWrapper = styled(Text)`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 5px;
+  padding-left: 0;
+`
+
+const TargetText = styled.span`
+  max-width: 360px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-family: var(--code-font-family);
+`
@@ -1,8 +1,10 @@
+import { isBrowserTool } from '@renderer/aiCore/plugins/browserUsePlugin'
 import type { NormalToolResponse } from '@renderer/types'
 import type { ToolMessageBlock } from '@renderer/types/newMessage'
 
 import { MessageAgentTools } from './MessageAgentTools'
 import { AgentToolsType } from './MessageAgentTools/types'
+import { MessageBrowserToolTitle } from './MessageBrowserTool'
 import { MessageKnowledgeSearchToolTitle } from './MessageKnowledgeSearch'
 import { MessageMemorySearchToolTitle } from './MessageMemorySearch'
 import { MessageWebSearchToolTitle } from './MessageWebSearch'
@@ -37,6 +39,8 @@ const ChooseTool = (toolResponse: NormalToolResponse): React.ReactNode | null =>
       default:
         return null
     }
+  } else if (isBrowserTool(toolName)) {
+    return <MessageBrowserToolTitle toolResponse={toolResponse} />
   } else if (isAgentTool(toolName as AgentToolsType)) {
     return <MessageAgentTools toolResponse={toolResponse} />
   }
@@ -1,10 +1,11 @@
 import type { PermissionUpdate } from '@anthropic-ai/claude-agent-sdk'
 import { loggerService } from '@logger'
+import { isBrowserPermissionRequest, respondToBrowserPermission } from '@renderer/services/BrowserPermissionService'
 import { useAppDispatch, useAppSelector } from '@renderer/store'
 import { selectPendingPermission, toolPermissionsActions } from '@renderer/store/toolPermissions'
 import type { NormalToolResponse } from '@renderer/types'
 import { Button, Spin } from 'antd'
-import { ChevronDown, CirclePlay, CircleX } from 'lucide-react'
+import { ChevronDown, CirclePlay, CircleX, ShieldCheck, ShieldX } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 
@@ -53,6 +54,7 @@ export function ToolPermissionRequestCard({ toolResponse }: Props) {
   const isSubmittingDeny = request?.status === 'submitting-deny'
   const isSubmitting = isSubmittingAllow || isSubmittingDeny
   const isInvoking = request?.status === 'invoking'
+  const isBrowserRequest = !!request && isBrowserPermissionRequest(request.requestId)
 
   const handleDecision = useCallback(
     async (
@@ -61,6 +63,7 @@ export function ToolPermissionRequestCard({ toolResponse }: Props) {
         updatedInput?: Record<string, unknown>
         updatedPermissions?: PermissionUpdate[]
         message?: string
+        remember?: boolean
       }
     ) => {
       if (!request) return
@@ -73,6 +76,20 @@ export function ToolPermissionRequestCard({ toolResponse }: Props) {
 
       dispatch(toolPermissionsActions.submissionSent({ requestId: request.requestId, behavior }))
 
+      // 浏览器工具的审批在渲染进程内兑现，不经过主进程
+      if (isBrowserRequest) {
+        const response = respondToBrowserPermission({
+          requestId: request.requestId,
+          behavior,
+          remember: extra?.remember
+        })
+        if (!response.success) {
+          window.toast?.error?.(t('agent.toolPermission.error.sendFailed'))
+          dispatch(toolPermissionsActions.submissionFailed({ requestId: request.requestId }))
+        }
+        return
+      }
+
       try {
         const payload = {
           requestId: request.requestId,
@@ -103,7 +120,7 @@ export function ToolPermissionRequestCard({ toolResponse }: Props) {
         dispatch(toolPermissionsActions.submissionFailed({ requestId: request.requestId }))
       }
     },
-    [dispatch, request, t]
+    [dispatch, isBrowserRequest, request, t]
   )
 
   if (!request) {
@@ -209,6 +226,34 @@ export function ToolPermissionRequestCard({ toolResponse }: Props) {
                 {t('agent.toolPermission.button.run')}
               </Button>
 
+              {isBrowserRequest && (
+                <Button
+                  aria-label={t('message.browser_use.approval.always_deny')}
+                  className="h-8 px-3"
+                  color="danger"
+                  disabled={isSubmitting || isExpired}
+                  onClick={() => handleDecision('deny', { remember: true })}
+                  icon={<ShieldX size={16} />}
+                  iconPosition={'start'}
+                  variant="outlined">
+                  {t('message.browser_use.approval.always_deny')}
+                </Button>
+              )}
+
+              {isBrowserRequest && (
+                <Button
+                  aria-label={t('message.browser_use.approval.always_allow')}
+                  className="h-8 px-3"
+                  color="primary"
+                  disabled={isSubmitting || isExpired}
+                  onClick={() => handleDecision('allow', { remember: true })}
+                  icon={<ShieldCheck size={16} />}
+                  iconPosition={'start'}
+                  variant="outlined">
+                  {t('message.browser_use.approval.always_allow')}
+                </Button>
+              )}
+
               <Button
                 aria-label={
                   showDetails ? t('agent.toolPermission.aria.hideDetails') : t('agent.toolPermission.aria.showDetails')
@@ -0,0 +1,121 @@
+import { ExclamationCircleOutlined } from '@ant-design/icons'
+import { DeleteIcon, EditIcon } from '@renderer/components/Icons'
+import { useBrowserMacros } from '@renderer/hooks/useBrowserMacros'
+import type { Assistant, BrowserMacro } from '@renderer/types'
+import { Button, Empty, Flex, Popconfirm, Tag, Tooltip } from 'antd'
+import { CirclePlay, Save } from 'lucide-react'
+import type { FC } from 'react'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingDivider, SettingTitle } from '..'
+
+interface Props {
+  assistant: Assistant
+  updateAssistant: (assistant: Assistant) => void
+}
+
+const AssistantBrowserMacrosSettings: FC<Props> = ({ assistant, updateAssistant }) => {
+  const { t } = useTranslation()
+
+  const onMacrosChange = useCallback(
+    (browserMacros: BrowserMacro[]) => updateAssistant({ ...assistant, browserMacros }),
+    [assistant, updateAssistant]
+  )
+  const { macros, saveLastRun, runMacro, renameMacro, deleteMacro } = useBrowserMacros(assistant, onMacrosChange)
+
+  return (
+    <Container>
+      <SettingTitle>
+        {t('assistants.settings.browser_macros.title')}
+        <Tooltip title={t('chat.input.browser_use.macro.save.label')}>
+          <Button type="text" icon={<Save size={16} />} onClick={saveLastRun} />
+        </Tooltip>
+      </SettingTitle>
+      <Description>{t('assistants.settings.browser_macros.description')}</Description>
+      <SettingDivider />
+      {macros.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('assistants.settings.browser_macros.empty')} />
+      ) : (
+        <MacroList>
+          {macros.map((macro) => (
+            <MacroItem key={macro.id}>
+              <MacroInfo>
+                <MacroName>{macro.name}</MacroName>
+                <Flex gap={4} wrap>
+                  <Tag>{t('chat.input.browser_use.macro.steps', { count: macro.steps.length })}</Tag>
+                  {macro.parameters.map((parameter) => (
+                    <Tag key={parameter.name} color="blue" title={parameter.default}>
+                      {parameter.name}
+                    </Tag>
+                  ))}
+                </Flex>
+              </MacroInfo>
+              <Flex gap={4} style={{ opacity: 0.6 }}>
+                <Tooltip title={t('assistants.settings.browser_macros.run')}>
+                  <Button type="text" icon={<CirclePlay size={14} />} onClick={() => runMacro(macro)} />
+                </Tooltip>
+                <Button type="text" icon={<EditIcon size={14} />} onClick={() => renameMacro(macro)} />
+                <Popconfirm
+                  title={t('assistants.settings.browser_macros.delete')}
+                  description={t('assistants.settings.browser_macros.delete_confirm', { name: macro.name })}
+                  okText={t('common.confirm')}
+                  cancelText={t('common.cancel')}
+                  onConfirm={() => deleteMacro(macro)}
+                  icon={<ExclamationCircleOutlined style={{ color: 'red' }} />}>
+                  <Button type="text" danger icon={<DeleteIcon size={14} className="lucide-custom" />} />
+                </Popconfirm>
+              </Flex>
+            </MacroItem>
+          ))}
+        </MacroList>
+      )}
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  display: flex;
+  flex: 1;
+  flex-direction: column;
+`
+
+const Description = styled.div`
+  color: var(--color-text-3);
+  font-size: 12px;
+  margin-top: 4px;
+`
+
+const MacroList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const MacroItem = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 8px 12px;
+  border: 0.5px solid var(--color-border);
+  border-radius: 8px;
+`
+
+const MacroInfo = styled.div`
+  display: flex;
+  flex: 1;
+  min-width: 0;
+  flex-direction: column;
+  gap: 6px;
+`
+
+const MacroName = styled.div`
+  font-size: 14px;
+  font-weight: 500;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+export default AssistantBrowserMacrosSettings
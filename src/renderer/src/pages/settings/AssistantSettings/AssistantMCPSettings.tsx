@@ -1,12 +1,20 @@
 import { InfoCircleOutlined } from '@ant-design/icons'
+import { loggerService } from '@logger'
 import { Box } from '@renderer/components/Layout'
 import { useMCPServers } from '@renderer/hooks/useMCPServers'
-import type { Assistant, AssistantSettings, McpMode } from '@renderer/types'
-import { getEffectiveMcpMode } from '@renderer/types'
-import { Empty, Radio, Switch, Tooltip } from 'antd'
+import type { Assistant, AssistantSettings, BrowserProfile, McpMode } from '@renderer/types'
+import { BuiltinMCPServerNames, getEffectiveMcpMode } from '@renderer/types'
+import { AutoComplete, Empty, Radio, Switch, Tooltip } from 'antd'
+import type { FC } from 'react'
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+const logger = loggerService.withContext('AssistantMCPSettings')
+
+// Same rule as the browser MCP server
+const BROWSER_PROFILE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
 export interface MCPServer {
   id: string
   name: string
@@ -107,6 +115,12 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
                       <ServerName>{server.name}</ServerName>
                       {server.description && <ServerDescription>{server.description}</ServerDescription>}
                       {server.baseUrl && <ServerUrl>{server.baseUrl}</ServerUrl>}
+                      {isEnabled && server.name === BuiltinMCPServerNames.browser && (
+                        <BrowserProfileField
+                          value={assistant.browserProfile}
+                          onChange={(browserProfile) => updateAssistant({ ...assistant, browserProfile })}
+                        />
+                      )}
                     </ServerInfo>
                     <Tooltip
                       title={
@@ -139,6 +153,52 @@ const AssistantMCPSettings: React.FC<Props> = ({ assistant, updateAssistant }) =
   )
 }
 
+/**
+ * Browser profile the assistant always uses with the built-in browser server; empty lets the model choose
+ */
+const BrowserProfileField: FC<{ value?: string; onChange: (profile?: string) => void }> = ({ value, onChange }) => {
+  const { t } = useTranslation()
+  const [profiles, setProfiles] = useState<BrowserProfile[]>([])
+  const [draft, setDraft] = useState(value ?? '')
+
+  useEffect(() => {
+    window.api.browserProfile
+      .list()
+      .then(setProfiles)
+      .catch((error) => logger.warn('Failed to list browser profiles', error as Error))
+  }, [])
+
+  const normalized = draft.trim()
+  const invalid = normalized !== '' && !BROWSER_PROFILE_PATTERN.test(normalized)
+
+  const commit = (profile: string) => {
+    const next = profile.trim()
+    if (next !== '' && !BROWSER_PROFILE_PATTERN.test(next)) return
+    if ((next || undefined) !== value) onChange(next || undefined)
+  }
+
+  return (
+    <ProfileField>
+      <ProfileLabel>{t('assistants.settings.mcp.browser_profile.label')}</ProfileLabel>
+      <Tooltip title={invalid ? t('assistants.settings.mcp.browser_profile.invalid') : undefined}>
+        <AutoComplete
+          size="small"
+          style={{ width: 200 }}
+          value={draft}
+          status={invalid ? 'error' : undefined}
+          options={profiles.map((profile) => ({ value: profile.name }))}
+          placeholder={t('assistants.settings.mcp.browser_profile.placeholder')}
+          onChange={setDraft}
+          onSelect={commit}
+          onBlur={() => commit(draft)}
+          allowClear
+          onClear={() => commit('')}
+        />
+      </Tooltip>
+    </ProfileField>
+  )
+}
+
 const Container = styled.div`
   display: flex;
   flex: 1;
@@ -263,4 +323,16 @@ const ServerUrl = styled.div`
   text-overflow: ellipsis;
 `
 
+const ProfileField = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-top: 6px;
+`
+
+const ProfileLabel = styled.span`
+  font-size: 0.85rem;
+  color: var(--color-text-2);
+`
+
 export default AssistantMCPSettings
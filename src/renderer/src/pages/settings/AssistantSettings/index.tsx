@@ -9,6 +9,7 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import styled from 'styled-components'
 
+import AssistantBrowserMacrosSettings from './AssistantBrowserMacrosSettings'
 import AssistantKnowledgeBaseSettings from './AssistantKnowledgeBaseSettings'
 import AssistantMCPSettings from './AssistantMCPSettings'
 import AssistantMemorySettings from './AssistantMemorySettings'
@@ -29,6 +30,7 @@ type AssistantSettingPopupTab =
   | 'mcp'
   | 'regular_phrases'
   | 'memory'
+  | 'browser_macros'
 
 interface Props extends AssistantSettingPopupShowParams {
   resolve: (assistant: Assistant) => void
@@ -87,6 +89,10 @@ const AssistantSettingPopupContainer: React.FC<Props> = ({ resolve, tab, ...prop
     {
       key: 'memory',
       label: t('memory.title', 'Memories')
+    },
+    {
+      key: 'browser_macros',
+      label: t('assistants.settings.browser_macros.title')
     }
   ].filter(Boolean) as { key: string; label: string }[]
 
@@ -162,6 +168,9 @@ const AssistantSettingPopupContainer: React.FC<Props> = ({ resolve, tab, ...prop
               onClose={onCancel}
             />
           )}
+          {menu === 'browser_macros' && (
+            <AssistantBrowserMacrosSettings assistant={assistant} updateAssistant={updateAssistant} />
+          )}
         </Settings>
       </HStack>
     </StyledModal>
@@ -1,6 +1,7 @@
 import { useTheme } from '@renderer/context/ThemeProvider'
-import { type DemoStep, useBrowserDemo } from '@renderer/hooks/useBrowserDemo'
+import { type SelfTestStep, useBrowserSelfTest } from '@renderer/hooks/useBrowserSelfTest'
 import { useBrowserUseSettings } from '@renderer/hooks/useBrowserUseSettings'
+import { getBrowserSelfTestCapabilityLabel, getBrowserSelfTestHintLabel } from '@renderer/i18n/label'
 import type { BrowserUseToolset } from '@renderer/store/browserUse'
 import { Button, InputNumber, Modal, Progress, Radio, Switch, Tag } from 'antd'
 import { CheckCircle, Circle, Github, Loader2, Play, Square, XCircle } from 'lucide-react'
@@ -10,7 +11,7 @@ import styled from 'styled-components'
 
 import { SettingContainer, SettingDivider, SettingGroup, SettingRow, SettingRowTitle } from '..'
 
-const getStepIcon = (status: DemoStep['status']) => {
+const getStepIcon = (status: SelfTestStep['status']) => {
   switch (status) {
     case 'success':
       return <CheckCircle size={18} color="var(--color-success)" />
@@ -29,7 +30,9 @@ const BrowserUseGeneralSettings: FC = () => {
   const { t } = useTranslation()
   const { theme } = useTheme()
   const [demoModalOpen, setDemoModalOpen] = useState(false)
-  const { steps, isRunning, currentStepIndex, runDemo, stopDemo, resetDemo, error } = useBrowserDemo()
+  const { steps, isRunning, currentStepIndex, brokenCapabilities, runSelfTest, stopSelfTest, resetSelfTest, error } =
+    useBrowserSelfTest()
+  const finishedSteps = steps.filter((step) => step.status !== 'pending' && step.status !== 'running')
   const {
     enabled,
     setEnabled,
@@ -71,6 +74,10 @@ const BrowserUseGeneralSettings: FC = () => {
             <RadioLabel>{t('settings.tool.browser_use.toolset.standard.label')}</RadioLabel>
             <RadioDescription>{t('settings.tool.browser_use.toolset.standard.description')}</RadioDescription>
           </RadioOption>
+          <RadioOption value="tabs">
+            <RadioLabel>{t('settings.tool.browser_use.toolset.tabs.label')}</RadioLabel>
+            <RadioDescription>{t('settings.tool.browser_use.toolset.tabs.description')}</RadioDescription>
+          </RadioOption>
           <RadioOption value="full">
             <RadioLabel>{t('settings.tool.browser_use.toolset.full.label')}</RadioLabel>
             <RadioDescription>{t('settings.tool.browser_use.toolset.full.description')}</RadioDescription>
@@ -129,29 +136,29 @@ const BrowserUseGeneralSettings: FC = () => {
 
       <SettingGroup theme={theme}>
         <SettingRow>
-          <SettingRowTitle>{t('settings.tool.browser_use.demo.title')}</SettingRowTitle>
+          <SettingRowTitle>{t('settings.tool.browser_use.self_test.title')}</SettingRowTitle>
         </SettingRow>
-        <SettingDescription>{t('settings.tool.browser_use.demo.description')}</SettingDescription>
+        <SettingDescription>{t('settings.tool.browser_use.self_test.description')}</SettingDescription>
         <DemoButtonContainer>
           <Button type="primary" icon={<Play size={16} />} onClick={() => setDemoModalOpen(true)}>
-            {t('settings.tool.browser_use.demo.run_demo')}
+            {t('settings.tool.browser_use.self_test.open')}
           </Button>
           <Button
             icon={<Github size={16} />}
             onClick={() => {
               window.open('https://github.com/browser-tool-calling-protocol/btcp-cowork', '_blank')
             }}>
-            {t('settings.tool.browser_use.demo.view_github')}
+            {t('settings.tool.browser_use.self_test.view_github')}
           </Button>
         </DemoButtonContainer>
       </SettingGroup>
 
       <DemoModal
-        title={t('settings.tool.browser_use.demo.modal_title')}
+        title={t('settings.tool.browser_use.self_test.modal_title')}
         open={demoModalOpen}
         onCancel={() => {
           if (isRunning) {
-            stopDemo()
+            stopSelfTest()
           }
           setDemoModalOpen(false)
         }}
@@ -159,28 +166,46 @@ const BrowserUseGeneralSettings: FC = () => {
           <DemoModalFooter>
             {!isRunning ? (
               <>
-                <Button onClick={resetDemo}>{t('settings.tool.browser_use.demo.reset')}</Button>
-                <Button type="primary" icon={<Play size={14} />} onClick={runDemo}>
-                  {t('settings.tool.browser_use.demo.start')}
+                <Button onClick={resetSelfTest}>{t('settings.tool.browser_use.self_test.reset')}</Button>
+                <Button type="primary" icon={<Play size={14} />} onClick={runSelfTest}>
+                  {t('settings.tool.browser_use.self_test.start')}
                 </Button>
               </>
             ) : (
-              <Button danger icon={<Square size={14} />} onClick={stopDemo}>
-                {t('settings.tool.browser_use.demo.stop')}
+              <Button danger icon={<Square size={14} />} onClick={stopSelfTest}>
+                {t('settings.tool.browser_use.self_test.stop')}
               </Button>
             )}
           </DemoModalFooter>
         }
-        width={600}>
+        width={640}>
         <DemoContent>
-          <DemoDescription>{t('settings.tool.browser_use.demo.modal_description')}</DemoDescription>
+          <DemoDescription>{t('settings.tool.browser_use.self_test.modal_description', { toolset })}</DemoDescription>
 
           {error && <DemoError>{error}</DemoError>}
 
+          {brokenCapabilities.length > 0 && (
+            <DemoError>
+              <div>{t('settings.tool.browser_use.self_test.broken')}</div>
+              <ul>
+                {brokenCapabilities.map((capability) => (
+                  <li key={capability}>
+                    <strong>{getBrowserSelfTestCapabilityLabel(capability)}</strong>
+                    {': '}
+                    {getBrowserSelfTestHintLabel(capability)}
+                  </li>
+                ))}
+              </ul>
+            </DemoError>
+          )}
+
           <DemoProgress>
             <Progress
-              percent={Math.round((steps.filter((s) => s.status === 'success').length / steps.length) * 100)}
-              status={error ? 'exception' : isRunning ? 'active' : 'normal'}
+              percent={Math.round((finishedSteps.length / steps.length) * 100)}
+              success={{
+                percent: Math.round((steps.filter((s) => s.status === 'success').length / steps.length) * 100)
+              }}
+              status={error || brokenCapabilities.length > 0 ? 'exception' : isRunning ? 'active' : 'normal'}
             />
           </DemoProgress>
 
@@ -189,12 +214,15 @@ const BrowserUseGeneralSettings: FC = () => {
               <DemoStepItem key={step.id} $status={step.status} $isCurrent={index === currentStepIndex}>
                 <DemoStepIcon>{getStepIcon(step.status)}</DemoStepIcon>
                 <DemoStepInfo>
-                  <DemoStepName>{step.name}</DemoStepName>
-                  <DemoStepDescription>
-                    {step.description}
-                    <Tag style={{ marginLeft: 8 }}>{step.tool}</Tag>
-                  </DemoStepDescription>
+                  <DemoStepName>
+                    {step.toolName}
+                    <Tag style={{ marginLeft: 8 }}>{getBrowserSelfTestCapabilityLabel(step.capability)}</Tag>
+                  </DemoStepName>
+                  {step.error && (
+                    <DemoStepDescription $error={step.status === 'error'}>{step.error}</DemoStepDescription>
+                  )}
                 </DemoStepInfo>
+                {step.duration !== undefined && <DemoStepDuration>{step.duration} ms</DemoStepDuration>}
               </DemoStepItem>
             ))}
           </DemoStepsList>
@@ -289,7 +317,7 @@ const DemoStepsList = styled.div`
   overflow-y: auto;
 `
 
-const DemoStepItem = styled.div<{ $status: DemoStep['status']; $isCurrent: boolean }>`
+const DemoStepItem = styled.div<{ $status: SelfTestStep['status']; $isCurrent: boolean }>`
   display: flex;
   align-items: center;
   gap: 12px;
@@ -329,15 +357,24 @@ const DemoStepInfo = styled.div`
 `
 
 const DemoStepName = styled.span`
+  display: flex;
+  align-items: center;
   font-weight: 500;
   font-size: 14px;
+  font-family: var(--code-font-family);
+`
+
+const DemoStepDescription = styled.span<{ $error?: boolean }>`
+  font-size: 12px;
+  color: ${({ $error }) => ($error ? 'var(--color-error)' : 'var(--color-text-3)')};
+  word-break: break-word;
 `
 
-const DemoStepDescription = styled.span`
+const DemoStepDuration = styled.span`
+  flex-shrink: 0;
   font-size: 12px;
   color: var(--color-text-3);
-  display: flex;
-  align-items: center;
+  font-family: var(--code-font-family);
 `
 
 export default BrowserUseGeneralSettings
@@ -0,0 +1,141 @@
+import { useTheme } from '@renderer/context/ThemeProvider'
+import { useBrowserUseSitePolicy } from '@renderer/hooks/useBrowserUseSettings'
+import { getBrowserSitePolicyListDescription, getBrowserSitePolicyListLabel } from '@renderer/i18n/label'
+import type { BrowserUseSitePolicy } from '@renderer/store/browserUse'
+import { Button, Empty, Select, Switch, Tag } from 'antd'
+import { Trash2 } from 'lucide-react'
+import type { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingContainer, SettingDivider, SettingGroup, SettingRow, SettingRowTitle, SettingTitle } from '..'
+
+type OriginListKey = 'allowedOrigins' | 'blockedOrigins' | 'readOnlyOrigins'
+
+const ORIGIN_LISTS: OriginListKey[] = ['allowedOrigins', 'blockedOrigins', 'readOnlyOrigins']
+
+const normalizeOrigins = (values: string[]) =>
+  Array.from(new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean)))
+
+const BrowserUseSitePolicySettings: FC = () => {
+  const { t } = useTranslation()
+  const { theme } = useTheme()
+  const { sitePolicy, siteDecisions, updateSitePolicy, forgetDecision } = useBrowserUseSitePolicy()
+
+  const rememberedOrigins = Object.keys(siteDecisions).sort()
+
+  const updateOriginList = (key: OriginListKey, values: string[]) => {
+    updateSitePolicy({ [key]: normalizeOrigins(values) } as Partial<BrowserUseSitePolicy>)
+  }
+
+  return (
+    <SettingContainer theme={theme}>
+      <SettingGroup theme={theme}>
+        <SettingRow>
+          <SettingRowTitle>{t('settings.tool.browser_use.site_policy.require_approval.label')}</SettingRowTitle>
+          <Switch
+            checked={sitePolicy.requireApproval}
+            onChange={(checked) => updateSitePolicy({ requireApproval: checked })}
+          />
+        </SettingRow>
+        <SettingDescription>
+          {t('settings.tool.browser_use.site_policy.require_approval.description')}
+        </SettingDescription>
+      </SettingGroup>
+
+      {ORIGIN_LISTS.map((key) => (
+        <div key={key}>
+          <SettingDivider />
+          <SettingGroup theme={theme}>
+            <SettingRow>
+              <SettingRowTitle>{getBrowserSitePolicyListLabel(key)}</SettingRowTitle>
+            </SettingRow>
+            <SettingDescription>{getBrowserSitePolicyListDescription(key)}</SettingDescription>
+            <OriginSelect
+              mode="tags"
+              value={sitePolicy[key]}
+              onChange={(values) => updateOriginList(key, values as string[])}
+              tokenSeparators={[',', ' ', '\n']}
+              placeholder={t('settings.tool.browser_use.site_policy.origin_placeholder')}
+              open={false}
+              suffixIcon={null}
+            />
+          </SettingGroup>
+        </div>
+      ))}
+
+      <SettingDivider />
+
+      <SettingGroup theme={theme}>
+        <SettingTitle>{t('settings.tool.browser_use.site_policy.remembered.title')}</SettingTitle>
+        <SettingDescription>{t('settings.tool.browser_use.site_policy.remembered.description')}</SettingDescription>
+        {rememberedOrigins.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description={t('settings.tool.browser_use.site_policy.remembered.empty')}
+          />
+        ) : (
+          <DecisionList>
+            {rememberedOrigins.map((origin) => (
+              <DecisionItem key={origin}>
+                <DecisionOrigin>{origin}</DecisionOrigin>
+                <Tag color={siteDecisions[origin] === 'allow' ? 'green' : 'red'}>
+                  {siteDecisions[origin] === 'allow'
+                    ? t('settings.tool.browser_use.site_policy.remembered.allow')
+                    : t('settings.tool.browser_use.site_policy.remembered.deny')}
+                </Tag>
+                <Button
+                  type="text"
+                  size="small"
+                  danger
+                  icon={<Trash2 size={14} />}
+                  aria-label={t('settings.tool.browser_use.site_policy.remembered.forget')}
+                  onClick={() => forgetDecision(origin)}
+                />
+              </DecisionItem>
+            ))}
+          </DecisionList>
+        )}
+      </SettingGroup>
+    </SettingContainer>
+  )
+}
+
+const SettingDescription = styled.div`
+  color: var(--color-text-3);
+  font-size: 12px;
+  margin-top: 4px;
+`
+
+const OriginSelect = styled(Select)`
+  width: 100%;
+  margin-top: 12px;
+`
+
+const DecisionList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin-top: 12px;
+`
+
+const DecisionItem = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 12px;
+  border: 1px solid var(--color-border);
+  border-radius: 8px;
+`
+
+const DecisionOrigin = styled.span`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-family: var(--code-font-family);
+  font-size: 13px;
+`
+
+export default BrowserUseSitePolicySettings
@@ -1,3 +1,4 @@
+import { type BTCPToolName, type BTCPToolPreset, TOOL_PRESETS } from '@cherrystudio/ai-core/built-in/plugins'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useBrowserUseSettings } from '@renderer/hooks/useBrowserUseSettings'
 import { Tag } from 'antd'
@@ -8,86 +9,11 @@ import styled from 'styled-components'
 
 import { SettingContainer, SettingGroup, SettingRowTitle } from '..'
 
-// Tool presets matching the btcpBrowserPlugin constants
-const TOOL_PRESETS = {
-  minimal: [
-    'browser_snapshot',
-    'browser_url',
-    'browser_title',
-    'browser_get_text',
-    'browser_get_attribute',
-    'browser_is_visible',
-    'browser_count',
-    'browser_describe'
-  ],
-  standard: [
-    'browser_snapshot',
-    'browser_url',
-    'browser_title',
-    'browser_get_text',
-    'browser_get_attribute',
-    'browser_is_visible',
-    'browser_count',
-    'browser_describe',
-    'browser_navigate',
-    'browser_back',
-    'browser_forward',
-    'browser_reload',
-    'browser_click',
-    'browser_type',
-    'browser_fill',
-    'browser_press',
-    'browser_hover',
-    'browser_scroll',
-    'browser_clear',
-    'browser_check',
-    'browser_select',
-    'browser_get_by_role',
-    'browser_get_by_text',
-    'browser_get_by_label',
-    'browser_wait',
-    'browser_scroll_into_view',
-    'browser_screenshot',
-    'browser_highlight'
-  ],
-  full: [
-    'browser_snapshot',
-    'browser_url',
-    'browser_title',
-    'browser_get_text',
-    'browser_get_attribute',
-    'browser_is_visible',
-    'browser_count',
-    'browser_describe',
-    'browser_navigate',
-    'browser_back',
-    'browser_forward',
-    'browser_reload',
-    'browser_click',
-    'browser_type',
-    'browser_fill',
-    'browser_press',
-    'browser_hover',
-    'browser_scroll',
-    'browser_clear',
-    'browser_check',
-    'browser_select',
-    'browser_get_by_role',
-    'browser_get_by_text',
-    'browser_get_by_label',
-    'browser_wait',
-    'browser_scroll_into_view',
-    'browser_screenshot',
-    'browser_highlight',
-    'browser_evaluate',
-    'browser_frame',
-    'browser_mainframe',
-    'browser_uncheck',
-    'browser_get_by_placeholder',
-    'browser_is_enabled',
-    'browser_wait_for_url',
-    'browser_console'
-  ]
+const PRESET_COLORS: Record<BTCPToolPreset, string> = {
+  minimal: 'green',
+  standard: 'blue',
+  tabs: 'purple',
+  full: 'orange'
 }
 
 const BrowserUseToolsSettings: FC = () => {
@@ -95,16 +21,8 @@ const BrowserUseToolsSettings: FC = () => {
   const { theme } = useTheme()
   const { toolset } = useBrowserUseSettings()
 
-  const minimalTools = useMemo(() => new Set(TOOL_PRESETS.minimal), [])
-  const standardTools = useMemo(() => new Set(TOOL_PRESETS.standard), [])
-
-  const getToolPresets = (tool: string): string[] => {
-    const presets: string[] = []
-    if (minimalTools.has(tool)) presets.push('minimal')
-    if (standardTools.has(tool)) presets.push('standard')
-    presets.push('full')
-    return presets
-  }
+  const getToolPresets = (tool: BTCPToolName): BTCPToolPreset[] =>
+    (Object.keys(TOOL_PRESETS) as BTCPToolPreset[]).filter((preset) => TOOL_PRESETS[preset].includes(tool))
 
   const activeTools = useMemo(() => new Set(TOOL_PRESETS[toolset] || TOOL_PRESETS.standard), [toolset])
 
@@ -123,10 +41,7 @@ const BrowserUseToolsSettings: FC = () => {
                 <ToolName $active={isActive}>{tool}</ToolName>
                 <PresetsContainer>
                   {presets.map((preset) => (
-                    <Tag
-                      key={preset}
-                      color={preset === 'minimal' ? 'green' : preset === 'standard' ? 'blue' : 'orange'}
-                      style={{ marginRight: 4 }}>
+                    <Tag key={preset} color={PRESET_COLORS[preset]} style={{ marginRight: 4 }}>
                       {preset}
                     </Tag>
                   ))}
@@ -1,13 +1,14 @@
 import ListItem from '@renderer/components/ListItem'
 import Scrollbar from '@renderer/components/Scrollbar'
 import { Flex } from 'antd'
-import { Settings, Wrench } from 'lucide-react'
+import { Settings, ShieldCheck, Wrench } from 'lucide-react'
 import type { FC } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router'
 import styled from 'styled-components'
 
 import BrowserUseGeneralSettings from './BrowserUseGeneralSettings'
+import BrowserUseSitePolicySettings from './BrowserUseSitePolicySettings'
 import BrowserUseToolsSettings from './BrowserUseToolsSettings'
 
 const BrowserUseSettings: FC = () => {
@@ -18,6 +19,7 @@ const BrowserUseSettings: FC = () => {
   const getActiveView = () => {
     const path = location.pathname
     if (path.includes('/tools')) return 'tools'
+    if (path.includes('/site-policy')) return 'site-policy'
     return 'general'
   }
 
@@ -41,12 +43,20 @@ const BrowserUseSettings: FC = () => {
             icon={<Wrench size={18} />}
             titleStyle={{ fontWeight: 500 }}
           />
+          <ListItem
+            title={t('settings.tool.browser_use.site_policy.title')}
+            active={activeView === 'site-policy'}
+            onClick={() => navigate('/settings/browser-use/site-policy')}
+            icon={<ShieldCheck size={18} />}
+            titleStyle={{ fontWeight: 500 }}
+          />
         </MenuList>
         <RightContainer>
           <Routes>
             <Route index element={<Navigate to="general" replace />} />
             <Route path="general" element={<BrowserUseGeneralSettings />} />
             <Route path="tools" element={<BrowserUseToolsSettings />} />
+            <Route path="site-policy" element={<BrowserUseSitePolicySettings />} />
           </Routes>
         </RightContainer>
       </MainContainer>
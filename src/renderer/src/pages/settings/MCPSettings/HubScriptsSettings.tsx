@@ -0,0 +1,225 @@
+import { loggerService } from '@logger'
+import type { HubScript, HubScriptInput } from '@renderer/types'
+import { Button, Collapse, Empty, Flex, Form, Input, Modal, Popconfirm, Select, Tag, Typography } from 'antd'
+import dayjs from 'dayjs'
+import type { FC } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+import { SettingDescription, SettingTitle } from '..'
+
+const logger = loggerService.withContext('HubScriptsSettings')
+
+type FormValues = {
+  description: string
+  code: string
+  inputSchema: string
+}
+
+const formatTime = (time: number) => dayjs(time).format('YYYY-MM-DD HH:mm')
+
+const HubScriptsSettings: FC = () => {
+  const { t } = useTranslation()
+  const [scripts, setScripts] = useState<HubScript[]>([])
+  const [editing, setEditing] = useState<HubScript | null>(null)
+  const [form] = Form.useForm<FormValues>()
+
+  const loadScripts = useCallback(async () => {
+    try {
+      setScripts(await window.api.hubScript.list())
+    } catch (error) {
+      logger.error('Failed to list hub scripts', error as Error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadScripts()
+  }, [loadScripts])
+
+  const handleSave = async () => {
+    if (!editing) return
+    let values: FormValues
+    try {
+      values = await form.validateFields()
+    } catch {
+      return
+    }
+    const script: HubScriptInput = {
+      name: editing.name,
+      description: values.description,
+      code: values.code,
+      inputSchema: values.inputSchema.trim() ? JSON.parse(values.inputSchema) : undefined
+    }
+    try {
+      await window.api.hubScript.save(script)
+      window.toast.success(t('settings.mcp.hubScripts.saved'))
+      setEditing(null)
+    } catch (error) {
+      logger.error('Failed to save hub script', error as Error)
+      window.toast.error((error as Error).message)
+    }
+    await loadScripts()
+  }
+
+  const handleRestore = async (name: string, version: number) => {
+    try {
+      await window.api.hubScript.restore(name, version)
+      window.toast.success(t('settings.mcp.hubScripts.restored', { version }))
+    } catch (error) {
+      logger.error('Failed to restore hub script', error as Error)
+      window.toast.error((error as Error).message)
+    }
+    await loadScripts()
+  }
+
+  const handleDelete = async (name: string) => {
+    try {
+      await window.api.hubScript.delete(name)
+    } catch (error) {
+      logger.error('Failed to delete hub script', error as Error)
+      window.toast.error((error as Error).message)
+    }
+    await loadScripts()
+  }
+
+  return (
+    <Container>
+      <SettingTitle>{t('settings.mcp.hubScripts.title')}</SettingTitle>
+      <SettingDescription>{t('settings.mcp.hubScripts.description')}</SettingDescription>
+      {scripts.length > 0 ? (
+        <Collapse
+          bordered={false}
+          ghost
+          style={{ marginTop: 12 }}
+          items={scripts.map((script) => ({
+            key: script.name,
+            label: (
+              <Flex vertical align="flex-start">
+                <Flex align="center" gap={8}>
+                  <Typography.Text strong>{script.name}</Typography.Text>
+                  <Tag>v{script.version}</Tag>
+                </Flex>
+                <Typography.Text type="secondary" style={{ fontSize: '13px', marginTop: 4 }}>
+                  {script.description}
+                </Typography.Text>
+              </Flex>
+            ),
+            extra: (
+              <Flex gap={8} onClick={(e) => e.stopPropagation()}>
+                <Button size="small" onClick={() => setEditing(script)}>
+                  {t('common.edit')}
+                </Button>
+                <Popconfirm
+                  title={t('settings.mcp.hubScripts.deleteConfirm', { name: script.name })}
+                  okButtonProps={{ danger: true }}
+                  onConfirm={() => handleDelete(script.name)}>
+                  <Button size="small" danger>
+                    {t('common.delete')}
+                  </Button>
+                </Popconfirm>
+              </Flex>
+            ),
+            children: (
+              <>
+                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                  {t('settings.mcp.hubScripts.savedAt', { time: formatTime(script.savedAt) })}
+                </Typography.Text>
+                <Code>{script.code}</Code>
+                {script.history.length > 0 && (
+                  <Flex align="center" gap={8}>
+                    <Typography.Text>{t('settings.mcp.hubScripts.history')}</Typography.Text>
+                    {/* Always shows the placeholder: picking a version restores it instead of selecting it */}
+                    <Select<number | null>
+                      size="small"
+                      style={{ width: 260 }}
+                      placeholder={t('settings.mcp.hubScripts.restore')}
+                      value={null}
+                      options={script.history.map((entry) => ({
+                        value: entry.version,
+                        label: `v${entry.version} · ${formatTime(entry.savedAt)}`
+                      }))}
+                      onSelect={(version) => {
+                        if (version !== null) handleRestore(script.name, version)
+                      }}
+                    />
+                  </Flex>
+                )}
+              </>
+            )
+          }))}
+        />
+      ) : (
+        <Empty description={t('settings.mcp.hubScripts.empty')} image={Empty.PRESENTED_IMAGE_SIMPLE} />
+      )}
+      <Modal
+        title={editing?.name}
+        open={!!editing}
+        width={720}
+        onOk={handleSave}
+        onCancel={() => setEditing(null)}
+        okText={t('common.save')}
+        destroyOnHidden>
+        <Form
+          form={form}
+          layout="vertical"
+          initialValues={
+            editing
+              ? {
+                  description: editing.description,
+                  code: editing.code,
+                  inputSchema: editing.inputSchema ? JSON.stringify(editing.inputSchema, null, 2) : ''
+                }
+              : undefined
+          }>
+          <Form.Item
+            name="description"
+            label={t('settings.mcp.hubScripts.fields.description')}
+            rules={[{ required: true }]}>
+            <Input />
+          </Form.Item>
+          <Form.Item name="code" label={t('settings.mcp.hubScripts.fields.code')} rules={[{ required: true }]}>
+            <Input.TextArea autoSize={{ minRows: 8, maxRows: 20 }} style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+          <Form.Item
+            name="inputSchema"
+            label={t('settings.mcp.hubScripts.fields.inputSchema')}
+            rules={[
+              {
+                validator: async (_, value: string) => {
+                  if (!value?.trim()) return
+                  try {
+                    if (JSON.parse(value)?.type === 'object') return
+                  } catch {
+                    // Reported below
+                  }
+                  throw new Error(t('settings.mcp.hubScripts.invalidSchema'))
+                }
+              }
+            ]}>
+            <Input.TextArea autoSize={{ minRows: 3, maxRows: 12 }} style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  padding: 20px;
+  overflow-y: auto;
+  height: 100%;
+`
+
+const Code = styled.pre`
+  user-select: text;
+  margin: 8px 0 12px;
+  padding: 8px 12px;
+  max-height: 320px;
+  overflow: auto;
+  font-size: 12px;
+  border-radius: 6px;
+  background-color: var(--color-background-soft);
+`
+
+export default HubScriptsSettings
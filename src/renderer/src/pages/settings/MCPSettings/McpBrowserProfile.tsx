@@ -0,0 +1,113 @@
+import { loggerService } from '@logger'
+import type { BrowserProfile } from '@renderer/types'
+import { Button, Empty, Flex, List, Popconfirm, Typography } from 'antd'
+import dayjs from 'dayjs'
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import styled from 'styled-components'
+
+const logger = loggerService.withContext('MCPBrowserProfilesSection')
+
+const MCPBrowserProfilesSection = () => {
+  const { t } = useTranslation()
+  const [profiles, setProfiles] = useState<BrowserProfile[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true)
+    try {
+      setProfiles(await window.api.browserProfile.list())
+    } catch (error) {
+      logger.error('Failed to list browser profiles', error as Error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const handleClear = async (name: string) => {
+    try {
+      await window.api.browserProfile.clear(name)
+      window.toast.success(t('settings.mcp.browserProfiles.cleared'))
+    } catch (error) {
+      logger.error('Failed to clear browser profile', error as Error)
+      window.toast.error(t('settings.mcp.browserProfiles.error'))
+    }
+    await loadProfiles()
+  }
+
+  const handleDelete = async (name: string) => {
+    try {
+      await window.api.browserProfile.delete(name)
+      window.toast.success(t('settings.mcp.browserProfiles.deleted'))
+    } catch (error) {
+      logger.error('Failed to delete browser profile', error as Error)
+      window.toast.error(t('settings.mcp.browserProfiles.error'))
+    }
+    await loadProfiles()
+  }
+
+  return (
+    <Section>
+      <SectionTitle>{t('settings.mcp.browserProfiles.title')}</SectionTitle>
+      <Typography.Paragraph type="secondary" style={{ fontSize: 13 }}>
+        {t('settings.mcp.browserProfiles.description')}
+      </Typography.Paragraph>
+      {profiles.length > 0 ? (
+        <List
+          loading={loading}
+          dataSource={profiles}
+          renderItem={(profile) => (
+            <List.Item
+              actions={[
+                <Popconfirm
+                  key="clear"
+                  title={t('settings.mcp.browserProfiles.clearConfirm', { name: profile.name })}
+                  onConfirm={() => handleClear(profile.name)}>
+                  <Button size="small">{t('settings.mcp.browserProfiles.clear')}</Button>
+                </Popconfirm>,
+                <Popconfirm
+                  key="delete"
+                  title={t('settings.mcp.browserProfiles.deleteConfirm', { name: profile.name })}
+                  okButtonProps={{ danger: true }}
+                  onConfirm={() => handleDelete(profile.name)}>
+                  <Button size="small" danger>
+                    {t('common.delete')}
+                  </Button>
+                </Popconfirm>
+              ]}>
+              <Flex vertical>
+                <Typography.Text strong>{profile.name}</Typography.Text>
+                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                  {t('settings.mcp.browserProfiles.summary', {
+                    cookies: profile.cookies,
+                    lastUsed: dayjs(profile.lastUsedAt).format('YYYY-MM-DD HH:mm')
+                  })}
+                </Typography.Text>
+              </Flex>
+            </List.Item>
+          )}
+        />
+      ) : (
+        <Empty description={t('settings.mcp.browserProfiles.empty')} image={Empty.PRESENTED_IMAGE_SIMPLE} />
+      )}
+    </Section>
+  )
+}
+
+const Section = styled.div`
+  margin-top: 8px;
+  padding-top: 8px;
+`
+
+const SectionTitle = styled.h3`
+  font-size: 14px;
+  font-weight: 500;
+  margin-bottom: 8px;
+  color: var(--color-text-secondary);
+`
+
+export default MCPBrowserProfilesSection
@@ -7,6 +7,7 @@ import { useMCPServer, useMCPServers } from '@renderer/hooks/useMCPServers'
 import { useMCPServerTrust } from '@renderer/hooks/useMCPServerTrust'
 import MCPDescription from '@renderer/pages/settings/MCPSettings/McpDescription'
 import type { MCPPrompt, MCPResource, MCPServer, MCPTool } from '@renderer/types'
+import { BuiltinMCPServerNames } from '@renderer/types'
 import { parseKeyValueString } from '@renderer/utils/env'
 import { formatMcpError } from '@renderer/utils/error'
 import type { MCPServerLogEntry } from '@shared/config/types'
@@ -20,6 +21,7 @@ import { useNavigate, useParams } from 'react-router'
 import styled from 'styled-components'
 
 import { SettingContainer, SettingDivider, SettingGroup, SettingTitle } from '..'
+import MCPBrowserProfilesSection from './McpBrowserProfile'
 import MCPPromptsSection from './McpPrompt'
 import MCPResourcesSection from './McpResource'
 import MCPToolsSection from './McpTool'
@@ -63,7 +65,7 @@ const PipRegistry: Registry[] = [
   { name: '腾讯云', url: 'https://mirrors.cloud.tencent.com/pypi/simple/' }
 ]
 
-type TabKey = 'settings' | 'description' | 'tools' | 'prompts' | 'resources'
+type TabKey = 'settings' | 'description' | 'tools' | 'prompts' | 'resources' | 'profiles'
 
 const McpSettings: React.FC = () => {
   const { t } = useTranslation()
@@ -761,6 +763,14 @@ const McpSettings: React.FC = () => {
     )
   }
 
+  if (server.name === BuiltinMCPServerNames.browser) {
+    tabs.push({
+      key: 'profiles',
+      label: t('settings.mcp.tabs.profiles'),
+      children: <MCPBrowserProfilesSection />
+    })
+  }
+
   return (
     <Container>
       <SettingContainer theme={theme} style={{ width: '100%', paddingTop: 55, backgroundColor: 'transparent' }}>
@@ -12,7 +12,7 @@ import Scrollbar from '@renderer/components/Scrollbar'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useMCPServers } from '@renderer/hooks/useMCPServers'
 import { Button, Flex } from 'antd'
-import { FolderCog, Package, ShoppingBag } from 'lucide-react'
+import { FileCode, FolderCog, Package, ShoppingBag } from 'lucide-react'
 import type { FC } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router'
@@ -21,6 +21,7 @@ import styled from 'styled-components'
 
 import { SettingContainer } from '..'
 import BuiltinMCPServerList from './BuiltinMCPServerList'
+import HubScriptsSettings from './HubScriptsSettings'
 import InstallNpxUv from './InstallNpxUv'
 import McpMarketList from './McpMarketList'
 import ProviderDetail from './McpProviderSettings'
@@ -43,6 +44,7 @@ const MCPSettings: FC = () => {
     // 精确匹配路径
     if (path === '/settings/mcp/builtin') return 'builtin'
     if (path === '/settings/mcp/marketplaces') return 'marketplaces'
+    if (path === '/settings/mcp/hub-scripts') return 'hub-scripts'
 
     // 检查是否是服务商页面 - 精确匹配
     for (const provider of providers) {
@@ -63,6 +65,7 @@ const MCPSettings: FC = () => {
     // 主页面不显示返回按钮
     if (path === '/settings/mcp' || path === '/settings/mcp/servers') return true
     if (path === '/settings/mcp/builtin' || path === '/settings/mcp/marketplaces') return true
+    if (path === '/settings/mcp/hub-scripts') return true
 
     // 服务商页面也是主页面
     return providers.some((p) => path === `/settings/mcp/${p.key}`)
@@ -89,6 +92,13 @@ const MCPSettings: FC = () => {
             icon={<McpLogo width={18} height={18} style={{ opacity: 0.8 }} />}
             titleStyle={{ fontWeight: 500 }}
           />
+          <ListItem
+            title={t('settings.mcp.hubScripts.title')}
+            active={activeView === 'hub-scripts'}
+            onClick={() => navigate('/settings/mcp/hub-scripts')}
+            icon={<FileCode size={18} />}
+            titleStyle={{ fontWeight: 500 }}
+          />
           <DividerWithText text={t('settings.mcp.discover', 'Discover')} style={{ margin: '10px 0 8px 0' }} />
           <ListItem
             title={t('settings.mcp.builtinServers', 'Built-in Servers')}
@@ -154,6 +164,7 @@ const MCPSettings: FC = () => {
                 </ContentWrapper>
               }
             />
+            <Route path="hub-scripts" element={<HubScriptsSettings />} />
             <Route
               path="marketplaces"
               element={
@@ -1,4 +1,4 @@
-import { isMac, isWin } from '@renderer/config/constant'
+import { isBrowserExtension, isMac, isWin } from '@renderer/config/constant'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useSelectionAssistant } from '@renderer/hooks/useSelectionAssistant'
 import { getSelectionDescriptionLabel } from '@renderer/i18n/label'
@@ -53,7 +53,8 @@ const SelectionAssistantSettings: FC = () => {
     setFilterList
   } = useSelectionAssistant()
 
-  const isSupportedOS = isWin || isMac
+  // The extension shows the toolbar inside web pages through its content script
+  const isSupportedOS = isWin || isMac || isBrowserExtension
 
   const [isFilterListModalOpen, setIsFilterListModalOpen] = useState(false)
   const [isMacTrustModalOpen, setIsMacTrustModalOpen] = useState(false)
@@ -146,7 +147,7 @@ const SelectionAssistantSettings: FC = () => {
                 <Tooltip placement="top" title={t('selection.settings.toolbar.trigger_mode.selected_note')} arrow>
                   <Radio.Button value="selected">{t('selection.settings.toolbar.trigger_mode.selected')}</Radio.Button>
                 </Tooltip>
-                {isWin && (
+                {(isWin || isBrowserExtension) && (
                   <Tooltip placement="top" title={t('selection.settings.toolbar.trigger_mode.ctrlkey_note')} arrow>
                     <Radio.Button value="ctrlkey">{t('selection.settings.toolbar.trigger_mode.ctrlkey')}</Radio.Button>
                   </Tooltip>
@@ -1,3 +1,4 @@
+import { isBrowserExtension } from '@renderer/config/constant'
 import { useTheme } from '@renderer/context/ThemeProvider'
 import { useApiServer } from '@renderer/hooks/useApiServer'
 import type { RootState } from '@renderer/store'
@@ -56,6 +57,10 @@ const ApiServerSettings: FC = () => {
     window.toast.success(t('apiServer.messages.apiKeyRegenerated'))
   }
 
+  const handleApiKeyChange = (value: string) => {
+    dispatch(setApiServerApiKey(value.trim()))
+  }
+
   const handlePortChange = (value: string) => {
     const port = parseInt(value) || API_SERVER_DEFAULTS.PORT
     if (port >= 1000 && port <= 65535) {
@@ -71,15 +76,22 @@ const ApiServerSettings: FC = () => {
     }
   }
 
+  // In the extension the "server" is the connection to the desktop app
+  const statusText = isBrowserExtension
+    ? t(apiServerRunning ? 'apiServer.companion.connected' : 'apiServer.companion.disconnected')
+    : t(apiServerRunning ? 'apiServer.status.running' : 'apiServer.status.stopped')
+
   return (
     <Container theme={theme}>
       {/* Header Section */}
       <HeaderSection>
         <HeaderContent>
           <Title level={3} style={{ margin: 0, marginBottom: 8 }}>
-            {t('apiServer.title')}
+            {isBrowserExtension ? t('apiServer.companion.title') : t('apiServer.title')}
           </Title>
-          <Text type="secondary">{t('apiServer.description')}</Text>
+          <Text type="secondary">
+            {isBrowserExtension ? t('apiServer.companion.description') : t('apiServer.description')}
+          </Text>
         </HeaderContent>
         {apiServerRunning && (
           <Button type="primary" icon={<ExternalLink size={14} />} onClick={openApiDocs}>
@@ -97,13 +109,13 @@ const ApiServerSettings: FC = () => {
         <StatusSection>
           <StatusIndicator $status={apiServerRunning} />
           <StatusContent>
-            <StatusText $status={apiServerRunning}>
-              {apiServerRunning ? t('apiServer.status.running') : t('apiServer.status.stopped')}
-            </StatusText>
+            <StatusText $status={apiServerRunning}>{statusText}</StatusText>
             <StatusSubtext>
               {apiServerRunning
                 ? `http://${apiServerConfig.host || API_SERVER_DEFAULTS.HOST}:${apiServerConfig.port || API_SERVER_DEFAULTS.PORT}`
-                : t('apiServer.fields.port.description')}
+                : isBrowserExtension
+                  ? t('apiServer.companion.portDescription')
+                  : t('apiServer.fields.port.description')}
             </StatusSubtext>
           </StatusContent>
         </StatusSection>
@@ -154,16 +166,22 @@ const ApiServerSettings: FC = () => {
       {/* API Key Configuration */}
       <ConfigurationField>
         <FieldLabel>{t('apiServer.fields.apiKey.label')}</FieldLabel>
-        <FieldDescription>{t('apiServer.fields.apiKey.description')}</FieldDescription>
+        <FieldDescription>
+          {isBrowserExtension ? t('apiServer.companion.apiKeyDescription') : t('apiServer.fields.apiKey.description')}
+        </FieldDescription>
 
+        {/* In the extension the key is copied from the desktop app */}
         <StyledInput
           value={apiServerConfig.apiKey}
-          readOnly
-          placeholder={t('apiServer.fields.apiKey.placeholder')}
+          readOnly={!isBrowserExtension || apiServerRunning}
+          onChange={(e) => handleApiKeyChange(e.target.value)}
+          placeholder={
+            isBrowserExtension ? t('apiServer.companion.apiKeyPlaceholder') : t('apiServer.fields.apiKey.placeholder')
+          }
           size="middle"
           suffix={
             <InputButtonContainer>
-              {!apiServerRunning && (
+              {!apiServerRunning && !isBrowserExtension && (
                 <RegenerateButton onClick={regenerateApiKey} disabled={apiServerRunning} type="link">
                   {t('apiServer.actions.regenerate')}
                 </RegenerateButton>
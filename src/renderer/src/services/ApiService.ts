@@ -10,7 +10,12 @@ import i18n from '@renderer/i18n'
 import store from '@renderer/store'
 import { hubMCPServer } from '@renderer/store/mcp'
 import type { Assistant, MCPServer, MCPTool, Model, Provider } from '@renderer/types'
-import { type FetchChatCompletionParams, getEffectiveMcpMode, isSystemProvider } from '@renderer/types'
+import {
+  BuiltinMCPServerNames,
+  type FetchChatCompletionParams,
+  getEffectiveMcpMode,
+  isSystemProvider
+} from '@renderer/types'
 import type { StreamTextParams } from '@renderer/types/aiCoreTypes'
 import { type Chunk, ChunkType } from '@renderer/types/chunk'
 import type { Message, ResponseError } from '@renderer/types/newMessage'
@@ -103,6 +108,18 @@ export async function fetchAllActiveServerTools(): Promise<MCPTool[]> {
   }
 }
 
+/**
+ * 助手设置了浏览器配置文件时，内置浏览器服务的工具固定使用该配置文件，不再让模型选择
+ */
+function applyBrowserProfile(tools: MCPTool[], server: MCPServer, profile?: string): MCPTool[] {
+  if (!profile || server.name !== BuiltinMCPServerNames.browser) return tools
+  return tools.map((tool) => {
+    const properties = { ...tool.inputSchema.properties }
+    delete properties.profile
+    return { ...tool, inputSchema: { ...tool.inputSchema, properties }, presetArguments: { profile } }
+  })
+}
+
 export async function fetchMcpTools(assistant: Assistant) {
   let mcpTools: MCPTool[] = []
   const enabledMCPs = getMcpServersForAssistant(assistant)
@@ -112,7 +129,8 @@ export async function fetchMcpTools(assistant: Assistant) {
       const toolPromises = enabledMCPs.map(async (mcpServer: MCPServer) => {
         try {
           const tools = await window.api.mcp.listTools(mcpServer)
-          return tools.filter((tool: any) => !mcpServer.disabledTools?.includes(tool.name))
+          const enabledTools = tools.filter((tool: any) => !mcpServer.disabledTools?.includes(tool.name))
+          return applyBrowserProfile(enabledTools, mcpServer, assistant.browserProfile)
         } catch (error) {
           logger.error(`Error fetching tools from MCP server ${mcpServer.name}:`, error as Error)
           return []
@@ -0,0 +1,47 @@
+/**
+ * 浏览器宏录制
+ *
+ * btcpBrowserPlugin 每完成一个可回放的浏览器工具调用就通过 onMacroStep 上报一步。
+ * 这里按助手保存最近一次带有浏览器操作的请求，用户可以把它存成宏（保存在助手的 browserMacros 中），
+ * 之后由模型通过 browser_run_macro 调用，或由用户直接回放。
+ */
+import type { BTCPMacroStep } from '@cherrystudio/ai-core/built-in/plugins'
+import { parameterizeMacroSteps } from '@cherrystudio/ai-core/built-in/plugins'
+import { loggerService } from '@logger'
+import { nanoid } from '@reduxjs/toolkit'
+import type { BrowserMacro } from '@renderer/types'
+
+const logger = loggerService.withContext('BrowserMacroService')
+
+type BrowserMacroRecording = {
+  // 每个请求一个录制 id，新请求的第一步会替换上一次的录制
+  recordingId: string
+  steps: BTCPMacroStep[]
+}
+
+const recordings = new Map<string, BrowserMacroRecording>()
+
+export function recordBrowserMacroStep(assistantId: string, recordingId: string, step: BTCPMacroStep) {
+  const recording = recordings.get(assistantId)
+  if (recording?.recordingId === recordingId) {
+    recording.steps.push(step)
+    return
+  }
+  recordings.set(assistantId, { recordingId, steps: [step] })
+}
+
+/**
+ * 助手最近一次浏览器操作录下的步骤
+ */
+export function getBrowserMacroRecording(assistantId: string): BTCPMacroStep[] {
+  return recordings.get(assistantId)?.steps ?? []
+}
+
+/**
+ * 用录制的步骤创建宏，输入框中填写的内容会变成参数，录制时的值作为默认值
+ */
+export function createBrowserMacro(name: string, recordedSteps: BTCPMacroStep[]): BrowserMacro {
+  const { steps, parameters } = parameterizeMacroSteps(recordedSteps)
+  logger.info('Browser macro created', { name, steps: steps.length, parameters: parameters.length })
+  return { id: nanoid(), name, parameters, steps }
+}
@@ -0,0 +1,141 @@
+/**
+ * 浏览器工具审批
+ *
+ * 站点策略要求审批时，btcpBrowserPlugin 会在执行前调用 requestBrowserToolApproval。
+ * 审批请求复用 toolPermissions 的 pending/allow/deny 流程，由消息中的 ToolPermissionRequestCard 展示，
+ * 只是决定不经过主进程，而是直接在渲染进程中兑现。
+ */
+import type { BTCPApprovalRequest } from '@cherrystudio/ai-core/built-in/plugins'
+import { loggerService } from '@logger'
+import { nanoid } from '@reduxjs/toolkit'
+import i18n from '@renderer/i18n'
+import store from '@renderer/store'
+import { rememberSiteDecision } from '@renderer/store/browserUse'
+import { toolPermissionsActions } from '@renderer/store/toolPermissions'
+
+const logger = loggerService.withContext('BrowserPermissionService')
+
+const BROWSER_APPROVAL_TIMEOUT_MS = 60_000
+const BROWSER_REQUEST_PREFIX = 'browser-'
+
+type PendingBrowserApproval = {
+  resolve: (approved: boolean) => void
+  timeout: ReturnType<typeof setTimeout>
+  origin: string | null
+  toolCallId: string
+  abortSignal?: AbortSignal
+  abortListener?: () => void
+}
+
+const pendingApprovals = new Map<string, PendingBrowserApproval>()
+
+export const isBrowserPermissionRequest = (requestId: string) => requestId.startsWith(BROWSER_REQUEST_PREFIX)
+
+const finalizeApproval = (
+  requestId: string,
+  behavior: 'allow' | 'deny',
+  reason: 'response' | 'timeout' | 'aborted'
+) => {
+  const pending = pendingApprovals.get(requestId)
+  if (!pending) return false
+
+  pendingApprovals.delete(requestId)
+  clearTimeout(pending.timeout)
+  if (pending.abortListener) {
+    pending.abortSignal?.removeEventListener('abort', pending.abortListener)
+  }
+
+  store.dispatch(
+    toolPermissionsActions.requestResolved({ requestId, behavior, reason, toolCallId: pending.toolCallId })
+  )
+  pending.resolve(behavior === 'allow')
+  return true
+}
+
+/**
+ * 请求用户批准一次浏览器工具调用。已记住该站点的决定时直接返回。
+ */
+export async function requestBrowserToolApproval(request: BTCPApprovalRequest): Promise<boolean> {
+  const { toolName, args, origin, abortSignal } = request
+
+  const remembered = origin ? store.getState().browserUse.siteDecisions[origin] : undefined
+  if (remembered) {
+    logger.debug('Using remembered browser site decision', { toolName, origin, remembered })
+    return remembered === 'allow'
+  }
+
+  if (abortSignal?.aborted) {
+    return false
+  }
+
+  const requestId = `${BROWSER_REQUEST_PREFIX}${nanoid()}`
+  const toolCallId = request.toolCallId ?? requestId
+  const input = args && typeof args === 'object' ? (args as Record<string, unknown>) : {}
+  const createdAt = Date.now()
+
+  logger.info('Requesting user approval for browser tool', { requestId, toolName, toolCallId, origin })
+
+  return new Promise<boolean>((resolve) => {
+    const pending: PendingBrowserApproval = {
+      resolve,
+      timeout: setTimeout(() => {
+        logger.info('Browser tool approval timed out', { requestId, toolName })
+        finalizeApproval(requestId, 'deny', 'timeout')
+      }, BROWSER_APPROVAL_TIMEOUT_MS),
+      origin,
+      toolCallId,
+      abortSignal
+    }
+
+    if (abortSignal) {
+      pending.abortListener = () => finalizeApproval(requestId, 'deny', 'aborted')
+      abortSignal.addEventListener('abort', pending.abortListener, { once: true })
+    }
+
+    pendingApprovals.set(requestId, pending)
+
+    store.dispatch(
+      toolPermissionsActions.requestReceived({
+        requestId,
+        toolName,
+        toolId: toolName,
+        toolCallId,
+        description: origin
+          ? i18n.t('message.browser_use.approval.description', { origin })
+          : i18n.t('message.browser_use.approval.description_unknown'),
+        requiresPermissions: false,
+        input,
+        inputPreview: JSON.stringify(input, null, 2),
+        createdAt,
+        expiresAt: createdAt + BROWSER_APPROVAL_TIMEOUT_MS,
+        suggestions: []
+      })
+    )
+  })
+}
+
+/**
+ * 兑现用户在审批卡片上的决定，remember 为 true 时按 origin 记住该决定
+ */
+export function respondToBrowserPermission({
+  requestId,
+  behavior,
+  remember
+}: {
+  requestId: string
+  behavior: 'allow' | 'deny'
+  remember?: boolean
+}): { success: boolean } {
+  const origin = pendingApprovals.get(requestId)?.origin
+
+  if (!finalizeApproval(requestId, behavior, 'response')) {
+    logger.warn('No pending browser approval for request', { requestId })
+    return { success: false }
+  }
+
+  if (remember && origin) {
+    store.dispatch(rememberSiteDecision({ origin, decision: behavior }))
+  }
+
+  return { success: true }
+}
@@ -26,13 +26,22 @@ export interface PyodideExecutionResult {
   image?: string
 }
 
+/**
+ * Worker 接口子集，允许在无法直接创建 Worker 的环境（如浏览器扩展）中替换实现
+ */
+export type PyodideWorker = Pick<
+  Worker,
+  'onmessage' | 'postMessage' | 'terminate' | 'addEventListener' | 'removeEventListener'
+>
+
 /**
  * Pyodide Web Worker 服务
  */
 class PyodideService {
   private static instance: PyodideService | null = null
 
-  private worker: Worker | null = null
+  private worker: PyodideWorker | null = null
+  private workerFactory: (() => PyodideWorker) | null = null
   private initPromise: Promise<void> | null = null
   private initRetryCount: number = 0
   private resolvers: Map<string, { resolve: (value: any) => void; reject: (error: Error) => void }> = new Map()
@@ -51,6 +60,13 @@ class PyodideService {
     return PyodideService.instance
   }
 
+  /**
+   * 替换 Worker 的创建方式，需在首次执行前调用
+   */
+  public setWorkerFactory(factory: () => PyodideWorker): void {
+    this.workerFactory = factory
+  }
+
   /**
    * 初始化 Pyodide Worker
    */
@@ -66,10 +82,15 @@ class PyodideService {
     }
 
     this.initPromise = new Promise<void>((resolve, reject) => {
-      // 动态导入 worker
-      import('../workers/pyodide.worker?worker')
-        .then((WorkerModule) => {
-          this.worker = new WorkerModule.default()
+      // 创建 worker，未设置工厂时动态导入
+      const factory = this.workerFactory
+      const loadWorker = factory
+        ? Promise.resolve().then(factory)
+        : import('../workers/pyodide.worker?worker').then((WorkerModule) => new WorkerModule.default())
+
+      loadWorker
+        .then((worker) => {
+          this.worker = worker
 
           // 设置通用消息处理器
           this.worker.onmessage = this.handleMessage.bind(this)
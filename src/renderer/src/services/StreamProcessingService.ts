@@ -50,6 +50,9 @@ export interface StreamProcessorCallbacks {
   onVideoSearched?: (video?: { type: 'url' | 'path'; content: string }, metadata?: Record<string, any>) => void
   // Called when a block is created
   onBlockCreated?: () => void
+  // Browser screencast frame received / screencast stopped
+  onBrowserScreencastFrame?: (frame: string, url?: string) => void
+  onBrowserScreencastComplete?: () => void
   // Called when raw data is received (e.g., session_id updates from Agent SDK)
   onRawData?: (content: unknown, metadata?: Record<string, any>) => void
 }
@@ -153,6 +156,14 @@ export function createStreamProcessor(callbacks: StreamProcessorCallbacks = {})
           if (callbacks.onBlockCreated) callbacks.onBlockCreated()
           break
         }
+        case ChunkType.BROWSER_SCREENCAST_FRAME: {
+          if (callbacks.onBrowserScreencastFrame) callbacks.onBrowserScreencastFrame(data.frame, data.url)
+          break
+        }
+        case ChunkType.BROWSER_SCREENCAST_COMPLETE: {
+          if (callbacks.onBrowserScreencastComplete) callbacks.onBrowserScreencastComplete()
+          break
+        }
         case ChunkType.RAW: {
           if (callbacks.onRawData) callbacks.onRawData(data.content, data.metadata)
           break
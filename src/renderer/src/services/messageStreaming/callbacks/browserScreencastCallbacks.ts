@@ -0,0 +1,84 @@
+import { loggerService } from '@logger'
+import type { AppDispatch, RootState } from '@renderer/store'
+import { updateOneBlock, upsertOneBlock } from '@renderer/store/messageBlock'
+import { newMessagesActions } from '@renderer/store/newMessage'
+import { MessageBlockStatus } from '@renderer/types/newMessage'
+import { createBrowserScreencastBlock } from '@renderer/utils/messageUtils/create'
+
+const logger = loggerService.withContext('BrowserScreencastCallbacks')
+
+interface BrowserScreencastCallbacksDeps {
+  assistantMsgId: string
+  dispatch: AppDispatch
+  getState: () => RootState
+  topicId: string
+  saveUpdatesToDB: any
+}
+
+/**
+ * 浏览器实时画面块
+ *
+ * 画面帧与文本、工具块交错到达，因此不经过 BlockManager 的活跃块切换，
+ * 以免打断正在流式输出的块；帧只更新内存，画面结束时才写入数据库。
+ */
+export const createBrowserScreencastCallbacks = (deps: BrowserScreencastCallbacksDeps) => {
+  const { assistantMsgId, dispatch, getState, topicId, saveUpdatesToDB } = deps
+
+  // 同一条消息只保留一个画面块，工具多轮调用时复用
+  let screencastBlockId: string | null = null
+  let frameCount = 0
+
+  const onBrowserScreencastFrame = async (frame: string, url?: string) => {
+    frameCount++
+
+    if (screencastBlockId) {
+      dispatch(
+        updateOneBlock({
+          id: screencastBlockId,
+          changes: { frame, url, frameCount, status: MessageBlockStatus.STREAMING }
+        })
+      )
+      return
+    }
+
+    const block = createBrowserScreencastBlock(assistantMsgId, {
+      status: MessageBlockStatus.STREAMING,
+      frame,
+      url,
+      frameCount
+    })
+    screencastBlockId = block.id
+
+    dispatch(upsertOneBlock(block))
+    dispatch(
+      newMessagesActions.upsertBlockReference({
+        messageId: assistantMsgId,
+        blockId: block.id,
+        status: block.status,
+        blockType: block.type
+      })
+    )
+
+    const message = getState().messages.entities[assistantMsgId]
+    if (message) {
+      await saveUpdatesToDB(assistantMsgId, topicId, { blocks: message.blocks }, [block])
+    }
+  }
+
+  const onBrowserScreencastComplete = async () => {
+    if (!screencastBlockId) return
+
+    dispatch(updateOneBlock({ id: screencastBlockId, changes: { status: MessageBlockStatus.SUCCESS } }))
+
+    const block = getState().messageBlocks.entities[screencastBlockId]
+    if (block) {
+      await saveUpdatesToDB(assistantMsgId, topicId, {}, [block])
+    }
+    logger.debug('Browser screencast finished', { blockId: screencastBlockId, frameCount })
+  }
+
+  return {
+    onBrowserScreencastFrame,
+    onBrowserScreencastComplete
+  }
+}
@@ -2,6 +2,7 @@ import type { Assistant } from '@renderer/types'
 
 import type { BlockManager } from '../BlockManager'
 import { createBaseCallbacks } from './baseCallbacks'
+import { createBrowserScreencastCallbacks } from './browserScreencastCallbacks'
 import { createCitationCallbacks } from './citationCallbacks'
 import { createCompactCallbacks } from './compactCallbacks'
 import { createImageCallbacks } from './imageCallbacks'
@@ -69,6 +70,14 @@ export const createCallbacks = (deps: CallbacksDependencies) => {
     saveUpdatesToDB
   })
 
+  const browserScreencastCallbacks = createBrowserScreencastCallbacks({
+    assistantMsgId,
+    dispatch,
+    getState,
+    topicId,
+    saveUpdatesToDB
+  })
+
   // 创建textCallbacks时传入citationCallbacks的getCitationBlockId方法和compactCallbacks的handleTextComplete方法
   const textCallbacks = createTextCallbacks({
     blockManager,
@@ -89,6 +98,7 @@ export const createCallbacks = (deps: CallbacksDependencies) => {
     ...citationCallbacks,
     ...videoCallbacks,
     ...compactCallbacks,
+    ...browserScreencastCallbacks,
     // 清理资源的方法
     cleanup: () => {
       // 清理由 messageThunk 中的节流函数管理，这里不需要特别处理
@@ -55,6 +55,23 @@ export const createToolCallbacks = (deps: ToolCallbacksDependencies) => {
       }
     },
 
+    onToolCallInProgress: (toolResponse: MCPToolResponse) => {
+      const existingBlockId = toolCallIdToBlockIdMap.get(toolResponse.id)
+      if (!existingBlockId) {
+        logger.debug(`[onToolCallInProgress] No block yet for tool call ID: ${toolResponse.id}`)
+        return
+      }
+
+      blockManager.smartBlockUpdate(
+        existingBlockId,
+        {
+          status: MessageBlockStatus.PROCESSING,
+          metadata: { rawMcpToolResponse: toolResponse }
+        },
+        MessageBlockType.TOOL
+      )
+    },
+
     onToolCallComplete: (toolResponse: MCPToolResponse) => {
       if (toolResponse?.id) {
         dispatch(toolPermissionsActions.removeByToolCallId({ toolCallId: toolResponse.id }))
@@ -1,7 +1,7 @@
 import type { PayloadAction } from '@reduxjs/toolkit'
 import { createSlice } from '@reduxjs/toolkit'
 
-export type BrowserUseToolset = 'minimal' | 'standard' | 'full'
+export type BrowserUseToolset = 'minimal' | 'standard' | 'tabs' | 'full'
 
 export interface BrowserUseSettings {
   enabled: boolean
@@ -12,6 +12,18 @@ export interface BrowserUseSettings {
   injectSystemPrompt: boolean
 }
 
+export type BrowserUseSiteDecision = 'allow' | 'deny'
+
+/**
+ * 按站点（origin）限制浏览器工具的策略，匹配规则见 btcpBrowserPlugin/policy.ts
+ */
+export interface BrowserUseSitePolicy {
+  allowedOrigins: string[]
+  blockedOrigins: string[]
+  readOnlyOrigins: string[]
+  requireApproval: boolean
+}
+
 export interface BrowserUseAssistantState {
   enabled: boolean
   toolset: BrowserUseToolset
@@ -20,6 +32,9 @@ export interface BrowserUseAssistantState {
 export interface BrowserUseState {
   globalSettings: BrowserUseSettings
   byAssistant: Record<string, BrowserUseAssistantState>
+  sitePolicy: BrowserUseSitePolicy
+  // 用户在审批时选择记住的决定，按 origin 保存
+  siteDecisions: Record<string, BrowserUseSiteDecision>
 }
 
 export const initialState: BrowserUseState = {
@@ -31,7 +46,14 @@ export const initialState: BrowserUseState = {
     enableTracking: false,
     injectSystemPrompt: true
   },
-  byAssistant: {}
+  byAssistant: {},
+  sitePolicy: {
+    allowedOrigins: [],
+    blockedOrigins: [],
+    readOnlyOrigins: [],
+    requireApproval: true
+  },
+  siteDecisions: {}
 }
 
 const browserUseSlice = createSlice({
@@ -68,6 +90,15 @@ const browserUseSlice = createSlice({
     },
     clearBrowserUseForAssistant: (state, action: PayloadAction<{ assistantId: string }>) => {
       delete state.byAssistant[action.payload.assistantId]
+    },
+    setSitePolicy: (state, action: PayloadAction<Partial<BrowserUseSitePolicy>>) => {
+      state.sitePolicy = { ...state.sitePolicy, ...action.payload }
+    },
+    rememberSiteDecision: (state, action: PayloadAction<{ origin: string; decision: BrowserUseSiteDecision }>) => {
+      state.siteDecisions[action.payload.origin] = action.payload.decision
+    },
+    forgetSiteDecision: (state, action: PayloadAction<{ origin: string }>) => {
+      delete state.siteDecisions[action.payload.origin]
     }
   }
 })
@@ -81,7 +112,29 @@ export const {
   setEnableTracking,
   setInjectSystemPrompt,
   setBrowserUseForAssistant,
-  clearBrowserUseForAssistant
+  clearBrowserUseForAssistant,
+  setSitePolicy,
+  rememberSiteDecision,
+  forgetSiteDecision
 } = browserUseSlice.actions
 
 export default browserUseSlice.reducer
+
+/**
+ * Effective browser use settings for an assistant: global settings with the per-assistant
+ * toolset applied. Browser use is only enabled when both the global switch and the
+ * assistant's toggle are on.
+ */
+export const selectBrowserUseSettingsForAssistant = (
+  state: { browserUse: BrowserUseState },
+  assistantId: string
+): BrowserUseSettings => {
+  const { globalSettings, byAssistant } = state.browserUse
+  const assistantSettings = byAssistant[assistantId]
+
+  return {
+    ...globalSettings,
+    enabled: globalSettings.enabled && (assistantSettings?.enabled ?? false),
+    toolset: assistantSettings?.toolset ?? globalSettings.toolset
+  }
+}
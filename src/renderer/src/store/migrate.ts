@@ -60,6 +60,7 @@ import { isEmpty } from 'lodash'
 import { createMigrate } from 'redux-persist'
 
 import type { RootState } from '.'
+import { initialState as browserUseInitialState } from './browserUse'
 import { DEFAULT_TOOL_ORDER, DEFAULT_TOOL_ORDER_BY_SCOPE } from './inputTools'
 import { initialState as llmInitialState, moveProvider } from './llm'
 import { mcpSlice } from './mcp'
@@ -3159,6 +3160,19 @@ const migrateConfig = {
       logger.error('migrate 192 error', error as Error)
       return state
     }
+  },
+  '193': (state: RootState) => {
+    try {
+      if (state.browserUse) {
+        state.browserUse.sitePolicy = state.browserUse.sitePolicy ?? { ...browserUseInitialState.sitePolicy }
+        state.browserUse.siteDecisions = state.browserUse.siteDecisions ?? {}
+      }
+      logger.info('migrate 193 success')
+      return state
+    } catch (error) {
+      logger.error('migrate 193 error', error as Error)
+      return state
+    }
   }
 }
 
@@ -48,6 +48,8 @@ export enum ChunkType {
   SEARCH_COMPLETE_UNION = 'search_complete_union',
   VIDEO_SEARCHED = 'video.searched',
   IMAGE_SEARCHED = 'image.searched',
+  BROWSER_SCREENCAST_FRAME = 'browser.screencast.frame',
+  BROWSER_SCREENCAST_COMPLETE = 'browser.screencast.complete',
   RAW = 'raw'
 }
 
@@ -415,6 +417,30 @@ export interface ImageSearchedChunk {
   metadata: Record<string, any>
 }
 
+export interface BrowserScreencastFrameChunk {
+  /**
+   * The type of the chunk
+   */
+  type: ChunkType.BROWSER_SCREENCAST_FRAME
+
+  /**
+   * The frame as a data URL
+   */
+  frame: string
+
+  /**
+   * The page URL when the frame was captured
+   */
+  url?: string
+}
+
+export interface BrowserScreencastCompleteChunk {
+  /**
+   * The type of the chunk
+   */
+  type: ChunkType.BROWSER_SCREENCAST_COMPLETE
+}
+
 export interface RawChunk {
   /**
    * The type of the chunk
@@ -462,4 +488,6 @@ export type Chunk =
   | SearchCompleteUnionChunk // 搜索(知识库/互联网)完成
   | VideoSearchedChunk // 知识库检索视频
   | ImageSearchedChunk // 知识库检索图片
+  | BrowserScreencastFrameChunk // 浏览器实时画面帧
+  | BrowserScreencastCompleteChunk // 浏览器实时画面结束
   | RawChunk
@@ -29,6 +29,55 @@ export * from './provider'
 
 export type McpMode = 'disabled' | 'auto' | 'manual'
 
+/** A recorded browser tool call of a macro, with the same shape as BTCPMacroStep in ai-core */
+export type BrowserMacroStep = {
+  toolName: string
+  args: Record<string, unknown>
+  /** Set when the step's selector was a snapshot ref */
+  locator?: { role: string; name?: string; index: number }
+  delay: number
+  duration: number
+}
+
+/** A recorded sequence of browser tool calls, replayed by the BTCP browser plugin */
+export type BrowserMacro = {
+  id: string
+  name: string
+  description?: string
+  parameters: { name: string; description?: string; default?: string }[]
+  steps: BrowserMacroStep[]
+}
+
+/** A named profile of the built-in browser MCP server, with its own cookies and storage */
+export type BrowserProfile = {
+  name: string
+  createdAt: number
+  lastUsedAt: number
+  /** Number of cookies stored in the profile */
+  cookies: number
+}
+
+/** One saved version of a Hub script */
+export type HubScriptVersion = {
+  version: number
+  description: string
+  /** JavaScript run by the Hub exec runtime, with the call arguments in `params` */
+  code: string
+  /** JSON Schema of `params` */
+  inputSchema?: MCPTool['inputSchema']
+  savedAt: number
+}
+
+/** A composite tool saved from Hub exec code, advertised by Hub search */
+export type HubScript = HubScriptVersion & {
+  name: string
+  createdAt: number
+  /** Previous versions, newest first */
+  history: HubScriptVersion[]
+}
+
+export type HubScriptInput = Pick<HubScript, 'name' | 'description' | 'code' | 'inputSchema'>
+
 export type Assistant = {
   id: string
   name: string
@@ -56,6 +105,10 @@ export type Assistant = {
   regularPhrases?: QuickPhrase[] // Added for regular phrase
   tags?: string[] // 助手标签
   enableMemory?: boolean
+  /** 从浏览器操作录制的宏，模型可通过 browser_run_macro 调用 */
+  browserMacros?: BrowserMacro[]
+  /** 内置浏览器 MCP 服务使用的浏览器配置文件，未设置时由模型选择或使用默认配置 */
+  browserProfile?: string
   // for translate. 更好的做法是定义base assistant，把 Assistant 作为多种不同定义 assistant 的联合类型，但重构代价太大
   content?: string
   targetLanguage?: TranslateLanguage
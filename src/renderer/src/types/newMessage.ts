@@ -32,7 +32,8 @@ export enum MessageBlockType {
   ERROR = 'error', // 错误信息
   CITATION = 'citation', // 引用类型 (Now includes web search, grounding, etc.)
   VIDEO = 'video', // 视频内容
-  COMPACT = 'compact' // Compact command response
+  COMPACT = 'compact', // Compact command response
+  BROWSER_SCREENCAST = 'browser_screencast' // 浏览器控制时的实时画面
 }
 
 // 块状态定义
@@ -153,6 +154,14 @@ export interface CompactMessageBlock extends BaseMessageBlock {
   compactedContent: string // 从 <local-command-stdout> 提取的内容
 }
 
+// 浏览器实时画面块 - 只保存最新一帧
+export interface BrowserScreencastMessageBlock extends BaseMessageBlock {
+  type: MessageBlockType.BROWSER_SCREENCAST
+  frame?: string // 最新一帧（data URL）
+  url?: string // 截取该帧时的页面地址
+  frameCount: number
+}
+
 // MessageBlock 联合类型
 export type MessageBlock =
   | PlaceholderMessageBlock
@@ -167,6 +176,7 @@ export type MessageBlock =
   | CitationMessageBlock
   | VideoMessageBlock
   | CompactMessageBlock
+  | BrowserScreencastMessageBlock
 
 export enum UserMessageStatus {
   SUCCESS = 'success'
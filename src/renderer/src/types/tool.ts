@@ -58,5 +58,6 @@ export interface MCPTool extends BaseTool {
   inputSchema: z.infer<typeof MCPToolInputSchema>
   outputSchema?: z.infer<typeof MCPToolOutputSchema>
   isBuiltIn?: boolean // 标识是否为内置工具，内置工具不需要通过MCP协议调用
+  presetArguments?: Record<string, unknown> // 调用时合并进参数并覆盖模型给出的值，如助手的浏览器配置文件
   type: 'mcp'
 }
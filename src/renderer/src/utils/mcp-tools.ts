@@ -131,6 +131,13 @@ export async function callBuiltInTool(toolResponse: MCPToolResponse): Promise<MC
   return undefined
 }
 
+// 合并工具的预设参数（如助手的浏览器配置文件），预设值优先
+function withPresetArguments({ tool, arguments: args }: MCPToolResponse): MCPToolResponse['arguments'] {
+  if (!tool.presetArguments) return args
+  if (args !== undefined && (typeof args !== 'object' || Array.isArray(args))) return args
+  return { ...args, ...tool.presetArguments }
+}
+
 export async function callMCPTool(
   toolResponse: MCPToolResponse,
   topicId?: string,
@@ -151,7 +158,7 @@ export async function callMCPTool(
       {
         server,
         name: toolResponse.tool.name,
-        args: toolResponse.arguments,
+        args: withPresetArguments(toolResponse),
         callId: toolResponse.id
       },
       topicId ? currentSpan(topicId, modelName)?.spanContext() : undefined
@@ -4,6 +4,7 @@ import { FileTypes } from '@renderer/types'
 import type { SerializedError } from '@renderer/types/error'
 import type {
   BaseMessageBlock,
+  BrowserScreencastMessageBlock,
   CitationMessageBlock,
   CodeMessageBlock,
   CompactMessageBlock,
@@ -314,6 +315,26 @@ export function createCompactBlock(
   }
 }
 
+/**
+ * Creates a Browser Screencast Message Block that shows the live page while browser tools run.
+ * @param messageId - The ID of the parent message.
+ * @param overrides - Optional properties to override the defaults.
+ * @returns A BrowserScreencastMessageBlock object.
+ */
+export function createBrowserScreencastBlock(
+  messageId: string,
+  overrides: Partial<Omit<BrowserScreencastMessageBlock, 'id' | 'messageId' | 'type'>> = {}
+): BrowserScreencastMessageBlock {
+  const { frame, url, frameCount = 0, ...baseOverrides } = overrides
+  const baseBlock = createBaseMessageBlock(messageId, MessageBlockType.BROWSER_SCREENCAST, baseOverrides)
+  return {
+    ...baseBlock,
+    frame,
+    url,
+    frameCount
+  }
+}
+
 /**
  * Creates a new Message object
  * @param role - The role of the message sender ('user' or 'assistant').
@@ -6,8 +6,9 @@
  */
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react-swc'
-import { copyFileSync, cpSync, existsSync, mkdirSync } from 'fs'
-import { resolve } from 'path'
+import { copyFileSync, cpSync, existsSync, mkdirSync, readdirSync } from 'fs'
+import { createRequire } from 'module'
+import { dirname, resolve } from 'path'
 import { defineConfig } from 'vite'
 
 const isProd = process.env.NODE_ENV === 'production'
@@ -42,6 +43,32 @@ function copyExtensionFiles() {
       if (existsSync(assetsSrc)) {
         cpSync(assetsSrc, assetsDst, { recursive: true })
       }
+
+      // Copy the Tesseract worker and WASM core for OCR (extension pages can't load them from a CDN)
+      const require = createRequire(import.meta.url)
+      const tesseractRoot = dirname(require.resolve('tesseract.js/package.json'))
+      const tesseractCoreRoot = dirname(
+        createRequire(resolve(tesseractRoot, 'package.json')).resolve('tesseract.js-core/package.json')
+      )
+      const tesseractDir = resolve(outDir, 'tesseract')
+      mkdirSync(tesseractDir, { recursive: true })
+      copyFileSync(resolve(tesseractRoot, 'dist/worker.min.js'), resolve(tesseractDir, 'worker.min.js'))
+      for (const file of readdirSync(tesseractCoreRoot)) {
+        if (/^tesseract-core.*\.wasm\.js$/.test(file)) {
+          copyFileSync(resolve(tesseractCoreRoot, file), resolve(tesseractDir, file))
+        }
+      }
+
+      // Language data for the OCR languages the extension offers (LSTM models, as tesseract.js loads by default)
+      const langDir = resolve(tesseractDir, 'lang')
+      mkdirSync(langDir, { recursive: true })
+      for (const lang of ['chi_sim', 'chi_tra', 'eng']) {
+        const langRoot = dirname(require.resolve(`@tesseract.js-data/${lang}/package.json`))
+        copyFileSync(
+          resolve(langRoot, `4.0.0_best_int/${lang}.traineddata.gz`),
+          resolve(langDir, `${lang}.traineddata.gz`)
+        )
+      }
     }
   }
 }
@@ -117,6 +144,12 @@ export default defineConfig({
         sidepanel: resolve(__dirname, 'src/extension/sidepanel.html'),
         window: resolve(__dirname, 'src/extension/window.html'),
         popup: resolve(__dirname, 'src/extension/popup.html'),
+        // Selection action overlay, embedded in web pages by the selection toolbar
+        selection: resolve(__dirname, 'src/extension/selection.html'),
+        // Test page of the browser self-test, opened in a tab of its own
+        selftest: resolve(__dirname, 'src/extension/selftest.html'),
+        // Sandboxed page hosting the Pyodide worker, which loads Pyodide from the CDN
+        pyodide: resolve(__dirname, 'src/extension/pyodide.html'),
         // Background service worker
         background: resolve(__dirname, 'src/extension/background.ts'),
         // Content script
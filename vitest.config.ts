@@ -33,7 +33,11 @@ export default defineConfig({
           name: 'renderer',
           environment: 'jsdom',
           setupFiles: ['@vitest/web-worker', 'tests/renderer.setup.ts'],
-          include: ['src/renderer/**/*.{test,spec}.{ts,tsx}', 'src/renderer/**/__tests__/**/*.{test,spec}.{ts,tsx}']
+          include: [
+            'src/renderer/**/*.{test,spec}.{ts,tsx}',
+            'src/renderer/**/__tests__/**/*.{test,spec}.{ts,tsx}',
+            'src/extension/**/__tests__/**/*.{test,spec}.{ts,tsx}'
+          ]
         }
       },
       // 脚本单元测试配置